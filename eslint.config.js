@@ -4,21 +4,27 @@ const foxglove = require("@foxglove/eslint-plugin");
 const globals = require("globals");
 const tseslint = require("typescript-eslint");
 
-module.exports = tseslint.config({
-  files: ["src/**/*.ts", "src/**/*.tsx"],
-  extends: [foxglove.configs.base, foxglove.configs.react, foxglove.configs.typescript],
-  languageOptions: {
-    globals: {
-      ...globals.es2020,
-      ...globals.browser,
+module.exports = tseslint.config(
+  {
+    files: ["src/**/*.ts", "src/**/*.tsx"],
+    extends: [foxglove.configs.base, foxglove.configs.react, foxglove.configs.typescript],
+    languageOptions: {
+      globals: {
+        ...globals.es2020,
+        ...globals.browser,
+      },
+      parserOptions: {
+        project: "tsconfig.json",
+        tsconfigRootDir: __dirname,
+      },
     },
-    parserOptions: {
-      project: "tsconfig.json",
-      tsconfigRootDir: __dirname,
+    rules: {
+      "react-hooks/exhaustive-deps": "error",
+      "@foxglove/no-boolean-parameters": "off",
     },
   },
-  rules: {
-    "react-hooks/exhaustive-deps": "error",
-    "@foxglove/no-boolean-parameters": "off",
+  {
+    files: ["src/**/*.test.ts"],
+    extends: [foxglove.configs.jest],
   },
-});
+);
@@ -0,0 +1,70 @@
+import { ReactElement } from "react";
+
+import { TIMESTAMP_ANOMALY_LABELS, anomalyCount } from "./report";
+import { TIMESTAMP_ANOMALY_KINDS, TimestampAnomalies } from "./stats/types";
+
+/**
+ * Counts of each timestamp anomaly kind and a table of the recent ones, newest first. Rows seek
+ * playback when `onSeek` is provided.
+ */
+export function AnomalyList({
+  anomalies,
+  startTime,
+  onSeek,
+}: {
+  anomalies: TimestampAnomalies;
+  /** Recording start in seconds; times are shown relative to it when known. */
+  startTime: number | undefined;
+  onSeek?: (time: number) => void;
+}): ReactElement {
+  const { counts, recent } = anomalies;
+  const total = anomalyCount(anomalies);
+  const formatTime = (time: number) =>
+    startTime != undefined ? `+${(time - startTime).toFixed(3)} s` : `${time.toFixed(3)} s`;
+
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <strong>Timestamp anomalies</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        {TIMESTAMP_ANOMALY_KINDS.filter((kind) => counts[kind] > 0)
+          .map((kind) => `${TIMESTAMP_ANOMALY_LABELS[kind]}: ${counts[kind]}`)
+          .join(" · ")}
+        {total > recent.length && ` (showing last ${recent.length} of ${total})`}
+        {onSeek && " — click a row to seek"}
+      </span>
+      <div style={{ maxHeight: "160px", overflow: "auto" }}>
+        <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left" }}>Timestamp</th>
+              <th style={{ textAlign: "left" }}>Kind</th>
+              <th>Delta (ms)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent
+              .map((anomaly, index) => ({ anomaly, index }))
+              .reverse()
+              .map(({ anomaly, index }) => (
+                <tr
+                  key={index}
+                  onClick={
+                    onSeek &&
+                    (() => {
+                      onSeek(anomaly.receiveTime);
+                    })
+                  }
+                  style={{ cursor: onSeek ? "pointer" : "default" }}
+                  title={onSeek ? "Seek playback to this message" : undefined}
+                >
+                  <td style={{ textAlign: "left" }}>{formatTime(anomaly.timestamp)}</td>
+                  <td style={{ textAlign: "left" }}>{TIMESTAMP_ANOMALY_LABELS[anomaly.kind]}</td>
+                  <td>{(anomaly.delta * 1000).toFixed(1)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
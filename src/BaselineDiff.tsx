@@ -0,0 +1,97 @@
+import { ReactElement } from "react";
+
+import { Baseline, BaselineComparison } from "./baselines";
+
+function signed(value: number, digits: number): string {
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+∞" : "−∞";
+  }
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+/**
+ * Current statistics next to a saved baseline. Regressions are highlighted and listed first; new
+ * and missing topics are summarized below the table.
+ */
+export function BaselineDiff({
+  baseline,
+  comparison,
+  thresholdPercent,
+}: {
+  baseline: Baseline;
+  comparison: BaselineComparison;
+  thresholdPercent: number;
+}): ReactElement {
+  const rows = [...comparison.rows].sort((a, b) =>
+    a.regressions.length !== b.regressions.length
+      ? b.regressions.length - a.regressions.length
+      : a.topic.localeCompare(b.topic),
+  );
+  const regressionCount = rows.filter((row) => row.regressions.length > 0).length;
+
+  return (
+    <div
+      style={{
+        marginBottom: "1rem",
+        padding: "0.5rem 1rem",
+        border: `1px solid ${regressionCount > 0 ? "#d32f2f" : "#ddd"}`,
+        borderRadius: "4px",
+      }}
+    >
+      <strong>Compared to “{baseline.name}”</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        saved {new Date(baseline.createdAt).toLocaleString()} — {regressionCount} regression
+        {regressionCount === 1 ? "" : "s"} past {thresholdPercent}%
+      </span>
+      {rows.length > 0 && (
+        <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left" }}>Topic</th>
+              <th>Baseline (Hz)</th>
+              <th>Current (Hz)</th>
+              <th>Δ Hz</th>
+              <th>Δ %</th>
+              <th>Δ Jitter (ms)</th>
+              <th>Δ Gaps</th>
+              <th style={{ textAlign: "left" }}>Regression</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const regressed = row.regressions.length > 0;
+              return (
+                <tr
+                  key={row.topic}
+                  style={{
+                    backgroundColor: regressed ? "rgba(211, 47, 47, 0.1)" : undefined,
+                    color: regressed ? "#d32f2f" : undefined,
+                  }}
+                >
+                  <td style={{ textAlign: "left" }}>{row.topic}</td>
+                  <td>{row.baseline.averageFrequency.toFixed(2)}</td>
+                  <td>{row.current.averageFrequency.toFixed(2)}</td>
+                  <td>{signed(row.deltaHz, 2)}</td>
+                  <td>{signed(row.deltaHzPercent, 1)}</td>
+                  <td>{row.deltaJitter != undefined ? signed(row.deltaJitter * 1000, 3) : "–"}</td>
+                  <td>{signed(row.deltaGaps, 0)}</td>
+                  <td style={{ textAlign: "left" }}>{row.regressions.join(", ")}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {comparison.newTopics.length > 0 && (
+        <div style={{ fontSize: "0.9em", marginTop: "0.25rem" }}>
+          <strong>New topics:</strong> {comparison.newTopics.join(", ")}
+        </div>
+      )}
+      {comparison.missingTopics.length > 0 && (
+        <div style={{ fontSize: "0.9em", marginTop: "0.25rem", color: "#d32f2f" }}>
+          <strong>Missing topics:</strong> {comparison.missingTopics.join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
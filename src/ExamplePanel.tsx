@@ -1,4 +1,11 @@
-import { Immutable, PanelExtensionContext, Topic } from "@foxglove/extension";
+import {
+  Immutable,
+  MessageEvent,
+  PanelExtensionContext,
+  SettingsTreeAction,
+  Topic,
+  VariableValue,
+} from "@foxglove/extension";
 import {
   ReactElement,
   useCallback,
@@ -10,620 +17,1631 @@ import {
 } from "react";
 import { createRoot } from "react-dom/client";
 
-interface FrequencyStats {
-  topic: string;
-  messageCount: number;
-  frequencies: number[];
-  averageFrequency: number;
-  medianFrequency: number;
-  stdDeviation: number;
-  minFrequency: number;
-  maxFrequency: number;
-  filteredFrequencies: number[];
-  outlierCount: number;
-}
+import { AnomalyList } from "./AnomalyList";
+import { BaselineDiff } from "./BaselineDiff";
+import { ExportOptions } from "./ExportOptions";
+import { FrequencyHistogram } from "./FrequencyHistogram";
+import { GapList } from "./GapList";
+import { HealthBadge, HealthSummary } from "./Health";
+import { Histogram } from "./Histogram";
+import { PatternSummary } from "./PatternSummary";
+import { PeriodTable } from "./PeriodTable";
+import { SizeTable } from "./SizeTable";
+import { SyncAnalysis } from "./SyncAnalysis";
+import { TimelineChart } from "./TimelineChart";
+import { TopicPicker } from "./TopicPicker";
+import { VirtualList } from "./VirtualList";
+import {
+  baselineFromStats,
+  compareToBaseline,
+  parseBaseline,
+  serializeBaselineJson,
+} from "./baselines";
+import {
+  PanelConfig,
+  SortBy,
+  addBaseline,
+  removeBaseline,
+  contractForTopic,
+  HistogramUnit,
+  contractsFromConfig,
+  migrateConfig,
+  outlierOptionsFromConfig,
+  replaceContracts,
+  deselectAllTopics,
+  resolveSelectedTopics,
+  selectAllTopics,
+  setTopicsSelected,
+  staleOptionsFromConfig,
+  statsWindowFromConfig,
+  timestampSelectionForTopic,
+} from "./config";
+import {
+  HealthStatus,
+  evaluateHealth,
+  parseContracts,
+  serializeContractsJson,
+  serializeContractsYaml,
+} from "./contracts";
+import { DIAGNOSTIC_ARRAY_SCHEMA, buildDiagnosticArray, diagnosticDatatypes } from "./diagnostics";
+import { downloadFile, fileTimestamp } from "./download";
+import { formatBandwidth, formatBytes } from "./format";
+import {
+  LATENCY_LABELS,
+  REPORT_SECTIONS,
+  ReportFormat,
+  ReportInput,
+  buildCsvReport,
+  buildHtmlReport,
+  anomalyCount,
+  buildJsonReport,
+  buildMarkdownReport,
+  buildRawIntervalsCsv,
+} from "./report";
+import {
+  OUTLIER_THRESHOLD_INPUTS,
+  applySettingsAction,
+  buildSettingsNodes,
+  setOutlierThreshold,
+} from "./settings";
+import { ActivityTracker, TopicStaleness, formatSilence, topicStaleness } from "./stale";
+import { StatsSnapshot, StatsWorkerClient } from "./stats/StatsWorkerClient";
+import {
+  OUTLIER_METHODS,
+  OUTLIER_METHOD_LABELS,
+  OutlierMethod,
+  describeOutlierMethod,
+} from "./stats/outliers";
+import { ARRIVAL_PATTERN_LABELS } from "./stats/pattern";
+import { FrequencyStats, LATENCY_KINDS } from "./stats/types";
+import { SNAPSHOT_INTERVAL_MS } from "./stats/workerProtocol";
+import { StreamSplitter, parseStreamName, systemSizeTotals } from "./streamSplit";
+import { fromSeconds, toSeconds } from "./time";
+import {
+  describeFallback,
+  describeTimestampSelection,
+  measureLatencies,
+  resolveTimestamp,
+} from "./timestamps";
+import { TopicPatternTarget } from "./topicFilter";
+import { buildVariables } from "./variables";
 
-interface TopicTimestamps {
-  [topic: string]: Set<number>;
-}
+/** Height of a collapsed topic card, assumed for cards that haven't been rendered yet. */
+const COLLAPSED_CARD_HEIGHT = 66;
 
-interface CachedStats {
-  [topic: string]: {
-    stats: FrequencyStats;
-    lastUpdate: number;
-    timestampCount: number;
-  };
+const STALE_BADGE_STYLE = {
+  display: "inline-block",
+  padding: "0.1rem 0.4rem",
+  borderRadius: "4px",
+  backgroundColor: "#6d4c41",
+  color: "white",
+  fontSize: "0.75em",
+  fontWeight: "bold",
+} as const;
+
+const SMALL_BUTTON_STYLE = {
+  padding: "0.25rem 0.5rem",
+  fontSize: "0.8rem",
+  border: "1px solid #ccc",
+  backgroundColor: "#f5f5f5",
+  color: "#333",
+  borderRadius: "4px",
+  cursor: "pointer",
+} as const;
+
+/**
+ * The data source's size estimate of a message. The field is deprecated as a memory-management
+ * hint only; as a per-message size it is exactly what the bandwidth statistics need.
+ */
+function messageSize(messageEvent: MessageEvent): number {
+  // eslint-disable-next-line @typescript-eslint/no-deprecated
+  return messageEvent.sizeInBytes;
 }
 
-const MAX_TIMESTAMPS_PER_TOPIC = 1000;
+function formatMs(seconds: number): string {
+  return (seconds * 1000).toFixed(2);
+}
 
-interface HistogramBin {
-  binStart: number;
-  binEnd: number;
-  count: number;
+/**
+ * Shows how much of the recording has been loaded in whole-recording mode. `loadedUntil` is the
+ * receive time every selected topic has been read up to, Infinity once all of them are complete.
+ */
+function RecordingProgress({
+  supported,
+  loadedUntil,
+  startTime,
+  endTime,
+}: {
+  supported: boolean;
+  loadedUntil: number | undefined;
+  startTime: number | undefined;
+  endTime: number | undefined;
+}): ReactElement {
+  if (!supported) {
+    return (
+      <div style={{ fontSize: "0.8em", color: "#666", marginBottom: "0.5rem" }}>
+        This data source does not support loading the whole recording; analyze playback instead.
+      </div>
+    );
+  }
+  if (loadedUntil == undefined || startTime == undefined || endTime == undefined) {
+    return (
+      <div style={{ fontSize: "0.8em", color: "#666", marginBottom: "0.5rem" }}>
+        Waiting for recording data…
+      </div>
+    );
+  }
+  const duration = endTime - startTime;
+  const loaded = Math.min(duration, Math.max(0, loadedUntil - startTime));
+  const fraction = duration > 0 ? loaded / duration : 1;
+  return (
+    <div style={{ fontSize: "0.8em", color: "#666", marginBottom: "0.5rem" }}>
+      {fraction < 1
+        ? `Loading recording… ${(fraction * 100).toFixed(0)}% (${loaded.toFixed(1)} of ${duration.toFixed(1)} s)`
+        : `Entire recording analyzed (${duration.toFixed(1)} s)`}
+      <div style={{ height: "4px", backgroundColor: "#eee", marginTop: "0.25rem" }}>
+        <div style={{ height: "100%", width: `${fraction * 100}%`, backgroundColor: "#007acc" }} />
+      </div>
+    </div>
+  );
 }
 
 function TopicFrequencyPanel({ context }: { context: PanelExtensionContext }): ReactElement {
   const [topics, setTopics] = useState<undefined | Immutable<Topic[]>>();
-  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
-  const [topicTimestamps, setTopicTimestamps] = useState<TopicTimestamps>({});
-  const [outlierThreshold, setOutlierThreshold] = useState<number>(2.0);
-  const [showHistogram, setShowHistogram] = useState<boolean>(false);
-  const [sortBy, setSortBy] = useState<"topic" | "frequency" | "outliers">("topic");
+  const [config, setConfig] = useState<PanelConfig>(() => migrateConfig(context.initialState));
   const [renderDone, setRenderDone] = useState<(() => void) | undefined>();
-  const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
-  const statsCache = useRef<CachedStats>({});
-
-  const removeOutliers = useCallback((frequencies: number[], threshold: number): number[] => {
-    if (frequencies.length < 3) {
-      return frequencies;
-    }
+  const [snapshot, setSnapshot] = useState<StatsSnapshot>(() => ({
+    streams: [],
+    stats: new Map(),
+    histograms: new Map(),
+  }));
+  const [statsWorker] = useState(
+    () =>
+      new StatsWorkerClient(statsWindowFromConfig(config), config.timelineResolution, setSnapshot),
+  );
+  const [activity] = useState(() => new ActivityTracker());
+  const [splitter] = useState(() => new StreamSplitter());
+  /** Topics whose cards are rendered; expanded ones get snapshots with their samples. */
+  const [visibleTopics, setVisibleTopics] = useState<ReadonlySet<string>>(() => new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [startTime, setStartTime] = useState<number | undefined>();
+  /** Playback time at which the stats were last cleared because of a seek or loop. */
+  const [segmentStart, setSegmentStart] = useState<number | undefined>();
+  const lastCurrentTime = useRef<number | undefined>();
+  /**
+   * Set when the panel itself seeks back, e.g. to a gap or a timeline point. The statistics are
+   * kept rather than reset, and nothing is added until playback is back at `resumeAt`, so the
+   * list or chart that started the seek stays in place.
+   */
+  const panelSeek = useRef<{ resumeAt: number; pending: boolean } | undefined>();
+  const [analysisResumesAt, setAnalysisResumesAt] = useState<number | undefined>();
+  /** Playback time as of the last published snapshot. */
+  const [playhead, setPlayhead] = useState<number | undefined>();
+  const [endTime, setEndTime] = useState<number | undefined>();
+  /** Receive time all selected topics have been read up to in whole-recording mode. */
+  const [loadedUntil, setLoadedUntil] = useState<number | undefined>();
+  const lastPlayheadTime = useRef(0);
+  const pendingPlayhead = useRef<ReturnType<typeof setTimeout> | undefined>();
+  const configRef = useRef(config);
+  const contractFileInput = useRef<HTMLInputElement>(null);
+  const [contractMessage, setContractMessage] = useState<string | undefined>();
+  const [publishError, setPublishError] = useState<string | undefined>();
+  const baselineFileInput = useRef<HTMLInputElement>(null);
+  const [baselineName, setBaselineName] = useState("");
+  const [baselineMessage, setBaselineMessage] = useState<string | undefined>();
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  /** Text of the inline outlier threshold input while it is being edited. */
+  const [thresholdDraft, setThresholdDraft] = useState<string | undefined>();
+  const [exportExcludedTopics, setExportExcludedTopics] = useState<ReadonlySet<string>>(
+    () => new Set(),
+  );
+  const latestResults = useRef<
+    | {
+        stats: readonly FrequencyStats[];
+        health: ReadonlyMap<string, HealthStatus>;
+        config: PanelConfig;
+      }
+    | undefined
+  >();
 
-    const sum = frequencies.reduce((acc, freq) => acc + freq, 0);
-    const mean = sum / frequencies.length;
-    const variance =
-      frequencies.reduce((acc, freq) => acc + (freq - mean) ** 2, 0) / frequencies.length;
-    const stdDev = Math.sqrt(variance);
+  const { method: outlierMethod, threshold: outlierParameter } = outlierOptionsFromConfig(config);
+  const outlierDescription = describeOutlierMethod({
+    method: outlierMethod,
+    threshold: outlierParameter,
+  });
+  const {
+    highlightOutliers,
+    histogramUnit,
+    showTimeline,
+    timelineResolution,
+    gapFactor,
+    clockJumpThreshold,
+    topicConfigs,
+    showHistogram,
+    sortBy,
+    analysisScope,
+    windowMode,
+    windowSize,
+    windowSeconds,
+  } = config;
+  // Keyed by content so a new topic list that selects the same topics doesn't resubscribe.
+  const { selectedTopics: manualTopics, topicPatterns } = config;
+  const selectedTopicsKey = useMemo(
+    () => resolveSelectedTopics({ selectedTopics: manualTopics, topicPatterns }, topics).join("\n"),
+    [manualTopics, topicPatterns, topics],
+  );
+  const selectedTopics = useMemo(
+    () => (selectedTopicsKey === "" ? [] : selectedTopicsKey.split("\n")),
+    [selectedTopicsKey],
+  );
+  const selectedTopicSet = useMemo(() => new Set(selectedTopics), [selectedTopics]);
+  const expandedTopics = useMemo(() => new Set(config.expandedTopics), [config.expandedTopics]);
 
-    return frequencies.filter((freq) => Math.abs(freq - mean) <= threshold * stdDev);
+  const updateConfig = useCallback((patch: Partial<PanelConfig>) => {
+    setConfig((prev) => ({ ...prev, ...patch }));
   }, []);
 
-  const calculateFrequencyStats = useCallback(
-    (timestamps: number[]): Omit<FrequencyStats, "topic"> => {
-      if (timestamps.length < 2) {
-        return {
-          messageCount: timestamps.length,
-          frequencies: [],
-          averageFrequency: 0,
-          medianFrequency: 0,
-          stdDeviation: 0,
-          minFrequency: 0,
-          maxFrequency: 0,
-          filteredFrequencies: [],
-          outlierCount: 0,
-        };
-      }
+  useEffect(() => {
+    configRef.current = config;
+    context.saveState(config);
+  }, [context, config]);
 
-      const sortedTimestamps = [...timestamps].sort((a, b) => a - b);
-      const intervals: number[] = [];
+  useEffect(() => {
+    return () => {
+      statsWorker.terminate();
+    };
+  }, [statsWorker]);
 
-      for (let i = 1; i < sortedTimestamps.length; i++) {
-        const interval = sortedTimestamps[i]! - sortedTimestamps[i - 1]!;
-        if (interval > 0) {
-          intervals.push(1.0 / interval);
-        }
-      }
+  useEffect(() => {
+    statsWorker.setWindow(
+      statsWindowFromConfig({ analysisScope, windowMode, windowSize, windowSeconds }),
+    );
+  }, [statsWorker, analysisScope, windowMode, windowSize, windowSeconds]);
 
-      if (intervals.length === 0) {
-        return {
-          messageCount: timestamps.length,
-          frequencies: [],
-          averageFrequency: 0,
-          medianFrequency: 0,
-          stdDeviation: 0,
-          minFrequency: 0,
-          maxFrequency: 0,
-          filteredFrequencies: [],
-          outlierCount: 0,
-        };
-      }
+  useEffect(() => {
+    statsWorker.setTimelineResolution(timelineResolution);
+  }, [statsWorker, timelineResolution]);
 
-      const filteredFrequencies = removeOutliers(intervals, outlierThreshold);
-      const outlierCount = intervals.length - filteredFrequencies.length;
-
-      if (filteredFrequencies.length === 0) {
-        return {
-          messageCount: timestamps.length,
-          frequencies: intervals,
-          averageFrequency: 0,
-          medianFrequency: 0,
-          stdDeviation: 0,
-          minFrequency: 0,
-          maxFrequency: 0,
-          filteredFrequencies: [],
-          outlierCount,
-        };
-      }
+  useEffect(() => {
+    statsWorker.setClockJumpThreshold(clockJumpThreshold);
+  }, [statsWorker, clockJumpThreshold]);
 
-      const sum = filteredFrequencies.reduce((acc, freq) => acc + freq, 0);
-      const average = sum / filteredFrequencies.length;
-      const sortedFiltered = [...filteredFrequencies].sort((a, b) => a - b);
-      const medianIndex = Math.floor(sortedFiltered.length / 2);
-      const median =
-        sortedFiltered.length % 2 === 0
-          ? (sortedFiltered[medianIndex - 1]! + sortedFiltered[medianIndex]!) / 2
-          : sortedFiltered[medianIndex]!;
-
-      const variance =
-        filteredFrequencies.reduce((acc, freq) => acc + (freq - average) ** 2, 0) /
-        filteredFrequencies.length;
-      const stdDev = Math.sqrt(variance);
-
-      return {
-        messageCount: timestamps.length,
-        frequencies: intervals,
-        averageFrequency: average,
-        medianFrequency: median,
-        stdDeviation: stdDev,
-        minFrequency: Math.min(...filteredFrequencies),
-        maxFrequency: Math.max(...filteredFrequencies),
-        filteredFrequencies,
-        outlierCount,
-      };
+  // Sub-streams `messageEvent` belongs to when its topic is split by a message path.
+  const subStreamsOf = useCallback(
+    (messageEvent: MessageEvent): string[] => {
+      const splitPath = configRef.current.topicConfigs[messageEvent.topic]?.splitPath;
+      return splitPath != undefined
+        ? splitter.streamsFor(messageEvent.topic, messageEvent.message, splitPath)
+        : [];
     },
-    [removeOutliers, outlierThreshold],
+    [splitter],
   );
 
-  const getCachedStats = useCallback(
-    (topic: string): FrequencyStats => {
-      const timestamps = topicTimestamps[topic];
-      const timestampCount = timestamps?.size || 0;
-      const lastUpdate = timestamps ? Math.max(...Array.from(timestamps)) : 0;
-
-      const cached = statsCache.current[topic];
-      if (cached && cached.lastUpdate === lastUpdate && cached.timestampCount === timestampCount) {
-        return cached.stats;
+  const addMessages = useCallback(
+    (events: Immutable<MessageEvent[]>) => {
+      for (const messageEvent of events) {
+        const selection = timestampSelectionForTopic(configRef.current, messageEvent.topic);
+        const { seconds, source } = resolveTimestamp(messageEvent, selection);
+        const sample = {
+          timestamp: seconds,
+          source,
+          receiveTime: toSeconds(messageEvent.receiveTime),
+          latencies: measureLatencies(messageEvent, selection.field),
+          sizeInBytes: messageSize(messageEvent),
+        };
+        statsWorker.addMessage([messageEvent.topic, ...subStreamsOf(messageEvent)], sample);
       }
-
-      const stats: FrequencyStats = {
-        topic,
-        ...calculateFrequencyStats(Array.from(timestamps || []).sort()),
-      };
-
-      statsCache.current[topic] = {
-        stats,
-        lastUpdate,
-        timestampCount,
-      };
-
-      return stats;
     },
-    [topicTimestamps, calculateFrequencyStats],
+    [statsWorker, subStreamsOf],
   );
 
-  const frequencyStats = useMemo(() => {
-    const stats = selectedTopics.map(getCachedStats);
+  // Timestamps from different clocks can't be mixed, so start over when the source changes.
+  const timestampSourceKey = JSON.stringify([
+    config.timestampSource,
+    config.timestampField,
+    Object.entries(config.topicConfigs).map(([topic, topicConfig]) => [
+      topic,
+      topicConfig.timestampSource,
+      topicConfig.timestampField,
+    ]),
+  ]);
+  // Sub-streams split by a different path don't continue the old ones.
+  const splitPathKey = JSON.stringify(
+    Object.entries(config.topicConfigs).map(([topic, topicConfig]) => [
+      topic,
+      topicConfig.splitPath,
+    ]),
+  );
+  // The same goes for switching between playback and whole-recording analysis.
+  useEffect(() => {
+    statsWorker.reset();
+    splitter.reset();
+    setSegmentStart(undefined);
+    panelSeek.current = undefined;
+    setAnalysisResumesAt(undefined);
+  }, [statsWorker, splitter, timestampSourceKey, splitPathKey, analysisScope]);
+
+  // Whole-recording mode reads every message of the selected topics through one message range
+  // subscription per topic, independent of playback. The keys above restart the reading too.
+  const canLoadRecording = context.subscribeMessageRange != undefined;
+  useEffect(() => {
+    const subscribeMessageRange = context.subscribeMessageRange;
+    setLoadedUntil(undefined);
+    if (analysisScope !== "recording" || !subscribeMessageRange) {
+      return;
+    }
+    let cancelled = false;
+    const topicLoadedUntil = new Map(selectedTopics.map((topic) => [topic, -Infinity]));
+    const publishProgress = () => {
+      setLoadedUntil(Math.min(...topicLoadedUntil.values()));
+    };
+    const unsubscribes = selectedTopics.map((topic) =>
+      subscribeMessageRange({
+        topic,
+        onNewRangeIterator: async (batches) => {
+          // A new iterator reads the topic again from the start.
+          statsWorker.resetTopic(topic);
+          topicLoadedUntil.set(topic, -Infinity);
+          for await (const batch of batches) {
+            if (cancelled) {
+              return;
+            }
+            addMessages(batch);
+            statsWorker.flush();
+            const last = batch[batch.length - 1];
+            if (last) {
+              topicLoadedUntil.set(topic, toSeconds(last.receiveTime));
+              publishProgress();
+            }
+          }
+          if (!cancelled) {
+            topicLoadedUntil.set(topic, Infinity);
+            publishProgress();
+          }
+        },
+      }),
+    );
+    return () => {
+      cancelled = true;
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe();
+      }
+    };
+  }, [
+    context,
+    statsWorker,
+    selectedTopics,
+    analysisScope,
+    addMessages,
+    timestampSourceKey,
+    splitPathKey,
+  ]);
 
+  const frequencyStats = useMemo(() => {
+    const stats: FrequencyStats[] = [];
+    for (const stream of snapshot.streams) {
+      const latest = snapshot.stats.get(stream);
+      if (latest) {
+        stats.push(latest);
+      }
+    }
     return stats.sort((a, b) => {
       switch (sortBy) {
         case "frequency":
           return b.averageFrequency - a.averageFrequency;
         case "outliers":
           return b.outlierCount - a.outlierCount;
+        case "bandwidth":
+          return (b.size?.bandwidth ?? 0) - (a.size?.bandwidth ?? 0);
         case "topic":
+        case "stale":
         default:
+          // "stale" needs the playback time; it is applied on top of this order below.
           return a.topic.localeCompare(b.topic);
       }
     });
-  }, [selectedTopics, getCachedStats, sortBy]);
+  }, [snapshot, sortBy]);
+
+  // Lets the worker slow down while snapshots take too long to render.
+  useLayoutEffect(() => {
+    statsWorker.snapshotRendered();
+  }, [statsWorker, snapshot]);
 
-  const createHistogram = useCallback((frequencies: number[], bins = 20): HistogramBin[] => {
-    if (frequencies.length === 0) {
-      return [];
+  // Topics and sub-streams that can be compared in the sync view, and the picked ones among them.
+  const analyzedTopics = useMemo(
+    () => frequencyStats.map((stats) => stats.topic).sort(),
+    [frequencyStats],
+  );
+  const syncTopics = useMemo(
+    () => config.syncTopics.filter((topic) => analyzedTopics.includes(topic)),
+    [config.syncTopics, analyzedTopics],
+  );
+  const sync = showSync ? snapshot.sync : undefined;
+
+  // Expected rates of the topics and sub-streams that have one.
+  const topicExpectedRates = useMemo(() => {
+    const rates: Record<string, number> = {};
+    for (const [topic, topicConfig] of Object.entries(topicConfigs)) {
+      if (topicConfig.expectedRate != undefined) {
+        rates[topic] = topicConfig.expectedRate;
+      }
     }
+    return rates;
+  }, [topicConfigs]);
+  const detailedTopics = useMemo(
+    () => [...visibleTopics].filter((topic) => expandedTopics.has(topic)),
+    [visibleTopics, expandedTopics],
+  );
+  const { syncSlop } = config;
+  useEffect(() => {
+    statsWorker.subscribe({
+      topics: selectedTopics,
+      detailed: detailedTopics,
+      histograms: showHistogram
+        ? { periods: histogramUnit === "ms", highlightOutliers }
+        : undefined,
+      outliers: { method: outlierMethod, threshold: outlierParameter },
+      gapFactor,
+      expectedRates: topicExpectedRates,
+      sync: showSync ? { topics: syncTopics, slop: syncSlop } : undefined,
+    });
+  }, [
+    statsWorker,
+    selectedTopics,
+    detailedTopics,
+    showHistogram,
+    histogramUnit,
+    highlightOutliers,
+    outlierMethod,
+    outlierParameter,
+    gapFactor,
+    topicExpectedRates,
+    showSync,
+    syncTopics,
+    syncSlop,
+  ]);
 
-    const min = Math.min(...frequencies);
-    const max = Math.max(...frequencies);
-    const binWidth = (max - min) / bins;
+  const seekPlayback = useMemo(
+    () =>
+      context.seekPlayback
+        ? (time: number) => {
+            const current = lastCurrentTime.current;
+            if (current != undefined && time < current) {
+              panelSeek.current = {
+                resumeAt: panelSeek.current?.resumeAt ?? current,
+                pending: true,
+              };
+              setAnalysisResumesAt(panelSeek.current.resumeAt);
+            }
+            context.seekPlayback?.(time);
+          }
+        : undefined,
+    [context],
+  );
 
-    const histogram = new Array<number>(bins).fill(0);
+  const { staleMode, staleTimeout, stalePeriods } = config;
+  const stalenessByTopic = useMemo(() => {
+    const staleness = new Map<string, TopicStaleness>();
+    const since = activity.since;
+    if (playhead == undefined || since == undefined) {
+      return staleness;
+    }
+    const options = staleOptionsFromConfig({ staleMode, staleTimeout, stalePeriods });
+    for (const stats of frequencyStats) {
+      staleness.set(
+        stats.topic,
+        topicStaleness(
+          activity.lastReceived(stats.topic),
+          since,
+          playhead,
+          stats.referencePeriod,
+          options,
+        ),
+      );
+    }
+    return staleness;
+  }, [activity, playhead, frequencyStats, staleMode, staleTimeout, stalePeriods]);
 
-    frequencies.forEach((freq) => {
-      const binIndex = Math.min(Math.floor((freq - min) / binWidth), bins - 1);
-      histogram[binIndex] = (histogram[binIndex] ?? 0) + 1;
+  const displayedStats = useMemo(() => {
+    if (sortBy !== "stale") {
+      return frequencyStats;
+    }
+    return [...frequencyStats].sort((a, b) => {
+      const staleA = stalenessByTopic.get(a.topic);
+      const staleB = stalenessByTopic.get(b.topic);
+      if ((staleA?.stale ?? false) !== (staleB?.stale ?? false)) {
+        return staleA?.stale === true ? -1 : 1;
+      }
+      return (staleB?.silentFor ?? 0) - (staleA?.silentFor ?? 0);
     });
+  }, [sortBy, frequencyStats, stalenessByTopic]);
 
-    return histogram.map((count, index) => ({
-      binStart: min + index * binWidth,
-      binEnd: min + (index + 1) * binWidth,
-      count,
-    }));
-  }, []);
+  const staleTopics = useMemo(
+    () =>
+      displayedStats
+        .map((stats) => ({ topic: stats.topic, staleness: stalenessByTopic.get(stats.topic) }))
+        .filter(
+          (entry): entry is { topic: string; staleness: TopicStaleness } =>
+            entry.staleness?.stale === true,
+        ),
+    [displayedStats, stalenessByTopic],
+  );
+
+  const healthByTopic = useMemo(() => {
+    const health = new Map<string, HealthStatus>();
+    for (const stats of frequencyStats) {
+      const contract = contractForTopic(config, stats.topic);
+      if (contract) {
+        health.set(stats.topic, evaluateHealth(stats, contract));
+      }
+    }
+    return health;
+  }, [frequencyStats, config]);
+
+  const exportReport = useCallback(
+    async (format: ReportFormat) => {
+      const exported = frequencyStats
+        .map((entry) => entry.topic)
+        .filter((topic) => !exportExcludedTopics.has(topic));
+      if (exported.length === 0) {
+        return;
+      }
+      const name = `topic_frequency_${format === "raw" ? "intervals" : "report"}_${fileTimestamp()}`;
+      if (format === "raw") {
+        const timestamps = await statsWorker.timestamps(exported);
+        downloadFile(
+          buildRawIntervalsCsv(exported, (topic) => timestamps[exported.indexOf(topic)] ?? []),
+          `${name}.csv`,
+          "text/csv;charset=utf-8;",
+        );
+        return;
+      }
+      // The snapshots the worker posts leave out per-message arrays the report needs.
+      const stats = await statsWorker.snapshots(exported);
+      const input: ReportInput = {
+        stats,
+        sections: config.exportSections,
+        settings: {
+          analysisScope: config.analysisScope,
+          window: statsWindowFromConfig(config),
+          timestampSource: config.timestampSource,
+          gapFactor: config.gapFactor,
+          contracts: contractsFromConfig(config),
+        },
+        outlierDescription,
+        health: healthByTopic,
+        generatedAt: new Date(),
+      };
+      switch (format) {
+        case "csv":
+          downloadFile(buildCsvReport(input), `${name}.csv`, "text/csv;charset=utf-8;");
+          break;
+        case "json":
+          downloadFile(buildJsonReport(input), `${name}.json`, "application/json");
+          break;
+        case "markdown":
+          downloadFile(buildMarkdownReport(input), `${name}.md`, "text/markdown;charset=utf-8;");
+          break;
+        case "html":
+          downloadFile(buildHtmlReport(input), `${name}.html`, "text/html;charset=utf-8;");
+          break;
+      }
+    },
+    [statsWorker, frequencyStats, exportExcludedTopics, config, outlierDescription, healthByTopic],
+  );
+
+  useEffect(() => {
+    latestResults.current = { stats: frequencyStats, health: healthByTopic, config };
+  }, [frequencyStats, healthByTopic, config]);
+
+  // Publishing runs on its own timer so the rate is independent of how often the panel renders.
+  // The latest statistics are read through a ref to avoid re-advertising on every update.
+  const canPublish = context.advertise != undefined && context.publish != undefined;
+  const { publishDiagnostics, diagnosticsTopic, diagnosticsRate } = config;
+  useEffect(() => {
+    if (!publishDiagnostics || !context.advertise || !context.publish) {
+      setPublishError(undefined);
+      return;
+    }
+    try {
+      context.advertise(diagnosticsTopic, DIAGNOSTIC_ARRAY_SCHEMA, {
+        datatypes: diagnosticDatatypes(context.dataSourceProfile),
+      });
+      setPublishError(undefined);
+    } catch (error) {
+      setPublishError(`Could not advertise ${diagnosticsTopic}: ${String(error)}`);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const source = latestResults.current;
+      if (!source || source.stats.length === 0) {
+        return;
+      }
+      const expectedRates: Record<string, number | undefined> = {};
+      for (const stats of source.stats) {
+        expectedRates[stats.topic] = contractForTopic(source.config, stats.topic)?.rate;
+      }
+      try {
+        context.publish?.(
+          diagnosticsTopic,
+          buildDiagnosticArray(source.stats, {
+            stamp: fromSeconds(lastCurrentTime.current ?? Date.now() / 1000),
+            health: source.health,
+            expectedRates,
+          }),
+        );
+      } catch (error) {
+        setPublishError(`Publishing to ${diagnosticsTopic} failed: ${String(error)}`);
+      }
+    }, 1000 / diagnosticsRate);
+
+    return () => {
+      clearInterval(interval);
+      context.unadvertise?.(diagnosticsTopic);
+    };
+  }, [context, publishDiagnostics, diagnosticsTopic, diagnosticsRate]);
 
-  const exportToCSV = useCallback(() => {
-    if (frequencyStats.length === 0) {
+  // Variables are throttled like diagnostics. Only changed values are written, and everything this
+  // panel set is cleared again when the feature is turned off or the naming changes.
+  const { exportVariables, variableTemplate, variableMetrics, variableInterval } = config;
+  useEffect(() => {
+    if (!exportVariables) {
       return;
     }
+    const written = new Map<string, VariableValue>();
+    const update = () => {
+      const source = latestResults.current;
+      if (!source) {
+        return;
+      }
+      const next = buildVariables(source.stats, source.health, variableTemplate, variableMetrics);
+      for (const name of written.keys()) {
+        if (!next.has(name)) {
+          context.setVariable(name, undefined);
+          written.delete(name);
+        }
+      }
+      for (const [name, value] of next) {
+        if (!written.has(name) || written.get(name) !== value) {
+          context.setVariable(name, value);
+          written.set(name, value);
+        }
+      }
+    };
+    update();
+    const interval = setInterval(update, variableInterval * 1000);
+
+    return () => {
+      clearInterval(interval);
+      for (const name of written.keys()) {
+        context.setVariable(name, undefined);
+      }
+    };
+  }, [context, exportVariables, variableTemplate, variableMetrics, variableInterval]);
+
+  const systemTotals = useMemo(() => systemSizeTotals(frequencyStats), [frequencyStats]);
+
+  const exportContracts = useCallback(
+    (format: "json" | "yaml") => {
+      const contracts = contractsFromConfig(config);
+      if (format === "json") {
+        downloadFile(
+          serializeContractsJson(contracts),
+          `topic_rate_contracts_${fileTimestamp()}.json`,
+          "application/json",
+        );
+      } else {
+        downloadFile(
+          serializeContractsYaml(contracts),
+          `topic_rate_contracts_${fileTimestamp()}.yaml`,
+          "application/yaml",
+        );
+      }
+    },
+    [config],
+  );
+
+  const importContracts = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      setConfig((prev) =>
+        replaceContracts(prev, parseContracts(text, prev.defaultTolerancePercent)),
+      );
+      setContractMessage(undefined);
+    } catch (error) {
+      setContractMessage(
+        `Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }, []);
 
-    const headers = [
-      "Topic",
-      "Message Count",
-      "Average Frequency (Hz)",
-      "Median Frequency (Hz)",
-      "Standard Deviation (Hz)",
-      "Min Frequency (Hz)",
-      "Max Frequency (Hz)",
-      "Total Samples",
-      "Filtered Samples",
-      "Outlier Count",
-    ];
-
-    const csvContent = [
-      headers.join(","),
-      ...frequencyStats.map((stats) =>
-        [
-          `"${stats.topic}"`,
-          stats.messageCount,
-          stats.averageFrequency.toFixed(4),
-          stats.medianFrequency.toFixed(4),
-          stats.stdDeviation.toFixed(4),
-          stats.minFrequency.toFixed(4),
-          stats.maxFrequency.toFixed(4),
-          stats.frequencies.length,
-          stats.filteredFrequencies.length,
-          stats.outlierCount,
-        ].join(","),
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `topic_frequency_analysis_${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.csv`,
+  const activeBaseline = useMemo(
+    () => config.baselines.find((baseline) => baseline.name === config.activeBaseline),
+    [config.baselines, config.activeBaseline],
+  );
+
+  const baselineComparison = useMemo(
+    () =>
+      activeBaseline && compareToBaseline(activeBaseline, frequencyStats, config.baselineThreshold),
+    [activeBaseline, frequencyStats, config.baselineThreshold],
+  );
+
+  const saveBaseline = useCallback(() => {
+    const name = baselineName.trim() || `Baseline ${fileTimestamp()}`;
+    setConfig((prev) => addBaseline(prev, baselineFromStats(name, frequencyStats)));
+    setBaselineName("");
+    setBaselineMessage(undefined);
+  }, [baselineName, frequencyStats]);
+
+  const exportBaseline = useCallback(() => {
+    if (!activeBaseline) {
+      return;
+    }
+    downloadFile(
+      serializeBaselineJson(activeBaseline),
+      `topic_frequency_baseline_${activeBaseline.name.replace(/[^\w.-]+/g, "_")}.json`,
+      "application/json",
     );
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [frequencyStats]);
+  }, [activeBaseline]);
+
+  const importBaseline = useCallback(async (file: File) => {
+    try {
+      const baseline = parseBaseline(JSON.parse(await file.text()));
+      setConfig((prev) => addBaseline(prev, baseline));
+      setBaselineMessage(undefined);
+    } catch (error) {
+      setBaselineMessage(
+        `Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }, []);
 
   useLayoutEffect(() => {
+    const publishPlayhead = () => {
+      clearTimeout(pendingPlayhead.current);
+      pendingPlayhead.current = undefined;
+      lastPlayheadTime.current = performance.now();
+      setPlayhead(lastCurrentTime.current);
+    };
+
     context.onRender = (renderState, done) => {
-      setRenderDone(() => done);
       setTopics(renderState.topics);
+      if (renderState.startTime) {
+        setStartTime(toSeconds(renderState.startTime));
+      }
+      if (renderState.endTime) {
+        setEndTime(toSeconds(renderState.endTime));
+      }
 
-      if (renderState.currentFrame) {
-        setTopicTimestamps((prev) => {
-          const updated = { ...prev };
-          let hasChanges = false;
-
-          renderState.currentFrame?.forEach((messageEvent) => {
-            const topic = messageEvent.topic;
-            const timestamp = messageEvent.receiveTime.sec + messageEvent.receiveTime.nsec * 1e-9;
-
-            if (!updated[topic]) {
-              updated[topic] = new Set<number>();
-            }
+      const currentTime = renderState.currentTime ? toSeconds(renderState.currentTime) : undefined;
+      const { analysisScope: scope, windowMode: mode, windowSeconds: seconds } = configRef.current;
 
-            const prevSize = updated[topic].size;
-            updated[topic].add(timestamp);
+      // After a seek or a loop back to the start, earlier messages belong to a different part of
+      // the recording.
+      const jumpedBack =
+        currentTime != undefined &&
+        lastCurrentTime.current != undefined &&
+        currentTime < lastCurrentTime.current;
+      const seeked = renderState.didSeek === true || jumpedBack;
+      if (seeked) {
+        activity.reset(currentTime);
+      }
+      // A seek the panel didn't start ends a panel seek; so does playback catching up with it.
+      const heldSeek = panelSeek.current;
+      const keepData = seeked && heldSeek?.pending === true;
+      let resumedAt: number | undefined;
+      if (heldSeek) {
+        if (seeked && !keepData) {
+          panelSeek.current = undefined;
+        } else if (keepData) {
+          heldSeek.pending = false;
+        } else if (currentTime != undefined && currentTime >= heldSeek.resumeAt) {
+          panelSeek.current = undefined;
+          resumedAt = heldSeek.resumeAt;
+        }
+        if (!panelSeek.current) {
+          setAnalysisResumesAt(undefined);
+        }
+      }
+      if (currentTime != undefined) {
+        activity.observeFrom(currentTime);
+      }
+      renderState.currentFrame?.forEach((messageEvent) => {
+        const receiveTime = toSeconds(messageEvent.receiveTime);
+        activity.record(messageEvent.topic, receiveTime);
+        for (const stream of subStreamsOf(messageEvent)) {
+          activity.record(stream, receiveTime);
+        }
+      });
 
-            if (updated[topic].size > prevSize) {
-              hasChanges = true;
+      // The whole recording is read through message range subscriptions, so the playback
+      // position only matters when analyzing playback.
+      if (scope === "playback") {
+        // Mixing messages from before a seek would produce false gaps, so start a new segment.
+        if (seeked && !keepData) {
+          statsWorker.reset();
+          setSegmentStart(currentTime);
+        }
 
-              if (updated[topic].size > MAX_TIMESTAMPS_PER_TOPIC) {
-                const sortedTimestamps = Array.from(updated[topic]).sort((a, b) => b - a);
-                updated[topic] = new Set(sortedTimestamps.slice(0, MAX_TIMESTAMPS_PER_TOPIC));
-                delete statsCache.current[topic];
-              }
-            }
-          });
+        // Messages replayed after a panel seek were analyzed already.
+        if (!panelSeek.current) {
+          if (renderState.currentFrame) {
+            const from = resumedAt;
+            addMessages(
+              from == undefined
+                ? renderState.currentFrame
+                : renderState.currentFrame.filter(
+                    (messageEvent) => toSeconds(messageEvent.receiveTime) > from,
+                  ),
+            );
+          }
+          if (mode === "playhead" && currentTime != undefined) {
+            statsWorker.trimBefore(currentTime - seconds);
+          }
+        }
+      }
+      lastCurrentTime.current = currentTime ?? lastCurrentTime.current;
+      statsWorker.flush();
 
-          return hasChanges ? updated : prev;
-        });
+      // Statistics arrive from the worker at their own throttled rate. The playhead is throttled
+      // the same way so high-rate topics don't re-render the panel on every frame; a trailing
+      // update makes sure the position playback paused at is shown.
+      const sinceLastPlayhead = performance.now() - lastPlayheadTime.current;
+      if (sinceLastPlayhead >= SNAPSHOT_INTERVAL_MS) {
+        publishPlayhead();
+        setRenderDone(() => done);
+      } else {
+        pendingPlayhead.current ??= setTimeout(
+          publishPlayhead,
+          SNAPSHOT_INTERVAL_MS - sinceLastPlayhead,
+        );
+        done();
       }
     };
 
     context.watch("topics");
     context.watch("currentFrame");
-  }, [context]);
+    context.watch("startTime");
+    context.watch("currentTime");
+    context.watch("didSeek");
+    context.watch("endTime");
+
+    return () => {
+      clearTimeout(pendingPlayhead.current);
+    };
+  }, [context, statsWorker, activity, subStreamsOf, addMessages]);
 
   useEffect(() => {
-    if (topics && selectedTopics.length === 0) {
-      const topicNames = topics.map((t) => t.name);
-      setSelectedTopics(topicNames.slice(0, 5));
-      context.subscribe(topicNames.map((name) => ({ topic: name })));
+    if (topics && config.selectedTopics == undefined) {
+      updateConfig({ selectedTopics: topics.slice(0, 5).map((t) => t.name) });
     }
-  }, [topics, selectedTopics.length, context]);
+  }, [topics, config.selectedTopics, updateConfig]);
 
   useEffect(() => {
-    renderDone?.();
-  }, [renderDone]);
+    context.subscribe(selectedTopics.map((topic) => ({ topic })));
+  }, [context, selectedTopics]);
 
-  const handleTopicSelection = useCallback(
-    (topicName: string, selected: boolean) => {
-      if (selected) {
-        setSelectedTopics((prev) => [...prev, topicName]);
-        context.subscribe([{ topic: topicName }]);
-      } else {
-        setSelectedTopics((prev) => prev.filter((t) => t !== topicName));
-      }
+  const settingsActionHandler = useCallback(
+    (action: SettingsTreeAction) => {
+      setConfig((prev) => applySettingsAction(prev, action, topics ?? []));
     },
-    [context],
+    [topics],
   );
 
+  useEffect(() => {
+    context.updatePanelSettingsEditor({
+      actionHandler: settingsActionHandler,
+      nodes: buildSettingsNodes(config, topics, canPublish),
+    });
+  }, [context, config, topics, canPublish, settingsActionHandler]);
+
+  useEffect(() => {
+    renderDone?.();
+  }, [renderDone]);
+
+  const handleTopicSelection = useCallback((targets: TopicPatternTarget[], selected: boolean) => {
+    setConfig((prev) => setTopicsSelected(prev, targets, selected));
+  }, []);
+
   const handleSelectAllTopics = useCallback(() => {
-    if (!topics) {
-      return;
-    }
-    const allTopicNames = topics.map((t) => t.name);
-    setSelectedTopics(allTopicNames);
-    context.subscribe(allTopicNames.map((name) => ({ topic: name })));
-  }, [topics, context]);
+    setConfig(selectAllTopics);
+  }, []);
 
   const handleDeselectAllTopics = useCallback(() => {
-    setSelectedTopics([]);
+    setConfig(deselectAllTopics);
   }, []);
 
+  const handlePatternsChange = useCallback(
+    (patterns: string[]) => {
+      updateConfig({ topicPatterns: patterns });
+    },
+    [updateConfig],
+  );
+
+  const statsByTopic = useMemo(
+    () => new Map(frequencyStats.map((stats) => [stats.topic, stats])),
+    [frequencyStats],
+  );
+
   const toggleTopicExpanded = useCallback((topic: string) => {
-    setExpandedTopics((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(topic)) {
-        newSet.delete(topic);
-      } else {
-        newSet.add(topic);
-      }
-      return newSet;
-    });
+    setConfig((prev) => ({
+      ...prev,
+      expandedTopics: prev.expandedTopics.includes(topic)
+        ? prev.expandedTopics.filter((t) => t !== topic)
+        : [...prev.expandedTopics, topic],
+    }));
   }, []);
 
   return (
-    <div style={{ padding: "1rem", height: "100%", overflow: "auto" }}>
-      <h2>ROS Topic Frequency Analyzer</h2>
-
+    <div ref={scrollRef} style={{ padding: "1rem", height: "100%", overflow: "auto" }}>
       <div
         style={{
-          marginBottom: "1rem",
           display: "flex",
-          gap: "1rem",
+          justifyContent: "space-between",
           alignItems: "center",
-          flexWrap: "wrap",
+          gap: "1rem",
+          marginBottom: "1rem",
         }}
       >
-        <label>
-          Outlier Threshold (σ):
-          <input
-            type="number"
-            value={outlierThreshold}
-            onChange={(e) => {
-              setOutlierThreshold(Number(e.target.value));
-            }}
-            step="0.1"
-            min="0.5"
-            max="5"
-            style={{ marginLeft: "0.5rem", width: "60px" }}
-          />
-        </label>
-        <label>
-          Sort by:
-          <select
-            value={sortBy}
-            onChange={(e) => {
-              setSortBy(e.target.value as "topic" | "frequency" | "outliers");
-            }}
-            style={{ marginLeft: "0.5rem" }}
-          >
-            <option value="topic">Topic Name</option>
-            <option value="frequency">Frequency</option>
-            <option value="outliers">Outlier Count</option>
-          </select>
-        </label>
-        <label>
-          <input
-            type="checkbox"
-            checked={showHistogram}
-            onChange={(e) => {
-              setShowHistogram(e.target.checked);
-            }}
-            style={{ marginRight: "0.5rem" }}
-          />
-          Show Histogram
-        </label>
-        <button
-          onClick={exportToCSV}
-          disabled={frequencyStats.length === 0}
-          style={{
-            padding: "0.5rem 1rem",
-            fontSize: "0.9rem",
-            border: "1px solid #007acc",
-            backgroundColor: frequencyStats.length > 0 ? "#007acc" : "#ccc",
-            color: "white",
-            borderRadius: "4px",
-            cursor: frequencyStats.length > 0 ? "pointer" : "not-allowed",
-          }}
-        >
-          Export CSV
-        </button>
-      </div>
-
-      <div style={{ marginBottom: "1rem" }}>
-        <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginBottom: "0.5rem" }}>
-          <h3 style={{ margin: 0 }}>Select Topics:</h3>
+        <h2 style={{ margin: 0 }}>ROS Topic Frequency Analyzer</h2>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
           <button
-            onClick={handleSelectAllTopics}
+            onClick={() => {
+              setShowSync((prev) => !prev);
+            }}
+            disabled={frequencyStats.length < 2}
             style={{
-              padding: "0.25rem 0.5rem",
-              fontSize: "0.8rem",
+              padding: "0.5rem 1rem",
+              fontSize: "0.9rem",
               border: "1px solid #007acc",
-              backgroundColor: "#007acc",
+              backgroundColor: frequencyStats.length >= 2 ? "#007acc" : "#ccc",
               color: "white",
               borderRadius: "4px",
-              cursor: "pointer",
+              cursor: frequencyStats.length >= 2 ? "pointer" : "not-allowed",
             }}
+            title="Compare how well topics line up in time"
           >
-            Select All
+            Sync…
           </button>
           <button
-            onClick={handleDeselectAllTopics}
+            onClick={() => {
+              setShowExportOptions((prev) => !prev);
+            }}
+            disabled={frequencyStats.length === 0}
             style={{
-              padding: "0.25rem 0.5rem",
-              fontSize: "0.8rem",
-              border: "1px solid #ccc",
-              backgroundColor: "#f5f5f5",
-              color: "#333",
+              padding: "0.5rem 1rem",
+              fontSize: "0.9rem",
+              border: "1px solid #007acc",
+              backgroundColor: frequencyStats.length > 0 ? "#007acc" : "#ccc",
+              color: "white",
               borderRadius: "4px",
-              cursor: "pointer",
+              cursor: frequencyStats.length > 0 ? "pointer" : "not-allowed",
             }}
           >
-            Deselect All
+            Export…
           </button>
         </div>
+      </div>
+
+      {sync && frequencyStats.length >= 2 && (
+        <SyncAnalysis
+          topics={analyzedTopics}
+          syncTopics={syncTopics}
+          sync={sync}
+          onSyncTopicsChange={(picked) => {
+            updateConfig({ syncTopics: picked });
+          }}
+        />
+      )}
+
+      {showExportOptions && frequencyStats.length > 0 && (
+        <ExportOptions
+          topics={frequencyStats.map((stats) => stats.topic)}
+          excludedTopics={exportExcludedTopics}
+          sections={config.exportSections}
+          onToggleTopic={(topic, included) => {
+            setExportExcludedTopics((prev) => {
+              const next = new Set(prev);
+              if (included) {
+                next.delete(topic);
+              } else {
+                next.add(topic);
+              }
+              return next;
+            });
+          }}
+          onSetAllTopics={(included) => {
+            setExportExcludedTopics(
+              included ? new Set() : new Set(frequencyStats.map((stats) => stats.topic)),
+            );
+          }}
+          onToggleSection={(section, included) => {
+            setConfig((prev) => ({
+              ...prev,
+              exportSections: REPORT_SECTIONS.filter((s) =>
+                s === section ? included : prev.exportSections.includes(s),
+              ),
+            }));
+          }}
+          onExport={(format) => {
+            void exportReport(format);
+          }}
+        />
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          gap: "0.5rem",
+          alignItems: "center",
+          marginBottom: "1rem",
+          fontSize: "0.9em",
+        }}
+      >
+        Rate contracts:
+        <button
+          onClick={() => {
+            exportContracts("yaml");
+          }}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Export YAML
+        </button>
+        <button
+          onClick={() => {
+            exportContracts("json");
+          }}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => {
+            contractFileInput.current?.click();
+          }}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Import…
+        </button>
+        <input
+          ref={contractFileInput}
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) {
+              void importContracts(file);
+            }
+          }}
+        />
+        {contractMessage != undefined && (
+          <span style={{ color: "#d32f2f" }}>
+            {contractMessage}{" "}
+            <button
+              onClick={() => {
+                setContractMessage(undefined);
+              }}
+              style={{ border: "none", background: "none", cursor: "pointer" }}
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </span>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          gap: "0.5rem",
+          alignItems: "center",
+          marginBottom: "1rem",
+          fontSize: "0.9em",
+        }}
+      >
+        Baseline:
+        <input
+          type="text"
+          value={baselineName}
+          placeholder="Name"
+          onChange={(e) => {
+            setBaselineName(e.target.value);
+          }}
+          style={{ width: "8rem" }}
+        />
+        <button
+          onClick={saveBaseline}
+          disabled={frequencyStats.length === 0}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Save current
+        </button>
+        <select
+          value={config.activeBaseline ?? ""}
+          onChange={(e) => {
+            updateConfig({ activeBaseline: e.target.value || undefined });
+          }}
+        >
+          <option value="">No comparison</option>
+          {config.baselines.map((baseline) => (
+            <option key={baseline.name} value={baseline.name}>
+              {baseline.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={exportBaseline} disabled={!activeBaseline} style={SMALL_BUTTON_STYLE}>
+          Export JSON
+        </button>
+        <button
+          onClick={() => {
+            baselineFileInput.current?.click();
+          }}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Import…
+        </button>
+        <button
+          onClick={() => {
+            if (activeBaseline) {
+              setConfig((prev) => removeBaseline(prev, activeBaseline.name));
+            }
+          }}
+          disabled={!activeBaseline}
+          style={SMALL_BUTTON_STYLE}
+        >
+          Delete
+        </button>
+        <input
+          ref={baselineFileInput}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) {
+              void importBaseline(file);
+            }
+          }}
+        />
+        {baselineMessage != undefined && (
+          <span style={{ color: "#d32f2f" }}>
+            {baselineMessage}{" "}
+            <button
+              onClick={() => {
+                setBaselineMessage(undefined);
+              }}
+              style={{ border: "none", background: "none", cursor: "pointer" }}
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </span>
+        )}
+      </div>
+
+      {analysisScope === "recording" && (
+        <RecordingProgress
+          supported={canLoadRecording}
+          loadedUntil={loadedUntil}
+          startTime={startTime}
+          endTime={endTime}
+        />
+      )}
+
+      {analysisScope === "playback" && segmentStart != undefined && startTime != undefined && (
+        <div style={{ fontSize: "0.8em", color: "#666", marginBottom: "0.5rem" }}>
+          Statistics since +{(segmentStart - startTime).toFixed(2)} s (reset after seek)
+        </div>
+      )}
+
+      {analysisScope === "playback" && analysisResumesAt != undefined && startTime != undefined && (
+        <div style={{ fontSize: "0.8em", color: "#666", marginBottom: "0.5rem" }}>
+          Statistics held after seeking back; analysis resumes at +
+          {(analysisResumesAt - startTime).toFixed(2)} s
+        </div>
+      )}
+
+      {publishDiagnostics && (
         <div
           style={{
-            maxHeight: "150px",
-            overflow: "auto",
-            border: "1px solid #ccc",
-            padding: "0.5rem",
+            fontSize: "0.8em",
+            color: canPublish && publishError == undefined ? "#666" : "#d32f2f",
+            marginBottom: "0.5rem",
           }}
         >
-          {(topics ?? []).map((topic) => (
-            <label key={topic.name} style={{ display: "block", marginBottom: "0.25rem" }}>
-              <input
-                type="checkbox"
-                checked={selectedTopics.includes(topic.name)}
-                onChange={(e) => {
-                  handleTopicSelection(topic.name, e.target.checked);
-                }}
-                style={{ marginRight: "0.5rem" }}
-              />
-              {topic.name} ({topic.schemaName})
-            </label>
-          ))}
+          {!canPublish
+            ? "Diagnostics publishing is enabled, but this data source does not support publishing"
+            : (publishError ??
+              `Publishing diagnostics on ${diagnosticsTopic} at ${diagnosticsRate} Hz`)}
         </div>
-      </div>
+      )}
 
-      {frequencyStats.map((stats) => {
-        const isExpanded = expandedTopics.has(stats.topic);
-        return (
-          <div
-            key={stats.topic}
-            style={{
-              marginBottom: "1rem",
-              border: "1px solid #ddd",
-              borderRadius: "4px",
-            }}
-          >
+      {staleTopics.length > 0 && (
+        <div
+          style={{
+            padding: "0.5rem 1rem",
+            marginBottom: "1rem",
+            border: "1px solid #d32f2f",
+            borderRadius: "4px",
+            fontSize: "0.9em",
+          }}
+        >
+          <strong style={{ color: "#d32f2f" }}>
+            {staleTopics.length} stale topic{staleTopics.length === 1 ? "" : "s"}:
+          </strong>{" "}
+          {staleTopics
+            .map(({ topic, staleness }) =>
+              staleness.neverReceived
+                ? `${topic} (never received)`
+                : `${topic} (silent ${formatSilence(staleness.silentFor)})`,
+            )
+            .join(", ")}
+        </div>
+      )}
+
+      {healthByTopic.size > 0 && <HealthSummary statuses={[...healthByTopic.values()]} />}
+
+      {systemTotals.topics > 0 && (
+        <div style={{ fontSize: "0.9em", color: "#666", marginBottom: "0.5rem" }}>
+          <strong>System total:</strong> {formatBandwidth(systemTotals.bandwidth)} across{" "}
+          {systemTotals.topics} topics, {formatBytes(systemTotals.totalBytes)} received
+        </div>
+      )}
+
+      {activeBaseline && baselineComparison && (
+        <BaselineDiff
+          baseline={activeBaseline}
+          comparison={baselineComparison}
+          thresholdPercent={config.baselineThreshold}
+        />
+      )}
+
+      {config.showInlineControls && (
+        <div
+          style={{
+            marginBottom: "1rem",
+            display: "flex",
+            gap: "1rem",
+            alignItems: "center",
+            flexWrap: "wrap",
+          }}
+        >
+          <label>
+            Outliers:
+            <select
+              value={outlierMethod}
+              onChange={(e) => {
+                updateConfig({ outlierMethod: e.target.value as OutlierMethod });
+              }}
+              style={{ marginLeft: "0.5rem" }}
+            >
+              {OUTLIER_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {OUTLIER_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={thresholdDraft ?? outlierParameter}
+              onChange={(e) => {
+                // Partial or out-of-range input stays in the field but isn't applied.
+                const value = e.target.valueAsNumber;
+                setThresholdDraft(e.target.value);
+                setConfig((prev) => setOutlierThreshold(prev, prev.outlierMethod, value));
+              }}
+              onBlur={() => {
+                setThresholdDraft(undefined);
+              }}
+              step={OUTLIER_THRESHOLD_INPUTS[outlierMethod].step}
+              min={OUTLIER_THRESHOLD_INPUTS[outlierMethod].min}
+              max={OUTLIER_THRESHOLD_INPUTS[outlierMethod].max}
+              style={{ marginLeft: "0.5rem", width: "60px" }}
+            />
+          </label>
+          <label>
+            Sort by:
+            <select
+              value={sortBy}
+              onChange={(e) => {
+                updateConfig({ sortBy: e.target.value as SortBy });
+              }}
+              style={{ marginLeft: "0.5rem" }}
+            >
+              <option value="topic">Topic Name</option>
+              <option value="frequency">Frequency</option>
+              <option value="outliers">Outlier Count</option>
+              <option value="bandwidth">Bandwidth</option>
+              <option value="stale">Stale first</option>
+            </select>
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={showHistogram}
+              onChange={(e) => {
+                updateConfig({ showHistogram: e.target.checked });
+              }}
+              style={{ marginRight: "0.5rem" }}
+            />
+            Show Histogram
+          </label>
+          <label>
+            Histogram unit:
+            <select
+              value={histogramUnit}
+              onChange={(e) => {
+                updateConfig({ histogramUnit: e.target.value as HistogramUnit });
+              }}
+              disabled={!showHistogram}
+              style={{ marginLeft: "0.5rem" }}
+            >
+              <option value="hz">Hz</option>
+              <option value="ms">ms</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {config.showTopicPicker && (
+        <TopicPicker
+          topics={topics}
+          selected={selectedTopicSet}
+          patterns={config.topicPatterns}
+          stats={statsByTopic}
+          onSetSelected={handleTopicSelection}
+          onSelectAll={handleSelectAllTopics}
+          onDeselectAll={handleDeselectAllTopics}
+          onPatternsChange={handlePatternsChange}
+        />
+      )}
+
+      <VirtualList
+        items={displayedStats}
+        getKey={(stats) => stats.topic}
+        estimatedHeight={COLLAPSED_CARD_HEIGHT}
+        scrollRef={scrollRef}
+        onVisibleChange={setVisibleTopics}
+        renderItem={(stats) => {
+          const isExpanded = expandedTopics.has(stats.topic);
+          const topicConfig = config.topicConfigs[stats.topic];
+          const timestampSelection = timestampSelectionForTopic(
+            config,
+            parseStreamName(stats.topic).topic,
+          );
+          const fallback = describeFallback(stats.timestampSources, timestampSelection);
+          const health = healthByTopic.get(stats.topic);
+          const contract = contractForTopic(config, stats.topic);
+          const staleness = stalenessByTopic.get(stats.topic);
+          const histograms = snapshot.histograms.get(stats.topic);
+          return (
             <div
+              key={stats.topic}
               style={{
-                padding: "0.75rem 1rem",
-                backgroundColor: "#f8f9fa",
-                borderBottom: isExpanded ? "1px solid #ddd" : "none",
-                cursor: "pointer",
-                display: "flex",
-                justifyContent: "space-between",
-                alignItems: "center",
+                marginBottom: "1rem",
+                border: "1px solid #ddd",
+                borderRadius: "4px",
               }}
-              onClick={() => toggleTopicExpanded(stats.topic)}
             >
-              <div>
-                <strong>{stats.topic}</strong>
-                <span style={{ marginLeft: "1rem", color: "#666", fontSize: "0.9em" }}>
-                  {stats.messageCount} msgs | {stats.averageFrequency.toFixed(1)} Hz avg
-                  {stats.outlierCount > 0 && ` | ${stats.outlierCount} outliers`}
-                </span>
+              <div
+                style={{
+                  padding: "0.75rem 1rem",
+                  backgroundColor: "#f8f9fa",
+                  borderBottom: isExpanded ? "1px solid #ddd" : "none",
+                  cursor: "pointer",
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+                onClick={() => {
+                  toggleTopicExpanded(stats.topic);
+                }}
+              >
+                <div>
+                  {health != undefined && (
+                    <span style={{ marginRight: "0.5rem" }}>
+                      <HealthBadge status={health} />
+                    </span>
+                  )}
+                  {staleness?.stale === true && (
+                    <span
+                      style={{ ...STALE_BADGE_STYLE, marginRight: "0.5rem" }}
+                      title={`No message for ${formatSilence(staleness.silentFor)} (threshold ${formatSilence(staleness.threshold)})`}
+                    >
+                      {staleness.neverReceived ? "NO DATA" : "STALE"}
+                    </span>
+                  )}
+                  <strong>{topicConfig?.alias ?? stats.topic}</strong>
+                  {topicConfig?.alias != undefined && (
+                    <span style={{ marginLeft: "0.5rem", color: "#999", fontSize: "0.8em" }}>
+                      {stats.topic}
+                    </span>
+                  )}
+                  <span style={{ marginLeft: "1rem", color: "#666", fontSize: "0.9em" }}>
+                    {stats.messageCount} msgs | {stats.averageFrequency.toFixed(1)} Hz avg
+                    {contract != undefined &&
+                      ` (expected ${contract.rate} Hz ±${contract.tolerancePercent}%)`}
+                    {stats.outlierCount > 0 && ` | ${stats.outlierCount} outliers`}
+                    {stats.gapCount > 0 && ` | ${stats.gapCount} gaps`}
+                    {stats.pattern != undefined &&
+                      ` | ${ARRIVAL_PATTERN_LABELS[stats.pattern.kind].toLowerCase()}`}
+                    {anomalyCount(stats.anomalies) > 0 &&
+                      ` | ${anomalyCount(stats.anomalies)} timestamp anomalies`}
+                    {stats.size != undefined && ` | ${formatBandwidth(stats.size.bandwidth)}`}
+                    {staleness != undefined &&
+                      (staleness.neverReceived
+                        ? ` | no messages for ${formatSilence(staleness.silentFor)}`
+                        : ` | last ${formatSilence(staleness.silentFor)} ago`)}
+                  </span>
+                  {fallback != undefined && (
+                    <span
+                      style={{ marginLeft: "1rem", color: "#b26a00", fontSize: "0.8em" }}
+                      title={fallback}
+                    >
+                      ⚠ timestamp fallback
+                    </span>
+                  )}
+                </div>
+                <span style={{ fontSize: "1.2em", color: "#666" }}>{isExpanded ? "▼" : "▶"}</span>
               </div>
-              <span style={{ fontSize: "1.2em", color: "#666" }}>{isExpanded ? "▼" : "▶"}</span>
-            </div>
 
-            {isExpanded && (
-              <div style={{ padding: "1rem" }}>
-                <div
-                  style={{
-                    display: "grid",
-                    gridTemplateColumns: "repeat(3, 1fr)",
-                    gap: "1rem",
-                    marginBottom: "1rem",
-                  }}
-                >
-                  <div>
-                    <strong>Messages:</strong> {stats.messageCount}
-                    <br />
-                    <strong>Avg Freq:</strong> {stats.averageFrequency.toFixed(2)} Hz
-                    <br />
-                    <strong>Median Freq:</strong> {stats.medianFrequency.toFixed(2)} Hz
+              {isExpanded && (
+                <div style={{ padding: "1rem" }}>
+                  <div
+                    style={{
+                      display: "grid",
+                      gridTemplateColumns: "repeat(3, 1fr)",
+                      gap: "1rem",
+                      marginBottom: "1rem",
+                    }}
+                  >
+                    <div>
+                      <strong>Messages:</strong> {stats.messageCount}
+                      <br />
+                      <strong>Avg Freq:</strong> {stats.averageFrequency.toFixed(2)} Hz
+                      <br />
+                      <strong>Median Freq:</strong> {stats.medianFrequency.toFixed(2)} Hz
+                    </div>
+                    <div>
+                      <strong>Std Dev:</strong> {stats.stdDeviation.toFixed(2)} Hz
+                      <br />
+                      <strong>Min Freq:</strong> {stats.minFrequency.toFixed(2)} Hz
+                      <br />
+                      <strong>Max Freq:</strong> {stats.maxFrequency.toFixed(2)} Hz
+                    </div>
+                    <div>
+                      <strong>Total Samples:</strong> {stats.sampleCount}
+                      <br />
+                      <strong>Filtered Samples:</strong> {stats.sampleCount - stats.outlierCount}
+                      <br />
+                      <strong>Outliers:</strong> {stats.outlierCount}
+                    </div>
                   </div>
-                  <div>
-                    <strong>Std Dev:</strong> {stats.stdDeviation.toFixed(2)} Hz
-                    <br />
-                    <strong>Min Freq:</strong> {stats.minFrequency.toFixed(2)} Hz
-                    <br />
-                    <strong>Max Freq:</strong> {stats.maxFrequency.toFixed(2)} Hz
+
+                  <div style={{ marginBottom: "0.5rem", fontSize: "0.9em" }}>
+                    <strong>Outlier method:</strong> {outlierDescription}
+                    {stats.outlierBounds != undefined &&
+                      `, keeping ${stats.outlierBounds.lower.toFixed(2)} – ${stats.outlierBounds.upper.toFixed(2)} Hz`}
                   </div>
-                  <div>
-                    <strong>Total Samples:</strong> {stats.frequencies.length}
-                    <br />
-                    <strong>Filtered Samples:</strong> {stats.filteredFrequencies.length}
-                    <br />
-                    <strong>Outliers:</strong> {stats.outlierCount}
+
+                  <div style={{ marginBottom: "1rem", fontSize: "0.9em" }}>
+                    <strong>Timestamp:</strong> {describeTimestampSelection(timestampSelection)}
+                    {fallback != undefined && (
+                      <span style={{ marginLeft: "0.5rem", color: "#b26a00" }}>({fallback})</span>
+                    )}
                   </div>
-                </div>
 
-                {showHistogram && stats.filteredFrequencies.length > 0 && (
-                  <div>
-                    <h4>Frequency Distribution (Outliers Removed)</h4>
-                    <div
-                      style={{
-                        display: "flex",
-                        alignItems: "end",
-                        height: "120px",
-                        gap: "2px",
-                        position: "relative",
-                      }}
-                    >
-                      {createHistogram(stats.filteredFrequencies).map((bin, index) => {
-                        const histogramData = createHistogram(stats.filteredFrequencies);
-                        const maxCount = Math.max(...histogramData.map((b) => b.count), 1);
-                        const barHeight = (bin.count / maxCount) * 100;
-                        return (
-                          <div
-                            key={index}
-                            style={{
-                              flex: 1,
-                              backgroundColor: "#4CAF50",
-                              height: `${barHeight}%`,
-                              minHeight: bin.count > 0 ? "2px" : "0px",
-                              position: "relative",
-                              display: "flex",
-                              alignItems: "flex-start",
-                              justifyContent: "center",
-                            }}
-                            title={`${bin.binStart.toFixed(1)}-${bin.binEnd.toFixed(1)} Hz: ${bin.count} samples`}
-                          >
-                            {bin.count > 0 && barHeight > 15 && (
-                              <span
-                                style={{
-                                  fontSize: "0.7em",
-                                  color: "white",
-                                  fontWeight: "bold",
-                                  textShadow: "1px 1px 1px rgba(0,0,0,0.7)",
-                                  paddingTop: "2px",
-                                  lineHeight: "1",
-                                }}
-                              >
-                                {bin.count}
-                              </span>
-                            )}
-                            {bin.count > 0 && barHeight <= 15 && (
-                              <span
-                                style={{
-                                  fontSize: "0.6em",
-                                  color: "#333",
-                                  position: "absolute",
-                                  top: "-15px",
-                                  fontWeight: "bold",
-                                }}
-                              >
-                                {bin.count}
-                              </span>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                    <div style={{ fontSize: "0.8em", marginTop: "0.25rem" }}>
-                      {stats.filteredFrequencies.length > 0 &&
-                        `${Math.min(...stats.filteredFrequencies).toFixed(1)} Hz - ${Math.max(...stats.filteredFrequencies).toFixed(1)} Hz`}
+                  {showTimeline && (
+                    <TimelineChart
+                      points={stats.timeline}
+                      resolution={stats.timelineResolution}
+                      contract={contract}
+                      playhead={playhead}
+                      startTime={startTime}
+                      onSeek={seekPlayback}
+                    />
+                  )}
+
+                  {stats.pattern != undefined && <PatternSummary pattern={stats.pattern} />}
+
+                  {stats.period != undefined && <PeriodTable period={stats.period} />}
+
+                  {stats.size != undefined && <SizeTable size={stats.size} />}
+
+                  {stats.gapCount > 0 && (
+                    <GapList
+                      gaps={stats.gaps}
+                      gapCount={stats.gapCount}
+                      startTime={startTime}
+                      onSeek={seekPlayback}
+                    />
+                  )}
+
+                  {anomalyCount(stats.anomalies) > 0 && (
+                    <AnomalyList
+                      anomalies={stats.anomalies}
+                      startTime={startTime}
+                      onSeek={seekPlayback}
+                    />
+                  )}
+
+                  {LATENCY_KINDS.some((kind) => stats.latency[kind] != undefined) && (
+                    <div style={{ marginBottom: "1rem" }}>
+                      <strong>Latency (ms)</strong>
+                      <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+                        <thead>
+                          <tr>
+                            <th style={{ textAlign: "left" }}>Measure</th>
+                            <th>Mean</th>
+                            <th>Median</th>
+                            <th>Min</th>
+                            <th>Max</th>
+                            <th>p90</th>
+                            <th>p95</th>
+                            <th>p99</th>
+                            <th>Samples</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {LATENCY_KINDS.map((kind) => {
+                            const latency = stats.latency[kind];
+                            if (!latency) {
+                              return undefined;
+                            }
+                            return (
+                              <tr key={kind}>
+                                <td style={{ textAlign: "left" }}>{LATENCY_LABELS[kind]}</td>
+                                <td>{formatMs(latency.mean)}</td>
+                                <td>{formatMs(latency.median)}</td>
+                                <td>{formatMs(latency.min)}</td>
+                                <td>{formatMs(latency.max)}</td>
+                                <td>{formatMs(latency.p90)}</td>
+                                <td>{formatMs(latency.p95)}</td>
+                                <td>{formatMs(latency.p99)}</td>
+                                <td>{latency.count}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
                     </div>
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
-        );
-      })}
+                  )}
+
+                  {showHistogram && histograms && histograms.frequency.length > 0 && (
+                    <FrequencyHistogram
+                      bins={histograms.frequency}
+                      unit={histogramUnit}
+                      highlightOutliers={highlightOutliers}
+                    />
+                  )}
+
+                  {showHistogram &&
+                    LATENCY_KINDS.map((kind) => {
+                      const bins = histograms?.latency[kind];
+                      return (
+                        bins && (
+                          <Histogram
+                            key={kind}
+                            title={`Latency Distribution (${LATENCY_LABELS[kind]})`}
+                            bins={bins}
+                            unit="ms"
+                            scale={1000}
+                            color="#2196F3"
+                          />
+                        )
+                      );
+                    })}
+                </div>
+              )}
+            </div>
+          );
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { ReactElement } from "react";
+
+import {
+  REPORT_FORMATS,
+  REPORT_FORMAT_LABELS,
+  REPORT_SECTIONS,
+  REPORT_SECTION_LABELS,
+  ReportFormat,
+  ReportSection,
+} from "./report";
+
+const BUTTON_STYLE = {
+  padding: "0.25rem 0.5rem",
+  fontSize: "0.8rem",
+  border: "1px solid #007acc",
+  backgroundColor: "#007acc",
+  color: "white",
+  borderRadius: "4px",
+  cursor: "pointer",
+} as const;
+
+const SECONDARY_BUTTON_STYLE = {
+  ...BUTTON_STYLE,
+  border: "1px solid #ccc",
+  backgroundColor: "#f5f5f5",
+  color: "#333",
+} as const;
+
+/** Picks the topics and metric groups to export, then the format to download them in. */
+export function ExportOptions({
+  topics,
+  excludedTopics,
+  sections,
+  onToggleTopic,
+  onSetAllTopics,
+  onToggleSection,
+  onExport,
+}: {
+  topics: readonly string[];
+  excludedTopics: ReadonlySet<string>;
+  sections: readonly ReportSection[];
+  onToggleTopic: (topic: string, included: boolean) => void;
+  onSetAllTopics: (included: boolean) => void;
+  onToggleSection: (section: ReportSection, included: boolean) => void;
+  onExport: (format: ReportFormat) => void;
+}): ReactElement {
+  const includedCount = topics.filter((topic) => !excludedTopics.has(topic)).length;
+
+  return (
+    <div
+      style={{
+        marginBottom: "1rem",
+        padding: "0.5rem 1rem",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        fontSize: "0.9em",
+      }}
+    >
+      <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+        <strong>Topics</strong>
+        <span style={{ color: "#666" }}>
+          {includedCount} of {topics.length}
+        </span>
+        <button
+          onClick={() => {
+            onSetAllTopics(true);
+          }}
+          style={SECONDARY_BUTTON_STYLE}
+        >
+          All
+        </button>
+        <button
+          onClick={() => {
+            onSetAllTopics(false);
+          }}
+          style={SECONDARY_BUTTON_STYLE}
+        >
+          None
+        </button>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.25rem 1rem",
+          maxHeight: "120px",
+          overflow: "auto",
+          margin: "0.25rem 0 0.5rem",
+        }}
+      >
+        {topics.map((topic) => (
+          <label key={topic} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <input
+              type="checkbox"
+              checked={!excludedTopics.has(topic)}
+              onChange={(e) => {
+                onToggleTopic(topic, e.target.checked);
+              }}
+            />
+            {topic}
+          </label>
+        ))}
+      </div>
+
+      <strong>Metrics</strong>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.25rem 1rem",
+          margin: "0.25rem 0 0.5rem",
+        }}
+      >
+        {REPORT_SECTIONS.map((section) => (
+          <label key={section} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <input
+              type="checkbox"
+              checked={sections.includes(section)}
+              onChange={(e) => {
+                onToggleSection(section, e.target.checked);
+              }}
+            />
+            {REPORT_SECTION_LABELS[section]}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+        {REPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            onClick={() => {
+              onExport(format);
+            }}
+            disabled={includedCount === 0}
+            style={{
+              ...BUTTON_STYLE,
+              backgroundColor: includedCount > 0 ? "#007acc" : "#ccc",
+              cursor: includedCount > 0 ? "pointer" : "not-allowed",
+            }}
+          >
+            {REPORT_FORMAT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { ReactElement } from "react";
+
+import { Histogram } from "./Histogram";
+import { HistogramUnit } from "./config";
+import { HistogramBin } from "./stats/histogram";
+
+/**
+ * Histogram of a topic's instantaneous frequencies, or of the matching periods when `unit` is
+ * "ms". `bins` were binned by the statistics worker with the same unit, and hold the outliers only
+ * when `highlightOutliers` is set.
+ */
+export function FrequencyHistogram({
+  bins,
+  unit,
+  highlightOutliers,
+}: {
+  bins: readonly HistogramBin[];
+  unit: HistogramUnit;
+  highlightOutliers: boolean;
+}): ReactElement {
+  const domain = unit === "ms" ? "Period" : "Frequency";
+  return (
+    <Histogram
+      title={
+        highlightOutliers
+          ? `${domain} Distribution (Outliers Highlighted)`
+          : `${domain} Distribution (Outliers Removed)`
+      }
+      bins={bins}
+      unit={unit === "ms" ? "ms" : "Hz"}
+      scale={unit === "ms" ? 1000 : 1}
+      highlightLabel="outliers"
+    />
+  );
+}
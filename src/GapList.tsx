@@ -0,0 +1,60 @@
+import { ReactElement } from "react";
+
+import { Gap } from "./stats/types";
+
+/** Table of detected gaps, newest first. Rows seek playback when `onSeek` is provided. */
+export function GapList({
+  gaps,
+  gapCount,
+  startTime,
+  onSeek,
+}: {
+  gaps: readonly Gap[];
+  gapCount: number;
+  /** Recording start in seconds; times are shown relative to it when known. */
+  startTime: number | undefined;
+  onSeek?: (time: number) => void;
+}): ReactElement {
+  const formatTime = (time: number) =>
+    startTime != undefined ? `+${(time - startTime).toFixed(3)} s` : `${time.toFixed(3)} s`;
+
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <strong>Gaps</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        {gapCount > gaps.length ? `(showing last ${gaps.length} of ${gapCount})` : `(${gapCount})`}
+        {onSeek && " — click a row to seek"}
+      </span>
+      <div style={{ maxHeight: "160px", overflow: "auto" }}>
+        <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left" }}>Start</th>
+              <th>Duration (ms)</th>
+              <th>Missed msgs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...gaps].reverse().map((gap) => (
+              <tr
+                key={gap.start}
+                onClick={
+                  onSeek &&
+                  (() => {
+                    onSeek(gap.receiveTime);
+                  })
+                }
+                style={{ cursor: onSeek ? "pointer" : "default" }}
+                title={onSeek ? "Seek playback to the start of this gap" : undefined}
+              >
+                <td style={{ textAlign: "left" }}>{formatTime(gap.start)}</td>
+                <td>{(gap.duration * 1000).toFixed(1)}</td>
+                <td>{gap.missedMessages}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
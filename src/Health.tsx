@@ -0,0 +1,65 @@
+import { ReactElement } from "react";
+
+import { HEALTH_STATUSES, HealthStatus } from "./contracts";
+
+const HEALTH_COLORS: Record<HealthStatus, string> = {
+  ok: "#2e7d32",
+  warn: "#ed6c02",
+  fail: "#d32f2f",
+};
+
+export function HealthBadge({
+  status,
+  title,
+}: {
+  status: HealthStatus;
+  title?: string;
+}): ReactElement {
+  return (
+    <span
+      title={title}
+      style={{
+        display: "inline-block",
+        minWidth: "3em",
+        padding: "0.1rem 0.4rem",
+        borderRadius: "4px",
+        backgroundColor: HEALTH_COLORS[status],
+        color: "white",
+        fontSize: "0.75em",
+        fontWeight: "bold",
+        textAlign: "center",
+      }}
+    >
+      {status.toUpperCase()}
+    </span>
+  );
+}
+
+/** One-line count of topics per health status. */
+export function HealthSummary({ statuses }: { statuses: readonly HealthStatus[] }): ReactElement {
+  const failing = statuses.filter((status) => status === "fail").length;
+  return (
+    <div
+      style={{
+        display: "flex",
+        gap: "1rem",
+        alignItems: "center",
+        padding: "0.5rem 1rem",
+        marginBottom: "1rem",
+        border: `1px solid ${failing > 0 ? HEALTH_COLORS.fail : "#ddd"}`,
+        borderRadius: "4px",
+      }}
+    >
+      <strong>Health:</strong>
+      {HEALTH_STATUSES.map((status) => (
+        <span key={status} style={{ display: "flex", gap: "0.4rem", alignItems: "center" }}>
+          <HealthBadge status={status} />
+          {statuses.filter((s) => s === status).length}
+        </span>
+      ))}
+      <span style={{ marginLeft: "auto", color: "#666", fontSize: "0.9em" }}>
+        {failing > 0 ? `${failing} failing` : "All contracts met or within warning range"}
+      </span>
+    </div>
+  );
+}
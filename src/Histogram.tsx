@@ -0,0 +1,108 @@
+import { ReactElement, useMemo } from "react";
+
+import { HistogramBin } from "./stats/histogram";
+
+export function Histogram({
+  title,
+  bins: unscaledBins,
+  unit,
+  scale = 1,
+  color = "#4CAF50",
+  highlightColor = "#E53935",
+  highlightLabel = "highlighted",
+}: {
+  title: string;
+  /** Highlighted values are drawn stacked on top of the rest of each bin in `highlightColor`. */
+  bins: readonly HistogramBin[];
+  unit: string;
+  /** Multiplier applied to bin edges for display, e.g. 1000 to show seconds as milliseconds. */
+  scale?: number;
+  color?: string;
+  highlightColor?: string;
+  /** Name of the highlighted series in bar tooltips. */
+  highlightLabel?: string;
+}): ReactElement {
+  const bins = useMemo(
+    () =>
+      unscaledBins.map((bin) => ({
+        ...bin,
+        binStart: bin.binStart * scale,
+        binEnd: bin.binEnd * scale,
+      })),
+    [unscaledBins, scale],
+  );
+  const maxCount = useMemo(() => Math.max(...bins.map((b) => b.count), 1), [bins]);
+
+  return (
+    <div>
+      <h4>{title}</h4>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "end",
+          height: "120px",
+          gap: "2px",
+          position: "relative",
+        }}
+      >
+        {bins.map((bin, index) => {
+          const barHeight = (bin.count / maxCount) * 100;
+          return (
+            <div
+              key={index}
+              style={{
+                flex: 1,
+                background:
+                  bin.highlightedCount > 0
+                    ? `linear-gradient(to bottom, ${highlightColor} ${(bin.highlightedCount / bin.count) * 100}%, ${color} 0)`
+                    : color,
+                height: `${barHeight}%`,
+                minHeight: bin.count > 0 ? "2px" : "0px",
+                position: "relative",
+                display: "flex",
+                alignItems: "flex-start",
+                justifyContent: "center",
+              }}
+              title={
+                `${bin.binStart.toFixed(1)}-${bin.binEnd.toFixed(1)} ${unit}: ${bin.count} samples` +
+                (bin.highlightedCount > 0 ? ` (${bin.highlightedCount} ${highlightLabel})` : "")
+              }
+            >
+              {bin.count > 0 && barHeight > 15 && (
+                <span
+                  style={{
+                    fontSize: "0.7em",
+                    color: "white",
+                    fontWeight: "bold",
+                    textShadow: "1px 1px 1px rgba(0,0,0,0.7)",
+                    paddingTop: "2px",
+                    lineHeight: "1",
+                  }}
+                >
+                  {bin.count}
+                </span>
+              )}
+              {bin.count > 0 && barHeight <= 15 && (
+                <span
+                  style={{
+                    fontSize: "0.6em",
+                    color: "#333",
+                    position: "absolute",
+                    top: "-15px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {bin.count}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ fontSize: "0.8em", marginTop: "0.25rem" }}>
+        {bins.length > 0 &&
+          `${bins[0]!.binStart.toFixed(1)} ${unit} - ${bins[bins.length - 1]!.binEnd.toFixed(1)} ${unit}`}
+      </div>
+    </div>
+  );
+}
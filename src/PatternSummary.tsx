@@ -0,0 +1,33 @@
+import { ReactElement } from "react";
+
+import { describeArrivalPattern } from "./stats/pattern";
+import { ArrivalPattern } from "./stats/types";
+
+/**
+ * Arrival pattern of a topic: its classification, the modes of the interval distribution, burst
+ * structure and dominant period.
+ */
+export function PatternSummary({ pattern }: { pattern: ArrivalPattern }): ReactElement {
+  const { bursts, modes } = pattern;
+  return (
+    <div style={{ marginBottom: "1rem", fontSize: "0.9em" }}>
+      <strong>Arrival pattern:</strong> {describeArrivalPattern(pattern)}
+      <div style={{ color: "#666" }}>
+        {modes.length > 1 &&
+          `Intervals cluster at ${modes
+            .map(
+              (mode) =>
+                `${(mode.interval * 1000).toFixed(2)} ms (${(mode.fraction * 100).toFixed(0)}%)`,
+            )
+            .join(", ")}. `}
+        {bursts != undefined &&
+          `${bursts.count} bursts of up to ${bursts.maxSize} messages, split at ${(bursts.threshold * 1000).toFixed(2)} ms. `}
+        {pattern.dominantPeriod != undefined
+          ? `Dominant period ${(pattern.dominantPeriod * 1000).toFixed(2)} ms (autocorrelation ${pattern.periodStrength.toFixed(1)}× random).`
+          : "No dominant period."}
+        {bursts != undefined &&
+          " Frequency statistics mix intra- and inter-burst intervals; the burst rates describe the topic better."}
+      </div>
+    </div>
+  );
+}
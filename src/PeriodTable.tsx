@@ -0,0 +1,43 @@
+import { ReactElement } from "react";
+
+import { PeriodStats } from "./stats/types";
+
+const PERIOD_COLUMNS: [string, keyof Omit<PeriodStats, "samples" | "count">][] = [
+  ["Mean", "mean"],
+  ["Median", "median"],
+  ["Std Dev", "stdDeviation"],
+  ["Min", "min"],
+  ["Max", "max"],
+  ["p90", "p90"],
+  ["p99", "p99"],
+  ["p99.9", "p999"],
+  ["Jitter (p-p)", "jitter"],
+];
+
+/** Period-domain view of a topic: percentiles and jitter of the intervals between messages. */
+export function PeriodTable({ period }: { period: PeriodStats }): ReactElement {
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <strong>Period (ms)</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        {period.count} intervals, CV {(period.coefficientOfVariation * 100).toFixed(2)}%
+      </span>
+      <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+        <thead>
+          <tr>
+            {PERIOD_COLUMNS.map(([label]) => (
+              <th key={label}>{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            {PERIOD_COLUMNS.map(([label, key]) => (
+              <td key={label}>{(period[key] * 1000).toFixed(3)}</td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { ReactElement } from "react";
+
+import { formatBandwidth, formatBytes } from "./format";
+import { SizeStats } from "./stats/types";
+
+const SIZE_COLUMNS: [string, "mean" | "median" | "min" | "max" | "p95" | "p99"][] = [
+  ["Mean", "mean"],
+  ["Median", "median"],
+  ["Min", "min"],
+  ["Max", "max"],
+  ["p95", "p95"],
+  ["p99", "p99"],
+];
+
+/** Message size distribution and bandwidth of a topic. */
+export function SizeTable({ size }: { size: SizeStats }): ReactElement {
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <strong>Message size</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        {formatBandwidth(size.bandwidth)} in window, {formatBandwidth(size.averageBandwidth)}{" "}
+        average, {formatBytes(size.totalBytes)} total
+      </span>
+      <table style={{ width: "100%", fontSize: "0.9em", textAlign: "right" }}>
+        <thead>
+          <tr>
+            {SIZE_COLUMNS.map(([label]) => (
+              <th key={label}>{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            {SIZE_COLUMNS.map(([label, key]) => (
+              <td key={label}>{formatBytes(size[key])}</td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
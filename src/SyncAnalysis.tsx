@@ -0,0 +1,134 @@
+import { ReactElement, useState } from "react";
+
+import { Histogram } from "./Histogram";
+import { SyncStats } from "./stats/sync";
+
+const ms = (seconds: number) => (seconds * 1000).toFixed(2);
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+/**
+ * Picks two or more of the analyzed topics and shows how well their messages line up: the
+ * nearest-neighbour offset of every pair, and how many message sets match within the slop.
+ * Clicking a pair shows its offset distribution.
+ */
+export function SyncAnalysis({
+  topics,
+  syncTopics,
+  sync,
+  onSyncTopicsChange,
+}: {
+  /** Topics that can be compared. */
+  topics: readonly string[];
+  syncTopics: readonly string[];
+  sync: SyncStats;
+  onSyncTopicsChange: (topics: string[]) => void;
+}): ReactElement {
+  const [pairIndex, setPairIndex] = useState(0);
+  const shownPair = sync.pairs[pairIndex] ?? sync.pairs[0];
+
+  return (
+    <div
+      style={{
+        marginBottom: "1rem",
+        padding: "0.5rem 1rem",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        fontSize: "0.9em",
+      }}
+    >
+      <strong>Synchronization</strong>{" "}
+      <span style={{ color: "#666" }}>slop {ms(sync.slop)} ms</span>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.25rem 1rem",
+          maxHeight: "120px",
+          overflow: "auto",
+          margin: "0.25rem 0 0.5rem",
+        }}
+      >
+        {topics.map((topic) => (
+          <label key={topic} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <input
+              type="checkbox"
+              checked={syncTopics.includes(topic)}
+              onChange={(e) => {
+                onSyncTopicsChange(
+                  e.target.checked
+                    ? [...syncTopics, topic]
+                    : syncTopics.filter((other) => other !== topic),
+                );
+              }}
+            />
+            {topic}
+          </label>
+        ))}
+      </div>
+      {syncTopics.length < 2 ? (
+        <span style={{ color: "#666" }}>Pick two or more topics to compare.</span>
+      ) : sync.overlap == undefined ? (
+        <span style={{ color: "#666" }}>
+          The picked topics have no messages in a common time span yet.
+        </span>
+      ) : (
+        <>
+          <div style={{ marginBottom: "0.5rem" }}>
+            <strong>{percent(sync.matchedFraction)}</strong> of {sync.setCount} message sets match
+            within the slop (one set per message of {sync.pivotTopic}, over{" "}
+            {(sync.overlap.end - sync.overlap.start).toFixed(1)} s)
+          </div>
+          <table style={{ width: "100%", textAlign: "right" }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: "left" }}>Pair</th>
+                <th>Mean offset (ms)</th>
+                <th>Mean skew (ms)</th>
+                <th>p95 skew (ms)</th>
+                <th>Max skew (ms)</th>
+                <th>Matched</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sync.pairs.map((pair, index) => (
+                <tr
+                  key={pair.topics.join("\n")}
+                  onClick={() => {
+                    setPairIndex(index);
+                  }}
+                  style={{
+                    cursor: "pointer",
+                    backgroundColor: pair === shownPair ? "#e3f2fd" : undefined,
+                    color: pair.matchedFraction < 1 ? "#b26a00" : undefined,
+                  }}
+                  title="Show this pair's offset distribution"
+                >
+                  <td style={{ textAlign: "left" }}>
+                    {pair.topics[0]} ↔ {pair.topics[1]}
+                  </td>
+                  <td>{ms(pair.meanOffset)}</td>
+                  <td>{ms(pair.skew.mean)}</td>
+                  <td>{ms(pair.skew.p95)}</td>
+                  <td>{ms(pair.skew.max)}</td>
+                  <td>{percent(pair.matchedFraction)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {shownPair && (
+            <div style={{ marginTop: "0.5rem" }}>
+              <Histogram
+                title={`Offset ${shownPair.topics[1]} − ${shownPair.topics[0]}`}
+                bins={shownPair.offsetHistogram}
+                unit="ms"
+                scale={1000}
+                color="#007acc"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { MouseEvent, ReactElement, useCallback, useMemo } from "react";
+
+import { RateContract } from "./contracts";
+import { TimelinePoint } from "./stats/types";
+
+const WIDTH = 1000;
+const HEIGHT = 160;
+
+/**
+ * Frequency of a topic over recording time. The band between the contract's tolerance limits is
+ * shaded and the playhead is drawn as a vertical line. Clicking seeks to the nearest bucket when
+ * `onSeek` is provided.
+ */
+export function TimelineChart({
+  points,
+  resolution,
+  contract,
+  playhead,
+  startTime,
+  onSeek,
+}: {
+  points: readonly TimelinePoint[];
+  /** Bucket width in seconds; points are drawn at the bucket centers. */
+  resolution: number;
+  contract?: RateContract;
+  /** Current playback time in seconds. */
+  playhead?: number;
+  /** Recording start in seconds; times are labelled relative to it when known. */
+  startTime?: number;
+  onSeek?: (time: number) => void;
+}): ReactElement {
+  const layout = useMemo(() => {
+    if (points.length === 0) {
+      return undefined;
+    }
+    let minTime = points[0]!.time;
+    let maxTime = points[points.length - 1]!.time + resolution;
+    if (playhead != undefined) {
+      minTime = Math.min(minTime, playhead);
+      maxTime = Math.max(maxTime, playhead);
+    }
+    let maxFrequency = 0;
+    for (const point of points) {
+      maxFrequency = Math.max(maxFrequency, point.frequency);
+    }
+    if (contract) {
+      maxFrequency = Math.max(maxFrequency, contract.rate * (1 + contract.tolerancePercent / 100));
+    }
+    maxFrequency = maxFrequency > 0 ? maxFrequency * 1.1 : 1;
+    const span = Math.max(maxTime - minTime, resolution);
+
+    const x = (time: number) => ((time - minTime) / span) * WIDTH;
+    const y = (frequency: number) => HEIGHT - (frequency / maxFrequency) * HEIGHT;
+    const path = points
+      .map(
+        (point) => `${x(point.time + resolution / 2).toFixed(1)},${y(point.frequency).toFixed(1)}`,
+      )
+      .join(" ");
+    return { minTime, span, maxFrequency, x, y, path };
+  }, [points, resolution, contract, playhead]);
+
+  const handleClick = useCallback(
+    (event: MouseEvent<SVGSVGElement>) => {
+      if (!onSeek || !layout) {
+        return;
+      }
+      const rect = event.currentTarget.getBoundingClientRect();
+      const clicked = layout.minTime + ((event.clientX - rect.left) / rect.width) * layout.span;
+      let nearest = points[0]!;
+      for (const point of points) {
+        if (Math.abs(point.time - clicked) < Math.abs(nearest.time - clicked)) {
+          nearest = point;
+        }
+      }
+      onSeek(nearest.receiveTime);
+    },
+    [onSeek, layout, points],
+  );
+
+  if (!layout) {
+    return (
+      <div style={{ marginBottom: "1rem", color: "#666", fontSize: "0.9em" }}>
+        <strong style={{ color: "inherit" }}>Frequency over time</strong> — waiting for the first
+        complete {resolution} s bucket
+      </div>
+    );
+  }
+
+  const formatTime = (time: number) =>
+    startTime != undefined ? `+${(time - startTime).toFixed(1)} s` : `${time.toFixed(1)} s`;
+  const bandTop = contract ? contract.rate * (1 + contract.tolerancePercent / 100) : undefined;
+  const bandBottom = contract ? contract.rate * (1 - contract.tolerancePercent / 100) : undefined;
+
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <strong>Frequency over time</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.9em" }}>
+        ({resolution} s buckets{onSeek && ", click to seek"})
+      </span>
+      <div style={{ display: "flex", gap: "0.25rem", fontSize: "0.7em", color: "#666" }}>
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            textAlign: "right",
+          }}
+        >
+          <span>{layout.maxFrequency.toFixed(1)} Hz</span>
+          <span>0 Hz</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          style={{
+            flex: 1,
+            height: "120px",
+            border: "1px solid #ddd",
+            cursor: onSeek ? "pointer" : "default",
+          }}
+          onClick={handleClick}
+        >
+          {bandTop != undefined && bandBottom != undefined && (
+            <rect
+              x={0}
+              width={WIDTH}
+              y={layout.y(bandTop)}
+              height={layout.y(Math.max(0, bandBottom)) - layout.y(bandTop)}
+              fill="#4CAF50"
+              fillOpacity={0.15}
+            />
+          )}
+          {contract && (
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={layout.y(contract.rate)}
+              y2={layout.y(contract.rate)}
+              stroke="#4CAF50"
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          <polyline
+            points={layout.path}
+            fill="none"
+            stroke="#007acc"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+          {playhead != undefined && (
+            <line
+              x1={layout.x(playhead)}
+              x2={layout.x(playhead)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#d32f2f"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: "0.7em",
+          color: "#666",
+        }}
+      >
+        <span>{formatTime(layout.minTime)}</span>
+        <span>{formatTime(layout.minTime + layout.span)}</span>
+      </div>
+    </div>
+  );
+}
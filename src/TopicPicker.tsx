@@ -0,0 +1,365 @@
+import { Immutable, Topic } from "@foxglove/extension";
+import { ReactElement, useMemo, useState } from "react";
+
+import { formatBandwidth } from "./format";
+import { FrequencyStats } from "./stats/types";
+import {
+  NamespaceNode,
+  TopicPatternTarget,
+  buildNamespaceTree,
+  matchesTopicPatterns,
+  matchesTopicSearch,
+  namespaceTopics,
+  topicPatternError,
+} from "./topicFilter";
+
+const BUTTON_STYLE = {
+  padding: "0.25rem 0.5rem",
+  fontSize: "0.8rem",
+  border: "1px solid #ccc",
+  backgroundColor: "#f5f5f5",
+  color: "#333",
+  borderRadius: "4px",
+  cursor: "pointer",
+} as const;
+
+const PRIMARY_BUTTON_STYLE = {
+  ...BUTTON_STYLE,
+  border: "1px solid #007acc",
+  backgroundColor: "#007acc",
+  color: "white",
+} as const;
+
+interface TreeContext {
+  selected: ReadonlySet<string>;
+  schemas: ReadonlyMap<string, string>;
+  stats: ReadonlyMap<string, FrequencyStats>;
+  patterns: readonly string[];
+  /** Expanded state is ignored while filtering so every match is visible. */
+  filtering: boolean;
+  /** Namespaces start collapsed so a recording with thousands of topics renders only its groups. */
+  expanded: ReadonlySet<string>;
+  onToggleExpanded: (path: string) => void;
+  onSetSelected: (topics: TopicPatternTarget[], selected: boolean) => void;
+}
+
+function targets(names: readonly string[], schemas: ReadonlyMap<string, string>) {
+  return names.map((name) => ({ name, schemaName: schemas.get(name) }));
+}
+
+function TopicRow({ topic, tree }: { topic: string; tree: TreeContext }): ReactElement {
+  const schemaName = tree.schemas.get(topic);
+  const stats = tree.stats.get(topic);
+  const byPattern = matchesTopicPatterns(tree.patterns, { name: topic, schemaName });
+  return (
+    <label style={{ display: "flex", alignItems: "baseline", gap: "0.5rem", padding: "1px 0" }}>
+      <input
+        type="checkbox"
+        checked={tree.selected.has(topic)}
+        onChange={(e) => {
+          tree.onSetSelected(targets([topic], tree.schemas), e.target.checked);
+        }}
+      />
+      <span title={topic}>{topic.slice(topic.lastIndexOf("/") + 1) || topic}</span>
+      <span style={{ color: "#888", fontSize: "0.85em" }}>{schemaName}</span>
+      {byPattern && (
+        <span style={{ color: "#007acc", fontSize: "0.8em" }} title="Selected by a pattern">
+          pattern
+        </span>
+      )}
+      {stats && stats.messageCount >= 2 && (
+        <span style={{ marginLeft: "auto", color: "#666", fontSize: "0.85em" }}>
+          {stats.averageFrequency.toFixed(2)} Hz
+        </span>
+      )}
+    </label>
+  );
+}
+
+function NamespaceGroup({ node, tree }: { node: NamespaceNode; tree: TreeContext }): ReactElement {
+  const topics = namespaceTopics(node);
+  const selectedCount = topics.filter((topic) => tree.selected.has(topic)).length;
+  let totalRate = 0;
+  let totalBandwidth = 0;
+  for (const topic of topics) {
+    const stats = tree.selected.has(topic) ? tree.stats.get(topic) : undefined;
+    totalRate += stats?.averageFrequency ?? 0;
+    totalBandwidth += stats?.size?.bandwidth ?? 0;
+  }
+  const expanded = tree.filtering || tree.expanded.has(node.path);
+
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "center", gap: "0.4rem", padding: "1px 0" }}>
+        <button
+          onClick={() => {
+            tree.onToggleExpanded(node.path);
+          }}
+          style={{
+            border: "none",
+            background: "none",
+            cursor: "pointer",
+            padding: 0,
+            width: "1em",
+          }}
+        >
+          {expanded ? "▾" : "▸"}
+        </button>
+        <input
+          type="checkbox"
+          checked={selectedCount === topics.length}
+          ref={(element) => {
+            if (element) {
+              element.indeterminate = selectedCount > 0 && selectedCount < topics.length;
+            }
+          }}
+          onChange={(e) => {
+            tree.onSetSelected(targets(topics, tree.schemas), e.target.checked);
+          }}
+        />
+        <strong>{node.path}</strong>
+        <span style={{ marginLeft: "auto", color: "#666", fontSize: "0.85em" }}>
+          {[
+            `${selectedCount}/${topics.length} selected`,
+            selectedCount > 0 && `Σ ${totalRate.toFixed(1)} Hz`,
+            totalBandwidth > 0 && formatBandwidth(totalBandwidth),
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </span>
+      </div>
+      {expanded && (
+        <div style={{ paddingLeft: "1.25rem" }}>
+          <NamespaceContents node={node} tree={tree} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NamespaceContents({ node, tree }: { node: NamespaceNode; tree: TreeContext }) {
+  return (
+    <>
+      {node.children.map((child) => (
+        <NamespaceGroup key={child.path} node={child} tree={tree} />
+      ))}
+      {node.topics.map((topic) => (
+        <TopicRow key={topic} topic={topic} tree={tree} />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Topic selection grouped by ROS namespace, collapsed until opened. A search box and schema filter
+ * narrow the list and open every group, and saved patterns select matching topics including ones
+ * advertised later.
+ */
+export function TopicPicker({
+  topics,
+  selected,
+  patterns,
+  stats,
+  onSetSelected,
+  onSelectAll,
+  onDeselectAll,
+  onPatternsChange,
+}: {
+  topics: Immutable<Topic[]> | undefined;
+  selected: ReadonlySet<string>;
+  patterns: readonly string[];
+  stats: ReadonlyMap<string, FrequencyStats>;
+  onSetSelected: (topics: TopicPatternTarget[], selected: boolean) => void;
+  onSelectAll: () => void;
+  onDeselectAll: () => void;
+  onPatternsChange: (patterns: string[]) => void;
+}): ReactElement {
+  const [search, setSearch] = useState("");
+  const [schemaFilter, setSchemaFilter] = useState("");
+  const [expanded, setExpanded] = useState<ReadonlySet<string>>(() => new Set());
+  const [patternInput, setPatternInput] = useState("");
+  const [patternError, setPatternError] = useState<string | undefined>();
+
+  const schemas = useMemo(
+    () => new Map((topics ?? []).map((topic) => [topic.name, topic.schemaName])),
+    [topics],
+  );
+  const schemaNames = useMemo(() => [...new Set(schemas.values())].sort(), [schemas]);
+  const visibleTopics = useMemo(
+    () =>
+      (topics ?? [])
+        .filter((topic) => schemaFilter === "" || topic.schemaName === schemaFilter)
+        .filter((topic) => matchesTopicSearch(search, topic))
+        .map((topic) => topic.name),
+    [topics, search, schemaFilter],
+  );
+  const tree = useMemo(() => buildNamespaceTree(visibleTopics), [visibleTopics]);
+  const filtering = search.trim() !== "" || schemaFilter !== "";
+
+  const addPattern = () => {
+    const pattern = patternInput.trim();
+    const error = topicPatternError(pattern);
+    if (error != undefined) {
+      setPatternError(error);
+      return;
+    }
+    if (!patterns.includes(pattern)) {
+      onPatternsChange([...patterns, pattern]);
+    }
+    setPatternInput("");
+    setPatternError(undefined);
+  };
+
+  const treeContext: TreeContext = {
+    selected,
+    schemas,
+    stats,
+    patterns,
+    filtering,
+    expanded,
+    onToggleExpanded: (path) => {
+      setExpanded((prev) => {
+        const next = new Set(prev);
+        if (!next.delete(path)) {
+          next.add(path);
+        }
+        return next;
+      });
+    },
+    onSetSelected,
+  };
+
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "0.5rem",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <h3 style={{ margin: 0 }}>Select Topics:</h3>
+        <button onClick={onSelectAll} style={PRIMARY_BUTTON_STYLE} title="Also selects new topics">
+          Select All
+        </button>
+        <button onClick={onDeselectAll} style={BUTTON_STYLE}>
+          Deselect All
+        </button>
+        <input
+          type="search"
+          value={search}
+          placeholder="Search topics"
+          onChange={(e) => {
+            setSearch(e.target.value);
+          }}
+          style={{ flex: 1, minWidth: "8rem" }}
+        />
+        <select
+          value={schemaFilter}
+          onChange={(e) => {
+            setSchemaFilter(e.target.value);
+          }}
+        >
+          <option value="">All schemas</option>
+          {schemaNames.map((schemaName) => (
+            <option key={schemaName} value={schemaName}>
+              {schemaName}
+            </option>
+          ))}
+        </select>
+        {filtering && (
+          <>
+            <button
+              onClick={() => {
+                onSetSelected(targets(visibleTopics, schemas), true);
+              }}
+              style={BUTTON_STYLE}
+            >
+              Select {visibleTopics.length} matching
+            </button>
+            <button
+              onClick={() => {
+                onSetSelected(targets(visibleTopics, schemas), false);
+              }}
+              style={BUTTON_STYLE}
+            >
+              Deselect matching
+            </button>
+          </>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "0.4rem",
+          marginBottom: "0.5rem",
+          fontSize: "0.9em",
+        }}
+      >
+        Patterns:
+        {patterns.map((pattern) => (
+          <span
+            key={pattern}
+            style={{
+              padding: "0.1rem 0.4rem",
+              borderRadius: "4px",
+              backgroundColor: pattern.startsWith("!") ? "#fdecea" : "#e3f2fd",
+              fontFamily: "monospace",
+            }}
+          >
+            {pattern}{" "}
+            <button
+              onClick={() => {
+                onPatternsChange(patterns.filter((p) => p !== pattern));
+              }}
+              style={{ border: "none", background: "none", cursor: "pointer", padding: 0 }}
+              title="Remove pattern"
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={patternInput}
+          placeholder="/sensors/**, !image/compressed, re:…, schema:…"
+          onChange={(e) => {
+            setPatternInput(e.target.value);
+            setPatternError(undefined);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              addPattern();
+            }
+          }}
+          style={{ minWidth: "16rem", fontFamily: "monospace" }}
+        />
+        <button onClick={addPattern} disabled={patternInput.trim() === ""} style={BUTTON_STYLE}>
+          Add
+        </button>
+        {patternError != undefined && <span style={{ color: "#d32f2f" }}>{patternError}</span>}
+      </div>
+
+      <div
+        style={{
+          maxHeight: "300px",
+          overflow: "auto",
+          border: "1px solid #ccc",
+          padding: "0.5rem",
+          fontSize: "0.9em",
+        }}
+      >
+        {visibleTopics.length === 0 ? (
+          <span style={{ color: "#666" }}>No topics match</span>
+        ) : (
+          <NamespaceContents node={tree} tree={treeContext} />
+        )}
+      </div>
+    </div>
+  );
+}
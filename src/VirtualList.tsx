@@ -0,0 +1,158 @@
+import {
+  ReactElement,
+  ReactNode,
+  RefObject,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+
+/** Rows rendered above and below the visible ones so fast scrolling doesn't show blank space. */
+const OVERSCAN_PX = 400;
+
+function MeasuredRow({
+  rowKey,
+  observer,
+  children,
+}: {
+  rowKey: string;
+  observer: ResizeObserver;
+  children: ReactNode;
+}): ReactElement {
+  const ref = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+    observer.observe(element);
+    return () => {
+      observer.unobserve(element);
+    };
+  }, [observer]);
+  // flow-root keeps the row's margins inside the measured height.
+  return (
+    <div ref={ref} data-key={rowKey} style={{ display: "flow-root" }}>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Renders only the rows of `items` that are scrolled into view inside `scrollRef`, with spacers
+ * standing in for the rest. Rows may have any height: each rendered row is measured and unmeasured
+ * ones are assumed to be `estimatedHeight` tall.
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  estimatedHeight,
+  scrollRef,
+  renderItem,
+  onVisibleChange,
+}: {
+  items: readonly T[];
+  getKey: (item: T) => string;
+  estimatedHeight: number;
+  /** The scrolling ancestor of the list. */
+  scrollRef: RefObject<HTMLElement>;
+  renderItem: (item: T) => ReactNode;
+  /** Called with the keys of the rendered rows whenever they change. */
+  onVisibleChange?: (keys: ReadonlySet<string>) => void;
+}): ReactElement {
+  const listRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+  // Bumped when a row's measured height changes so offsets are recomputed.
+  const [, setMeasureVersion] = useState(0);
+
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    const list = listRef.current;
+    if (!scrollElement || !list) {
+      return;
+    }
+    const update = () => {
+      const listTop =
+        list.getBoundingClientRect().top -
+        scrollElement.getBoundingClientRect().top +
+        scrollElement.scrollTop;
+      const top = scrollElement.scrollTop - listTop;
+      setViewport({ top, bottom: top + scrollElement.clientHeight });
+    };
+    update();
+    scrollElement.addEventListener("scroll", update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scrollElement);
+    return () => {
+      scrollElement.removeEventListener("scroll", update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  const [rowObserver] = useState(
+    () =>
+      new ResizeObserver((entries) => {
+        let changed = false;
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const key = element.dataset.key;
+          if (key != undefined && heights.current.get(key) !== element.offsetHeight) {
+            heights.current.set(key, element.offsetHeight);
+            changed = true;
+          }
+        }
+        if (changed) {
+          setMeasureVersion((version) => version + 1);
+        }
+      }),
+  );
+  useEffect(() => {
+    return () => {
+      rowObserver.disconnect();
+    };
+  }, [rowObserver]);
+
+  let offset = 0;
+  let first = items.length;
+  let last = -1;
+  let topSpace = 0;
+  for (const [index, item] of items.entries()) {
+    const height = heights.current.get(getKey(item)) ?? estimatedHeight;
+    if (offset + height >= viewport.top - OVERSCAN_PX && offset <= viewport.bottom + OVERSCAN_PX) {
+      if (first > index) {
+        first = index;
+        topSpace = offset;
+      }
+      last = index;
+    }
+    offset += height;
+  }
+  const visible = last >= first ? items.slice(first, last + 1) : [];
+  let renderedHeight = 0;
+  for (const item of visible) {
+    renderedHeight += heights.current.get(getKey(item)) ?? estimatedHeight;
+  }
+  const bottomSpace = Math.max(0, offset - topSpace - renderedHeight);
+
+  const visibleKeys = visible.map(getKey).join("\n");
+  useEffect(() => {
+    onVisibleChange?.(new Set(visibleKeys === "" ? [] : visibleKeys.split("\n")));
+  }, [visibleKeys, onVisibleChange]);
+
+  return (
+    <div ref={listRef}>
+      <div style={{ height: topSpace }} />
+      {visible.map((item) => {
+        const key = getKey(item);
+        return (
+          <MeasuredRow key={key} rowKey={key} observer={rowObserver}>
+            {renderItem(item)}
+          </MeasuredRow>
+        );
+      })}
+      <div style={{ height: bottomSpace }} />
+    </div>
+  );
+}
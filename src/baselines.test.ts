@@ -0,0 +1,83 @@
+import {
+  Baseline,
+  baselineFromStats,
+  compareToBaseline,
+  parseBaseline,
+  serializeBaselineJson,
+} from "./baselines";
+import { emptyStats } from "./stats/TopicStream";
+import { FrequencyStats } from "./stats/types";
+
+function stats(topic: string, averageFrequency: number, jitter?: number): FrequencyStats {
+  const base = emptyStats(topic, 100);
+  return {
+    ...base,
+    averageFrequency,
+    period:
+      jitter != undefined
+        ? {
+            count: 99,
+            mean: 1 / averageFrequency,
+            median: 1 / averageFrequency,
+            stdDeviation: 0,
+            min: 0,
+            max: jitter,
+            p90: 0,
+            p99: 0,
+            p999: 0,
+            jitter,
+            coefficientOfVariation: 0,
+            samples: [],
+          }
+        : undefined,
+  };
+}
+
+const BASELINE: Baseline = baselineFromStats(
+  "run 1",
+  [stats("/a", 10, 0.01), stats("/b", 20), stats("/gone", 5)],
+  new Date(0),
+);
+
+describe("compareToBaseline", () => {
+  it("flags rate changes beyond the threshold in either direction", () => {
+    const within = compareToBaseline(BASELINE, [stats("/a", 10.9, 0.01)], 10);
+    expect(within.rows[0]?.regressions).toEqual([]);
+    const faster = compareToBaseline(BASELINE, [stats("/a", 11.5, 0.01)], 10);
+    expect(faster.rows[0]?.regressions).toEqual(["rate +15.0%"]);
+    const slower = compareToBaseline(BASELINE, [stats("/a", 8, 0.01)], 10);
+    expect(slower.rows[0]?.regressions).toEqual(["rate -20.0%"]);
+  });
+
+  it("flags growing jitter and new gaps", () => {
+    const current = { ...stats("/a", 10, 0.02), gapCount: 3 };
+    const [row] = compareToBaseline(BASELINE, [current], 10).rows;
+    expect(row?.deltaJitter).toBeCloseTo(0.01);
+    expect(row?.regressions).toEqual(["jitter +100.0%", "3 new gaps"]);
+  });
+
+  it("lists new and missing topics", () => {
+    const comparison = compareToBaseline(
+      BASELINE,
+      [stats("/a", 10), stats("/new", 1), emptyStats("/b", 0)],
+      10,
+    );
+    expect(comparison.rows.map((row) => row.topic)).toEqual(["/a"]);
+    expect(comparison.newTopics).toEqual(["/new"]);
+    expect(comparison.missingTopics).toEqual(["/b", "/gone"]);
+  });
+});
+
+describe("baseline files", () => {
+  it("round-trips through JSON", () => {
+    expect(parseBaseline(JSON.parse(serializeBaselineJson(BASELINE)))).toEqual(BASELINE);
+  });
+
+  it("rejects malformed baselines", () => {
+    expect(() => parseBaseline({ version: 2, name: "x", topics: {} })).toThrow(/version 2/);
+    expect(() => parseBaseline({ topics: {} })).toThrow(/name/);
+    expect(() => parseBaseline({ name: "x", topics: { "/a": { averageFrequency: 1 } } })).toThrow(
+      /numeric "medianFrequency"/,
+    );
+  });
+});
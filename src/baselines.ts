@@ -0,0 +1,200 @@
+import { isRecord, readOptionalNumber } from "./stateReaders";
+import { FrequencyStats } from "./stats/types";
+
+/** The numbers kept per topic when a baseline is saved. */
+export interface BaselineTopic {
+  averageFrequency: number;
+  medianFrequency: number;
+  stdDeviation: number;
+  messageCount: number;
+  outlierCount: number;
+  gapCount: number;
+  /** Period jitter in seconds. */
+  jitter?: number;
+  /** 99th percentile period in seconds. */
+  p99Period?: number;
+  /** Bytes per second. */
+  bandwidth?: number;
+}
+
+/** Statistics of one run, saved to compare later runs against. */
+export interface Baseline {
+  name: string;
+  /** ISO 8601 time the baseline was saved. */
+  createdAt: string;
+  topics: Record<string, BaselineTopic>;
+}
+
+export const BASELINE_FILE_VERSION = 1;
+
+export function baselineFromStats(
+  name: string,
+  allStats: readonly FrequencyStats[],
+  createdAt = new Date(),
+): Baseline {
+  const topics: Record<string, BaselineTopic> = {};
+  for (const stats of allStats) {
+    topics[stats.topic] = {
+      averageFrequency: stats.averageFrequency,
+      medianFrequency: stats.medianFrequency,
+      stdDeviation: stats.stdDeviation,
+      messageCount: stats.messageCount,
+      outlierCount: stats.outlierCount,
+      gapCount: stats.gapCount,
+      jitter: stats.period?.jitter,
+      p99Period: stats.period?.p99,
+      bandwidth: stats.size?.bandwidth,
+    };
+  }
+  return { name, createdAt: createdAt.toISOString(), topics };
+}
+
+export function serializeBaselineJson(baseline: Baseline): string {
+  return JSON.stringify({ version: BASELINE_FILE_VERSION, ...baseline }, undefined, 2) + "\n";
+}
+
+function readBaselineTopic(topic: string, value: unknown): BaselineTopic {
+  if (!isRecord(value)) {
+    throw new Error(`Baseline entry for ${topic} must be an object`);
+  }
+  const required = (key: keyof BaselineTopic) => {
+    const number = readOptionalNumber(value[key]);
+    if (number == undefined) {
+      throw new Error(`Baseline entry for ${topic} needs a numeric "${key}"`);
+    }
+    return number;
+  };
+  return {
+    averageFrequency: required("averageFrequency"),
+    medianFrequency: required("medianFrequency"),
+    stdDeviation: required("stdDeviation"),
+    messageCount: required("messageCount"),
+    outlierCount: required("outlierCount"),
+    gapCount: required("gapCount"),
+    jitter: readOptionalNumber(value.jitter),
+    p99Period: readOptionalNumber(value.p99Period),
+    bandwidth: readOptionalNumber(value.bandwidth),
+  };
+}
+
+/** Reads a baseline saved by `serializeBaselineJson`, or one stored in panel state. */
+export function parseBaseline(value: unknown): Baseline {
+  if (!isRecord(value)) {
+    throw new Error("Baseline must be an object");
+  }
+  const { version, name, createdAt, topics } = value;
+  if (version != undefined && version !== BASELINE_FILE_VERSION) {
+    throw new Error(`Unsupported baseline file version ${JSON.stringify(version)}`);
+  }
+  if (typeof name !== "string" || name === "") {
+    throw new Error('Baseline is missing a "name"');
+  }
+  if (!isRecord(topics)) {
+    throw new Error('Baseline is missing a "topics" map');
+  }
+  return {
+    name,
+    createdAt: typeof createdAt === "string" ? createdAt : new Date(0).toISOString(),
+    topics: Object.fromEntries(
+      Object.entries(topics).map(([topic, entry]) => [topic, readBaselineTopic(topic, entry)]),
+    ),
+  };
+}
+
+export interface BaselineDiff {
+  topic: string;
+  baseline: BaselineTopic;
+  current: FrequencyStats;
+  deltaHz: number;
+  /** Change of the average rate relative to the baseline, in percent. */
+  deltaHzPercent: number;
+  /** Change of the period jitter in seconds, when both runs have one. */
+  deltaJitter?: number;
+  deltaJitterPercent?: number;
+  deltaGaps: number;
+  /** Why this topic counts as a regression; empty when it doesn't. */
+  regressions: string[];
+}
+
+export interface BaselineComparison {
+  rows: BaselineDiff[];
+  /** Topics analyzed now that the baseline doesn't have. */
+  newTopics: string[];
+  /** Baseline topics without current data. */
+  missingTopics: string[];
+}
+
+function percentChange(current: number, baseline: number): number {
+  if (baseline === 0) {
+    return current === 0 ? 0 : Infinity;
+  }
+  return ((current - baseline) / baseline) * 100;
+}
+
+/**
+ * Compares current statistics with a baseline. A topic regresses when its average rate moved by
+ * more than `thresholdPercent` in either direction, its jitter grew by more than that, or it has
+ * gaps the baseline didn't.
+ */
+export function compareToBaseline(
+  baseline: Baseline,
+  allStats: readonly FrequencyStats[],
+  thresholdPercent: number,
+): BaselineComparison {
+  const rows: BaselineDiff[] = [];
+  const newTopics: string[] = [];
+  const seen = new Set<string>();
+
+  for (const current of allStats) {
+    const previous = baseline.topics[current.topic];
+    if (!previous) {
+      newTopics.push(current.topic);
+      continue;
+    }
+    // Topics that received nothing this run are reported as missing rather than as a -100% row.
+    if (current.messageCount === 0) {
+      continue;
+    }
+    seen.add(current.topic);
+
+    const deltaHzPercent = percentChange(current.averageFrequency, previous.averageFrequency);
+    const currentJitter = current.period?.jitter;
+    const deltaJitter =
+      currentJitter != undefined && previous.jitter != undefined
+        ? currentJitter - previous.jitter
+        : undefined;
+    const deltaJitterPercent =
+      currentJitter != undefined && previous.jitter != undefined
+        ? percentChange(currentJitter, previous.jitter)
+        : undefined;
+    const deltaGaps = current.gapCount - previous.gapCount;
+
+    const regressions: string[] = [];
+    if (Math.abs(deltaHzPercent) > thresholdPercent) {
+      regressions.push(`rate ${deltaHzPercent > 0 ? "+" : ""}${deltaHzPercent.toFixed(1)}%`);
+    }
+    if (deltaJitterPercent != undefined && deltaJitterPercent > thresholdPercent) {
+      regressions.push(`jitter +${deltaJitterPercent.toFixed(1)}%`);
+    }
+    if (previous.gapCount === 0 && current.gapCount > 0) {
+      regressions.push(`${current.gapCount} new gaps`);
+    }
+
+    rows.push({
+      topic: current.topic,
+      baseline: previous,
+      current,
+      deltaHz: current.averageFrequency - previous.averageFrequency,
+      deltaHzPercent,
+      deltaJitter,
+      deltaJitterPercent,
+      deltaGaps,
+      regressions,
+    });
+  }
+
+  const missingTopics = Object.keys(baseline.topics)
+    .filter((topic) => !seen.has(topic))
+    .sort((a, b) => a.localeCompare(b));
+  return { rows, newTopics, missingTopics };
+}
@@ -0,0 +1,85 @@
+import { CONFIG_VERSION, DEFAULT_CONFIG, migrateConfig } from "./config";
+import { REPORT_SECTIONS } from "./report";
+
+describe("migrateConfig", () => {
+  it("returns the defaults without saved state", () => {
+    expect(migrateConfig(undefined)).toEqual(DEFAULT_CONFIG);
+    expect(migrateConfig("broken")).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("keeps a current config as it is", () => {
+    const config = { ...DEFAULT_CONFIG, selectedTopics: ["/a"], sortBy: "frequency" as const };
+    expect(migrateConfig(config)).toEqual(config);
+  });
+
+  it("upgrades unversioned state with the behavior it was saved with", () => {
+    const config = migrateConfig({ selectedTopics: ["/a"], outlierThreshold: 3 });
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(config.selectedTopics).toEqual(["/a"]);
+    expect(config.outlierThreshold).toBe(3);
+    // Version 1 layouts were made with the inline controls.
+    expect(config.showInlineControls).toBe(true);
+    expect(config.showTopicPicker).toBe(true);
+    expect(config.windowMode).toBe("count");
+    expect(config.windowSize).toBe(1000);
+    expect(config.exportSections).toEqual(REPORT_SECTIONS);
+  });
+
+  it("reads settings a saved version didn't have as their defaults", () => {
+    const config = migrateConfig({ version: 1, selectedTopics: ["/a"] });
+    expect(config.showInlineControls).toBe(true);
+    expect(config.syncSlop).toBe(DEFAULT_CONFIG.syncSlop);
+    expect(config.staleMode).toBe(DEFAULT_CONFIG.staleMode);
+    expect(config.exportSections).toEqual(REPORT_SECTIONS);
+  });
+
+  it("falls back to defaults for malformed fields", () => {
+    const config = migrateConfig({
+      version: CONFIG_VERSION,
+      outlierMethod: "magic",
+      sortBy: 3,
+      windowSize: "big",
+      topicPatterns: "**",
+      variableMetrics: ["hz", "nonsense"],
+      exportSections: ["frequency", "nonsense"],
+      topicConfigs: { "/a": { expectedRate: "10", alias: "A" }, "/b": 5 },
+    });
+    expect(config.outlierMethod).toBe(DEFAULT_CONFIG.outlierMethod);
+    expect(config.sortBy).toBe(DEFAULT_CONFIG.sortBy);
+    expect(config.windowSize).toBe(DEFAULT_CONFIG.windowSize);
+    expect(config.topicPatterns).toEqual([]);
+    expect(config.variableMetrics).toEqual(["hz"]);
+    expect(config.exportSections).toEqual(["frequency"]);
+    expect(config.topicConfigs).toEqual({
+      "/a": {
+        alias: "A",
+        expectedRate: undefined,
+        tolerancePercent: undefined,
+        timestampSource: undefined,
+        timestampField: undefined,
+        splitPath: undefined,
+      },
+    });
+  });
+
+  it("clamps numbers to their valid range", () => {
+    const config = migrateConfig({
+      version: CONFIG_VERSION,
+      windowSize: 1,
+      trimPercent: 80,
+      gapFactor: 0,
+      diagnosticsRate: 1000,
+      timelineResolution: 0,
+    });
+    expect(config.windowSize).toBe(2);
+    expect(config.trimPercent).toBe(49);
+    expect(config.gapFactor).toBe(1);
+    expect(config.diagnosticsRate).toBe(100);
+    expect(config.timelineResolution).toBe(0.05);
+  });
+
+  it("skips saved baselines that no longer parse", () => {
+    const config = migrateConfig({ version: CONFIG_VERSION, baselines: [{ name: 5 }] });
+    expect(config.baselines).toEqual([]);
+  });
+});
@@ -0,0 +1,527 @@
+import { Baseline, parseBaseline } from "./baselines";
+import { RateContract } from "./contracts";
+import { REPORT_SECTIONS, ReportSection } from "./report";
+import { STALE_MODES, StaleMode, StaleOptions } from "./stale";
+import {
+  RawState,
+  isRecord,
+  readBoolean,
+  readEnum,
+  readNumber,
+  readOptionalNumber,
+  readOptionalString,
+  readStringArray,
+} from "./stateReaders";
+import { OUTLIER_METHODS, OutlierMethod, OutlierOptions } from "./stats/outliers";
+import { StatsWindow } from "./stats/types";
+import {
+  DEFAULT_TIMESTAMP_FIELD,
+  TIMESTAMP_SOURCES,
+  TimestampSelection,
+  TimestampSource,
+} from "./timestamps";
+import { TopicPatternTarget, matchesTopicPatterns } from "./topicFilter";
+import { DEFAULT_VARIABLE_TEMPLATE, VARIABLE_METRICS, VariableMetric } from "./variables";
+
+export type SortBy = "topic" | "frequency" | "outliers" | "bandwidth" | "stale";
+
+export const SORT_OPTIONS: readonly SortBy[] = [
+  "topic",
+  "frequency",
+  "outliers",
+  "bandwidth",
+  "stale",
+];
+
+/** Whether the frequency histogram is drawn in Hz or as periods in milliseconds. */
+export type HistogramUnit = "hz" | "ms";
+
+export const HISTOGRAM_UNITS: readonly HistogramUnit[] = ["hz", "ms"];
+
+/**
+ * "count" and "time" windows follow each topic's newest message; "playhead" keeps only messages
+ * within `windowSeconds` before the current playback time.
+ */
+export type WindowMode = "count" | "time" | "playhead";
+
+export const WINDOW_MODES: readonly WindowMode[] = ["count", "time", "playhead"];
+
+/**
+ * "playback" analyzes messages as they pass the playhead; "recording" loads every message of
+ * the selected topics and analyzes the whole recording regardless of playback position.
+ */
+export type AnalysisScope = "playback" | "recording";
+
+export const ANALYSIS_SCOPES: readonly AnalysisScope[] = ["playback", "recording"];
+
+/** Per-topic options edited from the topic's node in the settings sidebar. */
+export interface TopicConfig {
+  /** Display name shown instead of the topic name. */
+  alias?: string;
+  /** Nominal publishing rate in Hz. Together with the tolerance it forms the topic's contract. */
+  expectedRate?: number;
+  /** Allowed deviation from `expectedRate` in percent; defaults to the panel-wide tolerance. */
+  tolerancePercent?: number;
+  /** Overrides the panel-wide timestamp source for this topic. */
+  timestampSource?: TimestampSource;
+  timestampField?: string;
+  /** Message path whose value splits the topic into sub-streams, e.g. `header.frame_id`. */
+  splitPath?: string;
+}
+
+/**
+ * Persisted panel configuration. Stored through `context.saveState` and restored from
+ * `context.initialState`. Bump `CONFIG_VERSION` and add a migration whenever the shape changes.
+ */
+export interface PanelConfig {
+  version: number;
+  /** Undefined until the panel has picked its initial topics. */
+  selectedTopics: string[] | undefined;
+  /** Patterns selecting topics in addition to `selectedTopics`, including ones advertised later. */
+  topicPatterns: string[];
+  outlierMethod: OutlierMethod;
+  /** Parameter of the "stdDev" outlier method, in standard deviations. */
+  outlierThreshold: number;
+  /** Parameter of the "mad" outlier method, in scaled median absolute deviations. */
+  madThreshold: number;
+  /** Parameter of the "iqr" outlier method, in interquartile ranges. */
+  iqrFactor: number;
+  /** Parameter of the "percentile" outlier method, in percent trimmed from each tail. */
+  trimPercent: number;
+  /** Parameter of the "expectedRate" outlier method, in percent of the expected rate. */
+  outlierTolerancePercent: number;
+  /** Show outliers as a highlighted series in the histogram rather than leaving them out. */
+  highlightOutliers: boolean;
+  sortBy: SortBy;
+  showHistogram: boolean;
+  histogramUnit: HistogramUnit;
+  showTimeline: boolean;
+  /** Width in seconds of the buckets the frequency timeline is computed over. */
+  timelineResolution: number;
+  expandedTopics: string[];
+  /** Draw the legacy control bar inside the panel in addition to the settings sidebar. */
+  showInlineControls: boolean;
+  /** Show the topic search and namespace tree above the topic cards. */
+  showTopicPicker: boolean;
+  topicConfigs: Record<string, TopicConfig>;
+  analysisScope: AnalysisScope;
+  /** Whether statistics cover the last `windowSize` messages or the last `windowSeconds`. */
+  windowMode: WindowMode;
+  windowSize: number;
+  windowSeconds: number;
+  timestampSource: TimestampSource;
+  /** Message field path read when `timestampSource` is "messageField". */
+  timestampField: string;
+  defaultTolerancePercent: number;
+  /** Intervals longer than this many expected (or median) periods are reported as gaps. */
+  gapFactor: number;
+  staleMode: StaleMode;
+  /** Seconds of silence after which a topic is stale, and the fallback in "periods" mode. */
+  staleTimeout: number;
+  /** Missed periods after which a topic is stale in "periods" mode. */
+  stalePeriods: number;
+  /** Seconds the offset between message timestamp and receive time must change by to be a clock jump. */
+  clockJumpThreshold: number;
+  /** Publish statistics as `diagnostic_msgs/DiagnosticArray` on connections that allow it. */
+  publishDiagnostics: boolean;
+  diagnosticsTopic: string;
+  /** Diagnostics messages per second. */
+  diagnosticsRate: number;
+  /** Write the chosen metrics of each selected topic to global variables. */
+  exportVariables: boolean;
+  /** Variable name with `{topic}` and `{metric}` placeholders. */
+  variableTemplate: string;
+  variableMetrics: VariableMetric[];
+  /** Seconds between variable updates. */
+  variableInterval: number;
+  /** Saved runs to compare against, with unique names. */
+  baselines: Baseline[];
+  /** Name of the baseline the diff view compares against. */
+  activeBaseline: string | undefined;
+  /** Percent change of rate or jitter that counts as a regression. */
+  baselineThreshold: number;
+  /** Metric groups included in exports. */
+  exportSections: ReportSection[];
+  /** Topics compared in the synchronization view, in the order picked. */
+  syncTopics: string[];
+  /** Seconds messages of different topics may be apart and still match. */
+  syncSlop: number;
+}
+
+export const CONFIG_VERSION = 2;
+
+export const DEFAULT_CONFIG: PanelConfig = {
+  version: CONFIG_VERSION,
+  selectedTopics: undefined,
+  topicPatterns: [],
+  outlierMethod: "stdDev",
+  outlierThreshold: 2.0,
+  madThreshold: 3.5,
+  iqrFactor: 1.5,
+  trimPercent: 1,
+  outlierTolerancePercent: 50,
+  highlightOutliers: false,
+  sortBy: "topic",
+  showHistogram: false,
+  histogramUnit: "hz",
+  showTimeline: true,
+  timelineResolution: 1,
+  expandedTopics: [],
+  showInlineControls: false,
+  showTopicPicker: true,
+  topicConfigs: {},
+  analysisScope: "playback",
+  windowMode: "count",
+  windowSize: 1000,
+  windowSeconds: 10,
+  timestampSource: "receiveTime",
+  timestampField: DEFAULT_TIMESTAMP_FIELD,
+  defaultTolerancePercent: 10,
+  gapFactor: 3,
+  staleMode: "periods",
+  staleTimeout: 2,
+  stalePeriods: 5,
+  clockJumpThreshold: 1,
+  publishDiagnostics: false,
+  diagnosticsTopic: "/diagnostics",
+  diagnosticsRate: 1,
+  exportVariables: false,
+  variableTemplate: DEFAULT_VARIABLE_TEMPLATE,
+  variableMetrics: ["hz", "ok"],
+  variableInterval: 1,
+  baselines: [],
+  activeBaseline: undefined,
+  baselineThreshold: 10,
+  exportSections: [...REPORT_SECTIONS],
+  syncTopics: [],
+  syncSlop: 0.05,
+};
+
+/**
+ * Migrations keyed by the version they upgrade from. Each one receives the raw saved object and
+ * returns an object in the shape of the next version.
+ */
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  // Version 0 is any state saved before the config was versioned.
+  0: (raw) => ({ ...raw, version: 1 }),
+  // Version 1 layouts were created with the inline controls, so keep them visible. Every other
+  // setting added since reads as its default.
+  1: (raw) => ({ ...raw, version: 2, showInlineControls: true }),
+};
+
+function readTopicConfigs(value: unknown): Record<string, TopicConfig> {
+  if (!isRecord(value)) {
+    return {};
+  }
+  const result: Record<string, TopicConfig> = {};
+  for (const [topic, entry] of Object.entries(value)) {
+    if (isRecord(entry)) {
+      result[topic] = {
+        alias: readOptionalString(entry.alias),
+        expectedRate: readOptionalNumber(entry.expectedRate),
+        tolerancePercent: readOptionalNumber(entry.tolerancePercent),
+        timestampSource: TIMESTAMP_SOURCES.includes(entry.timestampSource as TimestampSource)
+          ? (entry.timestampSource as TimestampSource)
+          : undefined,
+        timestampField: readOptionalString(entry.timestampField),
+        splitPath: readOptionalString(entry.splitPath),
+      };
+    }
+  }
+  return result;
+}
+
+/** Topics selected by name or by pattern, in selection order followed by `topics` order. */
+export function resolveSelectedTopics(
+  config: Pick<PanelConfig, "selectedTopics" | "topicPatterns">,
+  topics: readonly TopicPatternTarget[] | undefined,
+): string[] {
+  const selected = new Set(config.selectedTopics ?? []);
+  for (const topic of topics ?? []) {
+    if (matchesTopicPatterns(config.topicPatterns, topic)) {
+      selected.add(topic.name);
+    }
+  }
+  return [...selected];
+}
+
+/**
+ * Returns a copy of `config` with `topics` added to or removed from the selection. Topics a
+ * pattern still selects get an exact `!topic` exclusion so deselecting them sticks, and selecting
+ * a topic drops its exclusion again.
+ */
+export function setTopicsSelected(
+  config: PanelConfig,
+  topics: readonly TopicPatternTarget[],
+  selected: boolean,
+): PanelConfig {
+  const names = new Set(topics.map((topic) => topic.name));
+  const current = (config.selectedTopics ?? []).filter((t) => !names.has(t));
+  if (selected) {
+    return {
+      ...config,
+      selectedTopics: [...current, ...names],
+      topicPatterns: config.topicPatterns.filter(
+        (pattern) => !(pattern.startsWith("!") && names.has(pattern.slice(1))),
+      ),
+    };
+  }
+  const exclusions = topics
+    .filter((topic) => matchesTopicPatterns(config.topicPatterns, topic))
+    .map((topic) => `!${topic.name}`);
+  return {
+    ...config,
+    selectedTopics: current,
+    topicPatterns: [...config.topicPatterns, ...exclusions],
+  };
+}
+
+export function setTopicSelected(
+  config: PanelConfig,
+  topic: TopicPatternTarget,
+  selected: boolean,
+): PanelConfig {
+  return setTopicsSelected(config, [topic], selected);
+}
+
+/** Selects every topic, now and later, by replacing the patterns with `**`. */
+export function selectAllTopics(config: PanelConfig): PanelConfig {
+  return { ...config, topicPatterns: ["**"] };
+}
+
+export function deselectAllTopics(config: PanelConfig): PanelConfig {
+  return { ...config, selectedTopics: [], topicPatterns: [] };
+}
+
+/** Saved baselines, skipping any that no longer parse. */
+function readBaselines(value: unknown): Baseline[] {
+  if (!Array.isArray(value)) {
+    return DEFAULT_CONFIG.baselines;
+  }
+  const baselines: Baseline[] = [];
+  for (const entry of value) {
+    try {
+      baselines.push(parseBaseline(entry));
+    } catch {
+      // A damaged baseline shouldn't keep the rest of the layout from loading.
+    }
+  }
+  return baselines;
+}
+
+/**
+ * Adds `baseline`, replacing an existing one with the same name, and makes it the one compared
+ * against.
+ */
+export function addBaseline(config: PanelConfig, baseline: Baseline): PanelConfig {
+  return {
+    ...config,
+    baselines: [...config.baselines.filter((b) => b.name !== baseline.name), baseline],
+    activeBaseline: baseline.name,
+  };
+}
+
+export function removeBaseline(config: PanelConfig, name: string): PanelConfig {
+  return {
+    ...config,
+    baselines: config.baselines.filter((b) => b.name !== name),
+    activeBaseline: config.activeBaseline === name ? undefined : config.activeBaseline,
+  };
+}
+
+/**
+ * Upgrades saved panel state of any known version to the current `PanelConfig`. Unknown or
+ * malformed fields fall back to their defaults so a broken layout never prevents the panel from
+ * loading.
+ */
+export function migrateConfig(initialState: unknown): PanelConfig {
+  if (!isRecord(initialState)) {
+    return DEFAULT_CONFIG;
+  }
+
+  let raw = initialState;
+  let version = readNumber(raw.version, 0);
+  while (version < CONFIG_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      break;
+    }
+    raw = migrate(raw);
+    version = readNumber(raw.version, version + 1);
+  }
+
+  return {
+    version: CONFIG_VERSION,
+    selectedTopics: readStringArray(raw.selectedTopics),
+    topicPatterns: readStringArray(raw.topicPatterns) ?? DEFAULT_CONFIG.topicPatterns,
+    outlierMethod: readEnum(raw.outlierMethod, OUTLIER_METHODS, DEFAULT_CONFIG.outlierMethod),
+    outlierThreshold: readNumber(raw.outlierThreshold, DEFAULT_CONFIG.outlierThreshold),
+    madThreshold: Math.max(0, readNumber(raw.madThreshold, DEFAULT_CONFIG.madThreshold)),
+    iqrFactor: Math.max(0, readNumber(raw.iqrFactor, DEFAULT_CONFIG.iqrFactor)),
+    trimPercent: Math.min(49, Math.max(0, readNumber(raw.trimPercent, DEFAULT_CONFIG.trimPercent))),
+    outlierTolerancePercent: Math.max(
+      0,
+      readNumber(raw.outlierTolerancePercent, DEFAULT_CONFIG.outlierTolerancePercent),
+    ),
+    highlightOutliers: readBoolean(raw.highlightOutliers, DEFAULT_CONFIG.highlightOutliers),
+    sortBy: readEnum(raw.sortBy, SORT_OPTIONS, DEFAULT_CONFIG.sortBy),
+    showHistogram: readBoolean(raw.showHistogram, DEFAULT_CONFIG.showHistogram),
+    histogramUnit: readEnum(raw.histogramUnit, HISTOGRAM_UNITS, DEFAULT_CONFIG.histogramUnit),
+    showTimeline: readBoolean(raw.showTimeline, DEFAULT_CONFIG.showTimeline),
+    timelineResolution: Math.max(
+      0.05,
+      readNumber(raw.timelineResolution, DEFAULT_CONFIG.timelineResolution),
+    ),
+    expandedTopics: readStringArray(raw.expandedTopics) ?? DEFAULT_CONFIG.expandedTopics,
+    showInlineControls: readBoolean(raw.showInlineControls, DEFAULT_CONFIG.showInlineControls),
+    showTopicPicker: readBoolean(raw.showTopicPicker, DEFAULT_CONFIG.showTopicPicker),
+    topicConfigs: readTopicConfigs(raw.topicConfigs),
+    analysisScope: readEnum(raw.analysisScope, ANALYSIS_SCOPES, DEFAULT_CONFIG.analysisScope),
+    windowMode: readEnum(raw.windowMode, WINDOW_MODES, DEFAULT_CONFIG.windowMode),
+    windowSize: Math.max(2, Math.round(readNumber(raw.windowSize, DEFAULT_CONFIG.windowSize))),
+    windowSeconds: Math.max(0.1, readNumber(raw.windowSeconds, DEFAULT_CONFIG.windowSeconds)),
+    timestampSource: readEnum(
+      raw.timestampSource,
+      TIMESTAMP_SOURCES,
+      DEFAULT_CONFIG.timestampSource,
+    ),
+    timestampField: readOptionalString(raw.timestampField) ?? DEFAULT_CONFIG.timestampField,
+    defaultTolerancePercent: Math.max(
+      0,
+      readNumber(raw.defaultTolerancePercent, DEFAULT_CONFIG.defaultTolerancePercent),
+    ),
+    gapFactor: Math.max(1, readNumber(raw.gapFactor, DEFAULT_CONFIG.gapFactor)),
+    staleMode: readEnum(raw.staleMode, STALE_MODES, DEFAULT_CONFIG.staleMode),
+    staleTimeout: Math.max(0.1, readNumber(raw.staleTimeout, DEFAULT_CONFIG.staleTimeout)),
+    stalePeriods: Math.max(1, readNumber(raw.stalePeriods, DEFAULT_CONFIG.stalePeriods)),
+    clockJumpThreshold: Math.max(
+      0.001,
+      readNumber(raw.clockJumpThreshold, DEFAULT_CONFIG.clockJumpThreshold),
+    ),
+    publishDiagnostics: readBoolean(raw.publishDiagnostics, DEFAULT_CONFIG.publishDiagnostics),
+    diagnosticsTopic: readOptionalString(raw.diagnosticsTopic) ?? DEFAULT_CONFIG.diagnosticsTopic,
+    diagnosticsRate: Math.min(
+      100,
+      Math.max(0.1, readNumber(raw.diagnosticsRate, DEFAULT_CONFIG.diagnosticsRate)),
+    ),
+    exportVariables: readBoolean(raw.exportVariables, DEFAULT_CONFIG.exportVariables),
+    variableTemplate: readOptionalString(raw.variableTemplate) ?? DEFAULT_CONFIG.variableTemplate,
+    variableMetrics:
+      readStringArray(raw.variableMetrics)?.filter((metric): metric is VariableMetric =>
+        VARIABLE_METRICS.includes(metric as VariableMetric),
+      ) ?? DEFAULT_CONFIG.variableMetrics,
+    variableInterval: Math.max(
+      0.1,
+      readNumber(raw.variableInterval, DEFAULT_CONFIG.variableInterval),
+    ),
+    exportSections:
+      readStringArray(raw.exportSections)?.filter((section): section is ReportSection =>
+        REPORT_SECTIONS.includes(section as ReportSection),
+      ) ?? DEFAULT_CONFIG.exportSections,
+    baselines: readBaselines(raw.baselines),
+    activeBaseline: readOptionalString(raw.activeBaseline),
+    baselineThreshold: Math.max(
+      0,
+      readNumber(raw.baselineThreshold, DEFAULT_CONFIG.baselineThreshold),
+    ),
+    syncTopics: readStringArray(raw.syncTopics) ?? DEFAULT_CONFIG.syncTopics,
+    syncSlop: Math.max(0, readNumber(raw.syncSlop, DEFAULT_CONFIG.syncSlop)),
+  };
+}
+
+/** The rate contract for `topic`, or undefined when it has no expected rate. */
+export function contractForTopic(
+  config: Pick<PanelConfig, "topicConfigs" | "defaultTolerancePercent">,
+  topic: string,
+): RateContract | undefined {
+  const topicConfig = config.topicConfigs[topic];
+  if (topicConfig?.expectedRate == undefined) {
+    return undefined;
+  }
+  return {
+    rate: topicConfig.expectedRate,
+    tolerancePercent: topicConfig.tolerancePercent ?? config.defaultTolerancePercent,
+  };
+}
+
+/** All configured contracts keyed by topic. */
+export function contractsFromConfig(
+  config: Pick<PanelConfig, "topicConfigs" | "defaultTolerancePercent">,
+): Record<string, RateContract> {
+  const contracts: Record<string, RateContract> = {};
+  for (const topic of Object.keys(config.topicConfigs)) {
+    const contract = contractForTopic(config, topic);
+    if (contract) {
+      contracts[topic] = contract;
+    }
+  }
+  return contracts;
+}
+
+/** Replaces every topic's contract with `contracts`, keeping other per-topic options. */
+export function replaceContracts(
+  config: PanelConfig,
+  contracts: Record<string, RateContract>,
+): PanelConfig {
+  const topicConfigs: Record<string, TopicConfig> = {};
+  for (const [topic, topicConfig] of Object.entries(config.topicConfigs)) {
+    topicConfigs[topic] = { ...topicConfig, expectedRate: undefined, tolerancePercent: undefined };
+  }
+  for (const [topic, contract] of Object.entries(contracts)) {
+    topicConfigs[topic] = {
+      ...topicConfigs[topic],
+      expectedRate: contract.rate,
+      tolerancePercent: contract.tolerancePercent,
+    };
+  }
+  return { ...config, topicConfigs };
+}
+
+/** The timestamp source for `topic`, taking per-topic overrides into account. */
+export function timestampSelectionForTopic(
+  config: Pick<PanelConfig, "timestampSource" | "timestampField" | "topicConfigs">,
+  topic: string,
+): TimestampSelection {
+  const topicConfig = config.topicConfigs[topic];
+  return {
+    source: topicConfig?.timestampSource ?? config.timestampSource,
+    field: topicConfig?.timestampField ?? config.timestampField,
+  };
+}
+
+export function statsWindowFromConfig(
+  config: Pick<PanelConfig, "analysisScope" | "windowMode" | "windowSize" | "windowSeconds">,
+): StatsWindow {
+  if (config.analysisScope === "recording") {
+    return { mode: "all" };
+  }
+  return config.windowMode === "count"
+    ? { mode: "count", size: config.windowSize }
+    : { mode: "time", seconds: config.windowSeconds };
+}
+
+/** Config field holding the parameter of each outlier method. */
+export const OUTLIER_THRESHOLD_FIELDS = {
+  stdDev: "outlierThreshold",
+  mad: "madThreshold",
+  iqr: "iqrFactor",
+  percentile: "trimPercent",
+  expectedRate: "outlierTolerancePercent",
+} as const satisfies Record<OutlierMethod, keyof PanelConfig>;
+
+export type OutlierThresholdField = (typeof OUTLIER_THRESHOLD_FIELDS)[OutlierMethod];
+
+export function staleOptionsFromConfig(
+  config: Pick<PanelConfig, "staleMode" | "staleTimeout" | "stalePeriods">,
+): StaleOptions {
+  return { mode: config.staleMode, timeout: config.staleTimeout, periods: config.stalePeriods };
+}
+
+export function outlierOptionsFromConfig(
+  config: Pick<PanelConfig, "outlierMethod" | OutlierThresholdField>,
+): OutlierOptions {
+  return {
+    method: config.outlierMethod,
+    threshold: config[OUTLIER_THRESHOLD_FIELDS[config.outlierMethod]],
+  };
+}
@@ -0,0 +1,78 @@
+import {
+  evaluateHealth,
+  parseContracts,
+  serializeContractsJson,
+  serializeContractsYaml,
+} from "./contracts";
+
+const CONTRACT = { rate: 10, tolerancePercent: 10 };
+
+describe("evaluateHealth", () => {
+  it("grades the deviation from the contracted rate", () => {
+    expect(evaluateHealth({ averageFrequency: 10.5, messageCount: 10 }, CONTRACT)).toBe("ok");
+    expect(evaluateHealth({ averageFrequency: 11, messageCount: 10 }, CONTRACT)).toBe("ok");
+    expect(evaluateHealth({ averageFrequency: 8.5, messageCount: 10 }, CONTRACT)).toBe("warn");
+    expect(evaluateHealth({ averageFrequency: 12.5, messageCount: 10 }, CONTRACT)).toBe("fail");
+  });
+
+  it("fails topics without a measurable rate", () => {
+    expect(evaluateHealth({ averageFrequency: 10, messageCount: 1 }, CONTRACT)).toBe("fail");
+    expect(evaluateHealth({ averageFrequency: 0, messageCount: 10 }, CONTRACT)).toBe("fail");
+  });
+});
+
+describe("contract files", () => {
+  const contracts = {
+    "/lidar": { rate: 10, tolerancePercent: 5 },
+    "/camera/image": { rate: 30, tolerancePercent: 10 },
+  };
+
+  it("writes JSON sorted by topic", () => {
+    const json = serializeContractsJson(contracts);
+    expect(JSON.parse(json)).toEqual({
+      version: 1,
+      contracts: {
+        "/camera/image": { rate: 30, tolerance: 10 },
+        "/lidar": { rate: 10, tolerance: 5 },
+      },
+    });
+    expect(json.indexOf("/camera/image")).toBeLessThan(json.indexOf("/lidar"));
+  });
+
+  it("reads back what it writes, as JSON or YAML", () => {
+    expect(parseContracts(serializeContractsJson(contracts), 10)).toEqual(contracts);
+    expect(parseContracts(serializeContractsYaml(contracts), 10)).toEqual(contracts);
+  });
+
+  it("reads hand-written YAML with comments, quoting and default tolerances", () => {
+    const yaml = [
+      "# rates",
+      "---",
+      "contracts:",
+      "  /imu:",
+      "    rate: 200 # Hz",
+      "  '/it''s':",
+      "    rate: 1",
+      "    tolerance: 0",
+    ].join("\n");
+    expect(parseContracts(yaml, 7)).toEqual({
+      "/imu": { rate: 200, tolerancePercent: 7 },
+      "/it's": { rate: 1, tolerancePercent: 0 },
+    });
+  });
+
+  it("rejects malformed files", () => {
+    expect(() => parseContracts("[]", 10)).toThrow("only key/value maps are supported");
+    expect(() => parseContracts("version: 1", 10)).toThrow('missing a "contracts" map');
+    expect(() => parseContracts("version: 2\ncontracts:\n", 10)).toThrow(
+      "Unsupported contract file version 2",
+    );
+    expect(() => parseContracts("contracts:\n  /a:\n    rate: -1", 10)).toThrow(
+      'Contract for /a needs a positive "rate"',
+    );
+    expect(() => parseContracts("contracts:\n  /a:\n    rate: 1\n    tolerance: x", 10)).toThrow(
+      'Contract for /a has an invalid "tolerance"',
+    );
+    expect(() => parseContracts("contracts:\n  - /a", 10)).toThrow("Line 2");
+  });
+});
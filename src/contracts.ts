@@ -0,0 +1,196 @@
+import { FrequencyStats } from "./stats/types";
+
+export type HealthStatus = "ok" | "warn" | "fail";
+
+export const HEALTH_STATUSES: readonly HealthStatus[] = ["ok", "warn", "fail"];
+
+/** Expected publishing rate of a topic. */
+export interface RateContract {
+  /** Target frequency in Hz. */
+  rate: number;
+  /** Allowed deviation from `rate`, in percent. */
+  tolerancePercent: number;
+}
+
+/**
+ * Compares a topic's average frequency against its contract. Within the tolerance is OK, within
+ * twice the tolerance is WARN, and anything further off, including a topic without a measurable
+ * rate, is FAIL.
+ */
+export function evaluateHealth(
+  stats: Pick<FrequencyStats, "averageFrequency" | "messageCount">,
+  contract: RateContract,
+): HealthStatus {
+  if (stats.messageCount < 2 || stats.averageFrequency <= 0) {
+    return "fail";
+  }
+  const deviationPercent = (Math.abs(stats.averageFrequency - contract.rate) / contract.rate) * 100;
+  if (deviationPercent <= contract.tolerancePercent) {
+    return "ok";
+  }
+  if (deviationPercent <= contract.tolerancePercent * 2) {
+    return "warn";
+  }
+  return "fail";
+}
+
+export const CONTRACT_FILE_VERSION = 1;
+
+/** On-disk shape shared by the JSON and YAML contract files. */
+interface ContractFile {
+  version: number;
+  contracts: Record<string, { rate: number; tolerance: number }>;
+}
+
+function toContractFile(contracts: Record<string, RateContract>): ContractFile {
+  const entries = Object.entries(contracts).sort(([a], [b]) => a.localeCompare(b));
+  return {
+    version: CONTRACT_FILE_VERSION,
+    contracts: Object.fromEntries(
+      entries.map(([topic, contract]) => [
+        topic,
+        { rate: contract.rate, tolerance: contract.tolerancePercent },
+      ]),
+    ),
+  };
+}
+
+export function serializeContractsJson(contracts: Record<string, RateContract>): string {
+  return JSON.stringify(toContractFile(contracts), undefined, 2) + "\n";
+}
+
+export function serializeContractsYaml(contracts: Record<string, RateContract>): string {
+  const file = toContractFile(contracts);
+  const lines = [
+    "# Topic rate contracts. tolerance is the allowed deviation from rate in percent.",
+    `version: ${file.version}`,
+    "contracts:",
+  ];
+  for (const [topic, contract] of Object.entries(file.contracts)) {
+    // Double-quoted YAML strings use the same escapes as JSON.
+    lines.push(`  ${JSON.stringify(topic)}:`);
+    lines.push(`    rate: ${contract.rate}`);
+    lines.push(`    tolerance: ${contract.tolerance}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+type YamlValue = string | number | boolean | undefined | YamlMap;
+interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+const QUOTED_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')/;
+
+function unquote(quoted: string): string {
+  return quoted.startsWith('"')
+    ? (JSON.parse(quoted) as string)
+    : quoted.slice(1, -1).replace(/''/g, "'");
+}
+
+function parseScalar(text: string): YamlValue {
+  const quoted = QUOTED_PATTERN.exec(text);
+  if (quoted) {
+    return unquote(quoted[1]!);
+  }
+  const plain = text.replace(/\s+#.*$/, "");
+  if (plain === "" || plain === "~" || plain === "null") {
+    return undefined;
+  }
+  if (plain === "true" || plain === "false") {
+    return plain === "true";
+  }
+  const number = Number(plain);
+  return Number.isNaN(number) ? plain : number;
+}
+
+/**
+ * Parses the block-mapping subset of YAML used by contract files: nested `key: value` maps with
+ * scalar values and comments. Sequences and flow collections are rejected.
+ */
+function parseYamlMap(text: string): YamlMap {
+  const root: YamlMap = {};
+  const stack: { indent: number; map: YamlMap }[] = [{ indent: -1, map: root }];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const content = rawLine.trim();
+    if (content === "" || content.startsWith("#") || content === "---") {
+      return;
+    }
+    if (content.startsWith("- ") || content.startsWith("{") || content.startsWith("[")) {
+      throw new Error(`Line ${index + 1}: only key/value maps are supported`);
+    }
+
+    const indent = rawLine.length - rawLine.trimStart().length;
+    while (stack.length > 1 && indent <= stack[stack.length - 1]!.indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]!.map;
+
+    let key: string;
+    let rest: string;
+    const quotedKey = QUOTED_PATTERN.exec(content);
+    if (quotedKey) {
+      key = unquote(quotedKey[1]!);
+      rest = content.slice(quotedKey[1]!.length).trimStart();
+      if (!rest.startsWith(":")) {
+        throw new Error(`Line ${index + 1}: expected ":" after key`);
+      }
+      rest = rest.slice(1).trim();
+    } else {
+      const separator = content.search(/:(\s|$)/);
+      if (separator < 0) {
+        throw new Error(`Line ${index + 1}: expected "key: value"`);
+      }
+      key = content.slice(0, separator).trim();
+      rest = content.slice(separator + 1).trim();
+    }
+
+    if (rest === "" || rest.startsWith("#")) {
+      const child: YamlMap = {};
+      parent[key] = child;
+      stack.push({ indent, map: child });
+    } else {
+      parent[key] = parseScalar(rest);
+    }
+  });
+
+  return root;
+}
+
+/**
+ * Reads a contract file in either JSON or YAML form and returns contracts keyed by topic. Entries
+ * without a tolerance get `defaultTolerancePercent`. Throws an `Error` describing the first
+ * problem found.
+ */
+export function parseContracts(
+  text: string,
+  defaultTolerancePercent: number,
+): Record<string, RateContract> {
+  const trimmed = text.trim();
+  const parsed: unknown = trimmed.startsWith("{") ? JSON.parse(trimmed) : parseYamlMap(trimmed);
+
+  if (typeof parsed !== "object" || parsed == undefined) {
+    throw new Error("Contract file must contain an object");
+  }
+  const { version, contracts } = parsed as Partial<Record<keyof ContractFile, unknown>>;
+  if (version != undefined && version !== CONTRACT_FILE_VERSION) {
+    throw new Error(`Unsupported contract file version ${JSON.stringify(version)}`);
+  }
+  if (typeof contracts !== "object" || contracts == undefined) {
+    throw new Error('Contract file is missing a "contracts" map');
+  }
+
+  const result: Record<string, RateContract> = {};
+  for (const [topic, entry] of Object.entries(contracts as Record<string, unknown>)) {
+    const { rate, tolerance } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof rate !== "number" || !(rate > 0)) {
+      throw new Error(`Contract for ${topic} needs a positive "rate"`);
+    }
+    if (tolerance != undefined && (typeof tolerance !== "number" || tolerance < 0)) {
+      throw new Error(`Contract for ${topic} has an invalid "tolerance"`);
+    }
+    result[topic] = { rate, tolerancePercent: tolerance ?? defaultTolerancePercent };
+  }
+  return result;
+}
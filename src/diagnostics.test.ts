@@ -0,0 +1,65 @@
+import { buildDiagnosticArray, diagnosticDatatypes } from "./diagnostics";
+import { emptyStats } from "./stats/TopicStream";
+import { FrequencyStats } from "./stats/types";
+
+const STAMP = { sec: 1, nsec: 0 };
+
+function stats(topic: string, averageFrequency: number): FrequencyStats {
+  return { ...emptyStats(topic, 20), averageFrequency, medianFrequency: averageFrequency };
+}
+
+interface Status {
+  level: number;
+  name: string;
+  message: string;
+  values: { key: string; value: string }[];
+}
+
+function statuses(...args: Parameters<typeof buildDiagnosticArray>): Status[] {
+  return (buildDiagnosticArray(...args) as { status: Status[] }).status;
+}
+
+describe("diagnosticDatatypes", () => {
+  it("drops the header seq and uses an unsigned level for ROS 2", () => {
+    const fields = (profile: string, datatype: string) =>
+      diagnosticDatatypes(profile)
+        .get(datatype)
+        ?.definitions.map((field) => `${field.name}:${field.type}`);
+    expect(fields("ros1", "std_msgs/Header")).toContain("seq:uint32");
+    expect(fields("ros2", "std_msgs/Header")).not.toContain("seq:uint32");
+    expect(fields("ros1", "diagnostic_msgs/DiagnosticStatus")).toContain("level:int8");
+    expect(fields("ros2", "diagnostic_msgs/DiagnosticStatus")).toContain("level:uint8");
+  });
+});
+
+describe("buildDiagnosticArray", () => {
+  it("maps contract health to diagnostic levels", () => {
+    const [ok, failing, unchecked, stale] = statuses(
+      [stats("/ok", 10), stats("/fail", 2), stats("/free", 5), emptyStats("/stale", 1)],
+      {
+        stamp: STAMP,
+        health: new Map([
+          ["/ok", "ok"],
+          ["/fail", "fail"],
+        ]),
+        expectedRates: { "/ok": 10, "/fail": 10 },
+      },
+    );
+    expect(ok).toMatchObject({ level: 0, name: "topic_frequency: /ok" });
+    expect(failing).toMatchObject({ level: 2, message: "2.00 Hz (expected 10 Hz, FAIL)" });
+    expect(unchecked).toMatchObject({ level: 0, message: "5.00 Hz" });
+    expect(stale).toMatchObject({ level: 3, message: "No data" });
+  });
+
+  it("leaves out values that weren't measured", () => {
+    const [status] = statuses([stats("/a", 10)], {
+      stamp: STAMP,
+      health: new Map(),
+      expectedRates: {},
+    });
+    const keys = status?.values.map((value) => value.key);
+    expect(keys).toContain("frequency_hz");
+    expect(keys).not.toContain("expected_hz");
+    expect(keys).not.toContain("bandwidth_bytes_per_s");
+  });
+});
@@ -0,0 +1,141 @@
+import { Time } from "@foxglove/extension";
+
+import { HealthStatus } from "./contracts";
+import { FrequencyStats } from "./stats/types";
+
+export const DIAGNOSTIC_ARRAY_SCHEMA = "diagnostic_msgs/DiagnosticArray";
+
+/** `diagnostic_msgs/DiagnosticStatus` levels. */
+const LEVEL = { OK: 0, WARN: 1, ERROR: 2, STALE: 3 } as const;
+
+const HEALTH_LEVELS: Record<HealthStatus, number> = {
+  ok: LEVEL.OK,
+  warn: LEVEL.WARN,
+  fail: LEVEL.ERROR,
+};
+
+interface DefinitionField {
+  name: string;
+  type: string;
+  isArray?: boolean;
+  isComplex?: boolean;
+}
+
+/**
+ * Message definitions for `advertise` on ROS connections, in Foxglove's `MessageDefinition` format.
+ * ROS 2 headers have no `seq` and its `byte` is unsigned.
+ */
+export function diagnosticDatatypes(
+  profile: string | undefined,
+): Map<string, { definitions: DefinitionField[] }> {
+  const ros2 = profile === "ros2";
+  return new Map([
+    [
+      DIAGNOSTIC_ARRAY_SCHEMA,
+      {
+        definitions: [
+          { name: "header", type: "std_msgs/Header", isComplex: true },
+          {
+            name: "status",
+            type: "diagnostic_msgs/DiagnosticStatus",
+            isArray: true,
+            isComplex: true,
+          },
+        ],
+      },
+    ],
+    [
+      "std_msgs/Header",
+      {
+        definitions: [
+          ...(ros2 ? [] : [{ name: "seq", type: "uint32" }]),
+          { name: "stamp", type: "time" },
+          { name: "frame_id", type: "string" },
+        ],
+      },
+    ],
+    [
+      "diagnostic_msgs/DiagnosticStatus",
+      {
+        definitions: [
+          { name: "level", type: ros2 ? "uint8" : "int8" },
+          { name: "name", type: "string" },
+          { name: "message", type: "string" },
+          { name: "hardware_id", type: "string" },
+          { name: "values", type: "diagnostic_msgs/KeyValue", isArray: true, isComplex: true },
+        ],
+      },
+    ],
+    [
+      "diagnostic_msgs/KeyValue",
+      {
+        definitions: [
+          { name: "key", type: "string" },
+          { name: "value", type: "string" },
+        ],
+      },
+    ],
+  ]);
+}
+
+function statusFor(
+  stats: FrequencyStats,
+  health: HealthStatus | undefined,
+  expectedRate: number | undefined,
+): { level: number; message: string } {
+  if (stats.messageCount < 2) {
+    return { level: LEVEL.STALE, message: "No data" };
+  }
+  const rate = `${stats.averageFrequency.toFixed(2)} Hz`;
+  if (health == undefined) {
+    return { level: LEVEL.OK, message: rate };
+  }
+  return {
+    level: HEALTH_LEVELS[health],
+    message: `${rate} (expected ${expectedRate ?? "?"} Hz, ${health.toUpperCase()})`,
+  };
+}
+
+/**
+ * One `DiagnosticStatus` per topic carrying the same numbers the panel shows. Status names are
+ * prefixed so rqt_robot_monitor groups them under "topic_frequency".
+ */
+export function buildDiagnosticArray(
+  allStats: readonly FrequencyStats[],
+  context: {
+    stamp: Time;
+    health: ReadonlyMap<string, HealthStatus>;
+    expectedRates: Readonly<Record<string, number | undefined>>;
+  },
+): unknown {
+  return {
+    header: { seq: 0, stamp: context.stamp, frame_id: "" },
+    status: allStats.map((stats) => {
+      const health = context.health.get(stats.topic);
+      const expectedRate = context.expectedRates[stats.topic];
+      const values: [string, string | undefined][] = [
+        ["frequency_hz", stats.averageFrequency.toFixed(4)],
+        ["median_hz", stats.medianFrequency.toFixed(4)],
+        ["std_dev_hz", stats.stdDeviation.toFixed(4)],
+        ["min_hz", stats.minFrequency.toFixed(4)],
+        ["max_hz", stats.maxFrequency.toFixed(4)],
+        ["messages", String(stats.messageCount)],
+        ["outliers", String(stats.outlierCount)],
+        ["gaps", String(stats.gapCount)],
+        ["expected_hz", expectedRate?.toString()],
+        ["health", health],
+        ["period_p99_ms", stats.period && (stats.period.p99 * 1000).toFixed(3)],
+        ["jitter_ms", stats.period && (stats.period.jitter * 1000).toFixed(3)],
+        ["bandwidth_bytes_per_s", stats.size?.bandwidth.toFixed(1)],
+      ];
+      return {
+        ...statusFor(stats, health, expectedRate),
+        name: `topic_frequency: ${stats.topic}`,
+        hardware_id: "",
+        values: values
+          .filter((entry): entry is [string, string] => entry[1] != undefined)
+          .map(([key, value]) => ({ key, value })),
+      };
+    }),
+  };
+}
@@ -0,0 +1,18 @@
+/** Timestamp suitable for file names, e.g. `2024-05-01T12-30-00`. */
+export function fileTimestamp(date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, "-");
+}
+
+/** Saves `content` as a file through a temporary download link. */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,19 @@
+import { formatBandwidth, formatBytes } from "./format";
+
+describe("formatBytes", () => {
+  it("picks a power-of-1024 unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(3 * 1024 ** 3)).toBe("3.0 GB");
+  });
+
+  it("stops at terabytes", () => {
+    expect(formatBytes(2 * 1024 ** 5)).toBe("2048.0 TB");
+  });
+});
+
+describe("formatBandwidth", () => {
+  it("adds a per-second suffix", () => {
+    expect(formatBandwidth(2048)).toBe("2.0 KB/s");
+  });
+});
@@ -0,0 +1,16 @@
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/** Human-readable byte count using powers of 1024, e.g. "1.5 MB". */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${BYTE_UNITS[unit] ?? "B"}`;
+}
+
+export function formatBandwidth(bytesPerSecond: number): string {
+  return `${formatBytes(bytesPerSecond)}/s`;
+}
@@ -1,10 +1,15 @@
 import { ExtensionContext } from "@foxglove/extension";
 
 import { initExamplePanel } from "./ExamplePanel";
+import { initOverviewPanel } from "./overview/OverviewPanel";
 
 export function activate(extensionContext: ExtensionContext): void {
   extensionContext.registerPanel({
     name: "topic-frequency-analyzer",
     initPanel: initExamplePanel,
   });
+  extensionContext.registerPanel({
+    name: "topic-activity-overview",
+    initPanel: initOverviewPanel,
+  });
 }
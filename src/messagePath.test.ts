@@ -0,0 +1,36 @@
+import { readMessagePath, readMessagePathValues } from "./messagePath";
+
+describe("readMessagePath", () => {
+  it("reads nested fields", () => {
+    const message = { header: { stamp: { sec: 1, nsec: 2 } } };
+    expect(readMessagePath(message, "header.stamp")).toEqual({ sec: 1, nsec: 2 });
+    expect(readMessagePath(message, "header.stamp.sec")).toBe(1);
+  });
+
+  it("returns the message for an empty path", () => {
+    const message = { data: 1 };
+    expect(readMessagePath(message, "")).toBe(message);
+  });
+
+  it("returns undefined when a segment is missing", () => {
+    expect(readMessagePath({ header: {} }, "header.stamp.sec")).toBeUndefined();
+    expect(readMessagePath({ header: 5 }, "header.stamp")).toBeUndefined();
+    expect(readMessagePath(undefined, "header")).toBeUndefined();
+  });
+});
+
+describe("readMessagePathValues", () => {
+  it("visits every element of arrays marked with []", () => {
+    const message = {
+      transforms: [{ child_frame_id: "a" }, { child_frame_id: "b" }, {}],
+    };
+    expect(readMessagePathValues(message, "transforms[].child_frame_id")).toEqual(["a", "b"]);
+    expect(readMessagePathValues({ grid: [[1, 2], [3]] }, "grid[].")).toEqual([[1, 2], [3]]);
+  });
+
+  it("reads a single value without []", () => {
+    expect(readMessagePathValues({ id: 4 }, "id")).toEqual([4]);
+    expect(readMessagePathValues({ id: 4 }, "missing")).toEqual([]);
+    expect(readMessagePathValues({ items: 4 }, "items[]")).toEqual([]);
+  });
+});
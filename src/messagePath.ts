@@ -0,0 +1,43 @@
+/**
+ * Reads a dot-separated field path such as `header.stamp` from a deserialized message. Returns
+ * undefined when any segment along the path is missing.
+ */
+export function readMessagePath(message: unknown, path: string): unknown {
+  let value = message;
+  for (const segment of path.split(".")) {
+    if (segment === "") {
+      continue;
+    }
+    if (typeof value !== "object" || value == undefined) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Reads every value at `path`, where a segment ending in `[]` visits each element of an array,
+ * e.g. `transforms[].child_frame_id`. Values missing or null along some branches are left out.
+ */
+export function readMessagePathValues(message: unknown, path: string): unknown[] {
+  let values = [message];
+  for (const segment of path.split(".")) {
+    if (segment === "") {
+      continue;
+    }
+    const each = segment.endsWith("[]");
+    const name = each ? segment.slice(0, -2) : segment;
+    const next: unknown[] = [];
+    for (const value of values) {
+      const child = readMessagePath(value, name);
+      if (!each) {
+        next.push(child);
+      } else if (Array.isArray(child)) {
+        next.push(...(child as unknown[]));
+      }
+    }
+    values = next;
+  }
+  return values.filter((value) => value != undefined);
+}
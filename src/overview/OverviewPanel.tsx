@@ -0,0 +1,312 @@
+import { Immutable, PanelExtensionContext, SettingsTreeAction, Topic } from "@foxglove/extension";
+import {
+  MouseEvent,
+  ReactElement,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { createRoot } from "react-dom/client";
+
+import { OverviewConfig, OverviewMode, migrateOverviewConfig } from "./config";
+import { LABEL_WIDTH, ROW_HEIGHT, drawOverview, rateColor } from "./draw";
+import { applyOverviewSettingsAction, buildOverviewSettingsNodes } from "./settings";
+import { ArrivalLog } from "../stats/ArrivalLog";
+import { toSeconds } from "../time";
+
+const MODE_BUTTON_STYLE = {
+  padding: "0.25rem 0.5rem",
+  fontSize: "0.8rem",
+  border: "1px solid #ccc",
+  color: "#333",
+  borderRadius: "4px",
+  cursor: "pointer",
+} as const;
+
+/**
+ * Whole-system view: one row per topic with a tick per message or a rate heatmap. Rows are drawn
+ * on a single canvas and only the ones scrolled into view are rendered, so hundreds of topics stay
+ * responsive.
+ */
+function OverviewPanel({ context }: { context: PanelExtensionContext }): ReactElement {
+  const [config, setConfig] = useState<OverviewConfig>(() =>
+    migrateOverviewConfig(context.initialState),
+  );
+  const [topics, setTopics] = useState<undefined | Immutable<Topic[]>>();
+  const [startTime, setStartTime] = useState<number | undefined>();
+  const [log] = useState(() => new ArrivalLog(config.windowSeconds));
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [timeRange, setTimeRange] = useState<{ start: number; end: number } | undefined>();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playhead = useRef<number | undefined>();
+  const pendingDraw = useRef<number | undefined>();
+  const drawRef = useRef<(() => void) | undefined>();
+
+  const rows = useMemo(() => {
+    const hidden = new Set(config.hiddenTopics);
+    return (topics ?? [])
+      .map((topic) => topic.name)
+      .filter((name) => !hidden.has(name))
+      .sort((a, b) => a.localeCompare(b));
+  }, [topics, config.hiddenTopics]);
+
+  useEffect(() => {
+    context.saveState(config);
+  }, [context, config]);
+
+  useEffect(() => {
+    log.setHorizon(config.windowSeconds);
+  }, [log, config.windowSeconds]);
+
+  useEffect(() => {
+    context.subscribe(rows.map((topic) => ({ topic })));
+  }, [context, rows]);
+
+  const settingsActionHandler = useCallback(
+    (action: SettingsTreeAction) => {
+      const allTopicNames = (topics ?? []).map((t) => t.name);
+      setConfig((prev) => applyOverviewSettingsAction(prev, action, allTopicNames));
+    },
+    [topics],
+  );
+
+  useEffect(() => {
+    context.updatePanelSettingsEditor({
+      actionHandler: settingsActionHandler,
+      nodes: buildOverviewSettingsNodes(config, topics),
+    });
+  }, [context, config, topics, settingsActionHandler]);
+
+  // Drawing happens outside React so message arrivals never re-render the component. The latest
+  // draw function is kept in a ref and run at most once per animation frame.
+  useEffect(() => {
+    drawRef.current = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const end = playhead.current ?? log.latest;
+      if (!canvas || !ctx || end == undefined) {
+        return;
+      }
+      const dpr = window.devicePixelRatio;
+      const { width, height } = viewport;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      const start = end - config.windowSeconds;
+      drawOverview(
+        ctx,
+        rows.map((topic) => ({ topic, arrivals: log.arrivals(topic) })),
+        {
+          mode: config.mode,
+          start,
+          end,
+          bucketSeconds: config.bucketSeconds,
+          width,
+          height,
+          firstRow: Math.floor(scrollTop / ROW_HEIGHT),
+          rowOffset: scrollTop % ROW_HEIGHT,
+        },
+      );
+      setTimeRange((prev) => (prev?.start === start && prev.end === end ? prev : { start, end }));
+    };
+  }, [log, rows, config, viewport, scrollTop]);
+
+  const scheduleDraw = useCallback(() => {
+    pendingDraw.current ??= requestAnimationFrame(() => {
+      pendingDraw.current = undefined;
+      drawRef.current?.();
+    });
+  }, []);
+
+  useEffect(() => {
+    scheduleDraw();
+  }, [scheduleDraw, rows, config, viewport, scrollTop]);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: element.clientWidth, height: element.clientHeight });
+    });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    context.onRender = (renderState, done) => {
+      setTopics(renderState.topics);
+      if (renderState.startTime) {
+        setStartTime(toSeconds(renderState.startTime));
+      }
+
+      const currentTime = renderState.currentTime ? toSeconds(renderState.currentTime) : undefined;
+      if (
+        renderState.didSeek === true ||
+        (currentTime != undefined &&
+          playhead.current != undefined &&
+          currentTime < playhead.current)
+      ) {
+        log.reset();
+      }
+      playhead.current = currentTime ?? playhead.current;
+
+      renderState.currentFrame?.forEach((messageEvent) => {
+        log.add(messageEvent.topic, toSeconds(messageEvent.receiveTime));
+      });
+
+      // The frame is fully ingested. Drawing waits for the next animation frame, which doesn't come
+      // while the panel is hidden, so playback mustn't wait for it.
+      done();
+      scheduleDraw();
+    };
+
+    context.watch("topics");
+    context.watch("currentFrame");
+    context.watch("currentTime");
+    context.watch("didSeek");
+    context.watch("startTime");
+
+    return () => {
+      if (pendingDraw.current != undefined) {
+        cancelAnimationFrame(pendingDraw.current);
+        pendingDraw.current = undefined;
+      }
+    };
+  }, [context, log, scheduleDraw]);
+
+  const handleCanvasClick = useCallback(
+    (event: MouseEvent<HTMLCanvasElement>) => {
+      if (!context.seekPlayback || !timeRange) {
+        return;
+      }
+      const rect = event.currentTarget.getBoundingClientRect();
+      const offset = event.clientX - rect.left - LABEL_WIDTH;
+      const plotWidth = rect.width - LABEL_WIDTH;
+      if (offset < 0 || plotWidth <= 0) {
+        return;
+      }
+      context.seekPlayback(
+        timeRange.start + (offset / plotWidth) * (timeRange.end - timeRange.start),
+      );
+    },
+    [context, timeRange],
+  );
+
+  const setMode = (mode: OverviewMode) => {
+    setConfig((prev) => ({ ...prev, mode }));
+  };
+  const formatTime = (time: number) =>
+    startTime != undefined ? `+${(time - startTime).toFixed(1)} s` : `${time.toFixed(1)} s`;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        height: "100%",
+        padding: "0.5rem",
+        boxSizing: "border-box",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          marginBottom: "0.5rem",
+          fontSize: "0.9em",
+        }}
+      >
+        <strong>Topic Activity Overview</strong>
+        <span style={{ color: "#666" }}>{rows.length} topics</span>
+        <span style={{ flex: 1 }} />
+        {(["raster", "heatmap"] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => {
+              setMode(mode);
+            }}
+            style={{
+              ...MODE_BUTTON_STYLE,
+              backgroundColor: config.mode === mode ? "#dbeafe" : "#f5f5f5",
+            }}
+          >
+            {mode === "raster" ? "Arrivals" : "Rate heatmap"}
+          </button>
+        ))}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          paddingLeft: `${LABEL_WIDTH}px`,
+          fontSize: "0.7em",
+          color: "#666",
+        }}
+      >
+        <span>{timeRange && formatTime(timeRange.start)}</span>
+        {config.mode === "heatmap" && (
+          <span>
+            {[0, 0.5, 1, 1.5].map((ratio) => (
+              <span key={ratio} style={{ marginRight: "0.5rem" }}>
+                <span
+                  style={{
+                    display: "inline-block",
+                    width: "8px",
+                    height: "8px",
+                    marginRight: "2px",
+                    backgroundColor: rateColor(ratio),
+                  }}
+                />
+                {ratio}×
+              </span>
+            ))}
+            of median rate
+          </span>
+        )}
+        <span>{timeRange && formatTime(timeRange.end)}</span>
+      </div>
+      <div
+        ref={scrollRef}
+        style={{ flex: 1, overflow: "auto", position: "relative", border: "1px solid #ddd" }}
+        onScroll={(event) => {
+          setScrollTop(event.currentTarget.scrollTop);
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          onClick={handleCanvasClick}
+          style={{
+            position: "sticky",
+            top: 0,
+            display: "block",
+            width: `${viewport.width}px`,
+            height: `${viewport.height}px`,
+            cursor: context.seekPlayback ? "pointer" : "default",
+          }}
+        />
+        <div style={{ height: `${Math.max(0, rows.length * ROW_HEIGHT - viewport.height)}px` }} />
+      </div>
+    </div>
+  );
+}
+
+export function initOverviewPanel(context: PanelExtensionContext): () => void {
+  const root = createRoot(context.panelElement);
+  root.render(<OverviewPanel context={context} />);
+
+  return () => {
+    root.unmount();
+  };
+}
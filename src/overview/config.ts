@@ -0,0 +1,69 @@
+import { RawState, isRecord, readEnum, readNumber, readStringArray } from "../stateReaders";
+
+/** "raster" draws a tick per message; "heatmap" colors buckets by their rate. */
+export type OverviewMode = "raster" | "heatmap";
+
+export const OVERVIEW_MODES: readonly OverviewMode[] = ["raster", "heatmap"];
+
+/**
+ * Persisted state of the overview panel. Stored through `context.saveState` and restored from
+ * `context.initialState`. Bump `OVERVIEW_CONFIG_VERSION` and add a migration whenever the shape
+ * changes.
+ */
+export interface OverviewConfig {
+  version: number;
+  mode: OverviewMode;
+  /** Seconds of history shown, ending at the playhead. */
+  windowSeconds: number;
+  /** Width in seconds of the heatmap buckets. */
+  bucketSeconds: number;
+  /** Topics left out of the overview. New topics are shown by default. */
+  hiddenTopics: string[];
+}
+
+export const OVERVIEW_CONFIG_VERSION = 1;
+
+export const DEFAULT_OVERVIEW_CONFIG: OverviewConfig = {
+  version: OVERVIEW_CONFIG_VERSION,
+  mode: "raster",
+  windowSeconds: 30,
+  bucketSeconds: 1,
+  hiddenTopics: [],
+};
+
+/** Migrations keyed by the version they upgrade from. */
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  0: (raw) => ({ ...raw, version: 1 }),
+};
+
+/** Upgrades saved overview state of any known version, falling back to defaults field by field. */
+export function migrateOverviewConfig(initialState: unknown): OverviewConfig {
+  if (!isRecord(initialState)) {
+    return DEFAULT_OVERVIEW_CONFIG;
+  }
+
+  let raw = initialState;
+  let version = readNumber(raw.version, 0);
+  while (version < OVERVIEW_CONFIG_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      break;
+    }
+    raw = migrate(raw);
+    version = readNumber(raw.version, version + 1);
+  }
+
+  return {
+    version: OVERVIEW_CONFIG_VERSION,
+    mode: readEnum(raw.mode, OVERVIEW_MODES, DEFAULT_OVERVIEW_CONFIG.mode),
+    windowSeconds: Math.max(
+      1,
+      readNumber(raw.windowSeconds, DEFAULT_OVERVIEW_CONFIG.windowSeconds),
+    ),
+    bucketSeconds: Math.max(
+      0.05,
+      readNumber(raw.bucketSeconds, DEFAULT_OVERVIEW_CONFIG.bucketSeconds),
+    ),
+    hiddenTopics: readStringArray(raw.hiddenTopics) ?? DEFAULT_OVERVIEW_CONFIG.hiddenTopics,
+  };
+}
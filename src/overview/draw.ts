@@ -0,0 +1,170 @@
+import { OverviewMode } from "./config";
+import { RingBuffer } from "../stats/RingBuffer";
+import { sortedMedian } from "../stats/descriptive";
+
+export const ROW_HEIGHT = 18;
+export const LABEL_WIDTH = 220;
+
+export interface OverviewRow {
+  topic: string;
+  arrivals: RingBuffer | undefined;
+}
+
+export interface OverviewView {
+  mode: OverviewMode;
+  /** Visible time range in seconds. */
+  start: number;
+  end: number;
+  bucketSeconds: number;
+  /** CSS pixel size of the canvas. */
+  width: number;
+  height: number;
+  /** Index of the topmost row and its offset in pixels above the canvas top. */
+  firstRow: number;
+  rowOffset: number;
+}
+
+/**
+ * Color for a bucket rate relative to the topic's typical rate: red when silent, green around 1,
+ * shading to blue when the topic runs faster than usual.
+ */
+export function rateColor(ratio: number): string {
+  const clamped = Math.max(0, Math.min(2, ratio));
+  const hue = clamped <= 1 ? clamped * 120 : 120 + (clamped - 1) * 90;
+  const lightness = ratio <= 0 ? 30 : 45;
+  return `hsl(${hue.toFixed(0)}, 70%, ${lightness}%)`;
+}
+
+/** Index of the first arrival at or after `time`, by binary search. */
+function lowerBound(arrivals: RingBuffer, time: number): number {
+  let low = 0;
+  let high = arrivals.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (arrivals.get(mid) < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function drawRaster(
+  ctx: CanvasRenderingContext2D,
+  arrivals: RingBuffer,
+  view: OverviewView,
+  x: (time: number) => number,
+  y: number,
+): void {
+  ctx.fillStyle = "#007acc";
+  let lastX = -1;
+  for (let i = lowerBound(arrivals, view.start); i < arrivals.length; i++) {
+    const time = arrivals.get(i);
+    if (time > view.end) {
+      break;
+    }
+    // Several arrivals in the same pixel column only need one tick.
+    const px = Math.floor(x(time));
+    if (px !== lastX) {
+      ctx.fillRect(px, y + 3, 1, ROW_HEIGHT - 6);
+      lastX = px;
+    }
+  }
+}
+
+function drawHeatmap(
+  ctx: CanvasRenderingContext2D,
+  arrivals: RingBuffer,
+  view: OverviewView,
+  x: (time: number) => number,
+  y: number,
+): void {
+  const { bucketSeconds } = view;
+  const firstBucket = Math.floor(view.start / bucketSeconds);
+  const bucketCount = Math.ceil(view.end / bucketSeconds) - firstBucket;
+  if (bucketCount <= 0 || arrivals.length === 0) {
+    return;
+  }
+  const counts = new Float64Array(bucketCount);
+  for (let i = lowerBound(arrivals, view.start); i < arrivals.length; i++) {
+    const time = arrivals.get(i);
+    if (time > view.end) {
+      break;
+    }
+    const bucket = Math.min(bucketCount - 1, Math.floor(time / bucketSeconds) - firstBucket);
+    counts[bucket]!++;
+  }
+
+  const nonEmpty = counts.filter((count) => count > 0).sort();
+  const typical = sortedMedian(nonEmpty);
+  if (typical === 0) {
+    return;
+  }
+  // Buckets before the topic's first arrival are left blank rather than shown as silent.
+  const firstArrival = arrivals.first();
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const bucketStart = (firstBucket + bucket) * bucketSeconds;
+    if (bucketStart + bucketSeconds < firstArrival) {
+      continue;
+    }
+    const visibleStart = Math.max(bucketStart, view.start);
+    const visibleEnd = Math.min(bucketStart + bucketSeconds, view.end);
+    // The buckets at either edge are only partly visible, so scale their expected count down.
+    const coverage = Math.max(1e-9, (visibleEnd - visibleStart) / bucketSeconds);
+    const left = x(visibleStart);
+    const right = x(visibleEnd);
+    ctx.fillStyle = rateColor(counts[bucket]! / (typical * coverage));
+    ctx.fillRect(left, y + 1, Math.max(1, right - left), ROW_HEIGHT - 2);
+  }
+}
+
+/** Draws the visible rows of the overview. `ctx` is expected to be scaled to CSS pixels. */
+export function drawOverview(
+  ctx: CanvasRenderingContext2D,
+  rows: readonly OverviewRow[],
+  view: OverviewView,
+): void {
+  const { width, height } = view;
+  ctx.clearRect(0, 0, width, height);
+  ctx.font = "11px sans-serif";
+  ctx.textBaseline = "middle";
+
+  const plotWidth = Math.max(1, width - LABEL_WIDTH);
+  const span = Math.max(view.end - view.start, 1e-9);
+  const x = (time: number) => LABEL_WIDTH + ((time - view.start) / span) * plotWidth;
+
+  for (let index = view.firstRow; index < rows.length; index++) {
+    const y = (index - view.firstRow) * ROW_HEIGHT - view.rowOffset;
+    if (y > height) {
+      break;
+    }
+    const row = rows[index]!;
+    if (index % 2 === 1) {
+      ctx.fillStyle = "rgba(0, 0, 0, 0.04)";
+      ctx.fillRect(0, y, width, ROW_HEIGHT);
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, y, LABEL_WIDTH - 6, ROW_HEIGHT);
+    ctx.clip();
+    ctx.fillStyle = "#333";
+    ctx.fillText(row.topic, 4, y + ROW_HEIGHT / 2);
+    ctx.restore();
+
+    if (row.arrivals) {
+      if (view.mode === "raster") {
+        drawRaster(ctx, row.arrivals, view, x, y);
+      } else {
+        drawHeatmap(ctx, row.arrivals, view, x, y);
+      }
+    }
+  }
+
+  ctx.strokeStyle = "#ccc";
+  ctx.beginPath();
+  ctx.moveTo(LABEL_WIDTH - 0.5, 0);
+  ctx.lineTo(LABEL_WIDTH - 0.5, height);
+  ctx.stroke();
+}
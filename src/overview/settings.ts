@@ -0,0 +1,120 @@
+import {
+  Immutable,
+  SettingsTreeAction,
+  SettingsTreeNode,
+  SettingsTreeNodes,
+  Topic,
+} from "@foxglove/extension";
+
+import { OVERVIEW_MODES, OverviewConfig, OverviewMode } from "./config";
+
+const MODE_LABELS: Record<OverviewMode, string> = {
+  raster: "Arrival raster",
+  heatmap: "Rate heatmap",
+};
+
+/** Builds the overview's settings sidebar: display options plus a visibility toggle per topic. */
+export function buildOverviewSettingsNodes(
+  config: OverviewConfig,
+  topics: Immutable<Topic[]> | undefined,
+): SettingsTreeNodes {
+  const hidden = new Set(config.hiddenTopics);
+  const topicChildren: Record<string, SettingsTreeNode> = {};
+  for (const topic of [...(topics ?? [])].sort((a, b) => a.name.localeCompare(b.name))) {
+    topicChildren[topic.name] = {
+      label: topic.name,
+      help: topic.schemaName,
+      visible: !hidden.has(topic.name),
+    };
+  }
+
+  return {
+    general: {
+      label: "General",
+      fields: {
+        mode: {
+          label: "Display",
+          input: "select",
+          value: config.mode,
+          options: OVERVIEW_MODES.map((value) => ({ label: MODE_LABELS[value], value })),
+        },
+        windowSeconds: {
+          label: "Time span (s)",
+          input: "number",
+          value: config.windowSeconds,
+          min: 1,
+          step: 5,
+          precision: 0,
+        },
+        bucketSeconds: {
+          label: "Heatmap bucket (s)",
+          input: "number",
+          value: config.bucketSeconds,
+          min: 0.05,
+          step: 0.5,
+          precision: 2,
+          disabled: config.mode !== "heatmap",
+          help: "Buckets are colored by their rate relative to the topic's median bucket rate: red is silent, green is normal, blue is faster than usual.",
+        },
+      },
+    },
+    topics: {
+      label: "Topics",
+      enableVisibilityFilter: true,
+      actions: [
+        { type: "action", id: "show-all", label: "Show all" },
+        { type: "action", id: "hide-all", label: "Hide all" },
+      ],
+      children: topicChildren,
+    },
+  };
+}
+
+/** Applies a settings sidebar action to the overview config and returns the new config. */
+export function applyOverviewSettingsAction(
+  config: OverviewConfig,
+  action: SettingsTreeAction,
+  allTopics: readonly string[],
+): OverviewConfig {
+  const { path } = action.payload;
+
+  if (action.action === "perform-node-action") {
+    switch (action.payload.id) {
+      case "show-all":
+        return { ...config, hiddenTopics: [] };
+      case "hide-all":
+        return { ...config, hiddenTopics: [...allTopics] };
+      default:
+        return config;
+    }
+  }
+
+  const { value } = action.payload;
+  const [section, key, field] = path;
+
+  if (section === "general" && key != undefined) {
+    switch (key) {
+      case "mode":
+        return OVERVIEW_MODES.includes(value as OverviewMode)
+          ? { ...config, mode: value as OverviewMode }
+          : config;
+      case "windowSeconds":
+        return typeof value === "number" && value >= 1
+          ? { ...config, windowSeconds: value }
+          : config;
+      case "bucketSeconds":
+        return typeof value === "number" && value >= 0.05
+          ? { ...config, bucketSeconds: value }
+          : config;
+      default:
+        return config;
+    }
+  }
+
+  if (section === "topics" && key != undefined && field === "visible") {
+    const hiddenTopics = config.hiddenTopics.filter((topic) => topic !== key);
+    return { ...config, hiddenTopics: value === true ? hiddenTopics : [...hiddenTopics, key] };
+  }
+
+  return config;
+}
@@ -0,0 +1,147 @@
+import { HealthStatus } from "./contracts";
+import {
+  REPORT_SECTIONS,
+  ReportInput,
+  anomalyCount,
+  buildCsvReport,
+  buildHtmlReport,
+  buildJsonReport,
+  buildMarkdownReport,
+  buildRawIntervalsCsv,
+  csvField,
+} from "./report";
+import { StatsEngine } from "./stats/StatsEngine";
+import { FrequencyStats } from "./stats/types";
+
+function steadyStats(topic: string, period: number): FrequencyStats {
+  const engine = new StatsEngine({ mode: "all" });
+  for (let i = 0; i < 50; i++) {
+    engine.addMessage(topic, { timestamp: i * period, sizeInBytes: 100 });
+  }
+  return engine.getSnapshot(topic, { outliers: { method: "stdDev", threshold: 2 } });
+}
+
+function input(overrides: Partial<ReportInput> = {}): ReportInput {
+  return {
+    stats: [steadyStats("/a", 0.1), steadyStats("/b", 0.5)],
+    sections: REPORT_SECTIONS,
+    settings: { windowMode: "all", syncTopics: ["/a"] },
+    outlierDescription: "Mean ± 2σ",
+    health: new Map<string, HealthStatus>([["/a", "ok"]]),
+    generatedAt: new Date("2024-01-02T03:04:05.000Z"),
+    ...overrides,
+  };
+}
+
+describe("csvField", () => {
+  it("quotes fields only when needed", () => {
+    expect(csvField("/a")).toBe("/a");
+    expect(csvField(1.5)).toBe("1.5");
+    expect(csvField("a,b")).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField("two\nlines")).toBe('"two\nlines"');
+    expect(csvField(" padded")).toBe('" padded"');
+  });
+});
+
+describe("anomalyCount", () => {
+  it("adds up every kind", () => {
+    expect(
+      anomalyCount({
+        counts: { duplicate: 1, outOfOrder: 2, backwardJump: 3, forwardJump: 4 },
+        recent: [],
+      }),
+    ).toBe(10);
+  });
+});
+
+describe("buildCsvReport", () => {
+  it("writes a row per topic with the selected sections' columns", () => {
+    const lines = buildCsvReport(input({ sections: ["frequency", "gaps"] }))
+      .trimEnd()
+      .split("\n");
+    expect(lines[0]).toBe(
+      "Topic,Message Count,Health,Average Frequency (Hz),Median Frequency (Hz)," +
+        "Standard Deviation (Hz),Min Frequency (Hz),Max Frequency (Hz),Total Samples," +
+        "Gap Count,Reference Period (ms)",
+    );
+    expect(lines[1]).toBe("/a,50,ok,10.0000,10.0000,0.0000,10.0000,10.0000,49,0,100.0000");
+    expect(lines[2]?.startsWith("/b,50,,2.0000,")).toBe(true);
+    expect(lines).toHaveLength(3);
+  });
+
+  it("leaves columns empty when a topic has no data for them", () => {
+    const csv = buildCsvReport(input({ stats: [steadyStats("/a", 0.1)], sections: ["latency"] }));
+    expect(csv.split("\n")[1]).toBe(`/a,50,ok${",".repeat(12)}`);
+  });
+});
+
+describe("buildRawIntervalsCsv", () => {
+  it("writes every arrival with the interval to the previous one", () => {
+    const timestamps: Record<string, number[]> = { "/a": [1, 1.5], "/b,c": [2] };
+    expect(buildRawIntervalsCsv(["/a", "/b,c"], (topic) => timestamps[topic] ?? [])).toBe(
+      [
+        "topic,timestamp_s,interval_s",
+        "/a,1.000000000,",
+        "/a,1.500000000,0.500000000",
+        '"/b,c",2.000000000,',
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("buildJsonReport", () => {
+  it("includes the settings and only the selected sections", () => {
+    const report = JSON.parse(buildJsonReport(input({ sections: ["gaps"] }))) as {
+      generatedAt: string;
+      settings: Record<string, unknown>;
+      topics: Record<string, unknown>[];
+    };
+    expect(report.generatedAt).toBe("2024-01-02T03:04:05.000Z");
+    expect(report.settings).toEqual({
+      windowMode: "all",
+      syncTopics: ["/a"],
+      outlierMethod: "Mean ± 2σ",
+    });
+    expect(Object.keys(report.topics[0]!).sort()).toEqual([
+      "gapCount",
+      "gaps",
+      "health",
+      "messageCount",
+      "referencePeriod",
+      "timestampSources",
+      "topic",
+    ]);
+  });
+});
+
+describe("buildMarkdownReport", () => {
+  it("writes a summary table and text histograms", () => {
+    const markdown = buildMarkdownReport(input({ sections: ["frequency", "histograms"] }));
+    expect(markdown).toContain("- **Outlier method:** Mean ± 2σ");
+    expect(markdown).toContain('- **syncTopics:** ["/a"]');
+    expect(markdown).toContain("| Topic | Messages | Health | Avg Hz |");
+    expect(markdown).toContain("| /a | 50 | OK | 10.00 |");
+    expect(markdown).toContain("| /b | 50 | – | 2.00 |");
+    expect(markdown).toContain("## /a\n\n```\n");
+  });
+
+  it("escapes pipes in table cells", () => {
+    const markdown = buildMarkdownReport(input({ stats: [steadyStats("/a|b", 0.1)] }));
+    expect(markdown).toContain("| /a\\|b |");
+  });
+});
+
+describe("buildHtmlReport", () => {
+  it("escapes text and draws histograms as inline SVG", () => {
+    const html = buildHtmlReport(input({ stats: [steadyStats("/a<b>", 0.1)] }));
+    expect(html).toContain("<td>/a&lt;b&gt;</td>");
+    expect(html).toContain("<h2>/a&lt;b&gt;</h2>\n<svg");
+    expect(html).not.toContain("/a<b>");
+  });
+
+  it("leaves out histograms when not selected", () => {
+    expect(buildHtmlReport(input({ sections: ["frequency"] }))).not.toContain("<svg");
+  });
+});
@@ -0,0 +1,490 @@
+import { HealthStatus } from "./contracts";
+import { createHistogram } from "./stats/histogram";
+import { describeArrivalPattern } from "./stats/pattern";
+import {
+  FrequencyStats,
+  LATENCY_KINDS,
+  LatencyKind,
+  PeriodStats,
+  SizeStats,
+  TIMESTAMP_ANOMALY_KINDS,
+  TimestampAnomalies,
+  TimestampAnomalyKind,
+} from "./stats/types";
+
+export type ReportFormat = "csv" | "json" | "markdown" | "html" | "raw";
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["csv", "json", "markdown", "html", "raw"];
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: "Summary CSV",
+  json: "JSON",
+  markdown: "Markdown report",
+  html: "HTML report",
+  raw: "Raw intervals CSV",
+};
+
+/** Groups of metrics that can be included in or left out of an export. */
+export type ReportSection =
+  | "frequency"
+  | "outliers"
+  | "period"
+  | "size"
+  | "latency"
+  | "gaps"
+  | "anomalies"
+  | "histograms";
+
+export const REPORT_SECTIONS: readonly ReportSection[] = [
+  "frequency",
+  "outliers",
+  "period",
+  "size",
+  "latency",
+  "gaps",
+  "anomalies",
+  "histograms",
+];
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  frequency: "Frequency",
+  outliers: "Outliers",
+  period: "Period, jitter & pattern",
+  size: "Size & bandwidth",
+  latency: "Latency",
+  gaps: "Gaps",
+  anomalies: "Timestamp anomalies",
+  histograms: "Histograms",
+};
+
+export const TIMESTAMP_ANOMALY_LABELS: Record<TimestampAnomalyKind, string> = {
+  duplicate: "Duplicate",
+  outOfOrder: "Out of order",
+  backwardJump: "Clock jump back",
+  forwardJump: "Clock jump forward",
+};
+
+/** Anomalies of every kind. */
+export function anomalyCount(anomalies: TimestampAnomalies): number {
+  return TIMESTAMP_ANOMALY_KINDS.reduce((sum, kind) => sum + anomalies.counts[kind], 0);
+}
+
+export const LATENCY_LABELS: Record<LatencyKind, string> = {
+  publish: "Receive − publish",
+  header: "Receive − header stamp",
+};
+
+/** What an export covers, shared by every format. */
+export interface ReportInput {
+  stats: readonly FrequencyStats[];
+  sections: readonly ReportSection[];
+  /** Analysis settings the statistics were computed with, written as-is. */
+  settings: Record<string, unknown>;
+  outlierDescription: string;
+  health: ReadonlyMap<string, HealthStatus>;
+  generatedAt: Date;
+}
+
+interface Column {
+  header: string;
+  value: (stats: FrequencyStats, input: ReportInput) => string | number;
+}
+
+const PERIOD_COLUMNS: [string, keyof Omit<PeriodStats, "samples" | "count">][] = [
+  ["Mean", "mean"],
+  ["Median", "median"],
+  ["Std Dev", "stdDeviation"],
+  ["Min", "min"],
+  ["Max", "max"],
+  ["P90", "p90"],
+  ["P99", "p99"],
+  ["P99.9", "p999"],
+  ["Jitter Peak-to-Peak", "jitter"],
+];
+
+const SIZE_COLUMNS: [string, keyof SizeStats][] = [
+  ["Mean Size (B)", "mean"],
+  ["Min Size (B)", "min"],
+  ["Max Size (B)", "max"],
+  ["P95 Size (B)", "p95"],
+  ["P99 Size (B)", "p99"],
+  ["Bandwidth (B/s)", "bandwidth"],
+  ["Average Bandwidth (B/s)", "averageBandwidth"],
+  ["Total Bytes", "totalBytes"],
+];
+
+const LATENCY_COLUMNS: [string, "mean" | "median" | "min" | "max" | "p95" | "p99"][] = [
+  ["Mean", "mean"],
+  ["Median", "median"],
+  ["Min", "min"],
+  ["Max", "max"],
+  ["P95", "p95"],
+  ["P99", "p99"],
+];
+
+/** Summary CSV columns per section, in export order. Histograms have no columns. */
+const CSV_COLUMNS: Record<ReportSection, Column[]> = {
+  frequency: [
+    { header: "Average Frequency (Hz)", value: (s) => s.averageFrequency.toFixed(4) },
+    { header: "Median Frequency (Hz)", value: (s) => s.medianFrequency.toFixed(4) },
+    { header: "Standard Deviation (Hz)", value: (s) => s.stdDeviation.toFixed(4) },
+    { header: "Min Frequency (Hz)", value: (s) => s.minFrequency.toFixed(4) },
+    { header: "Max Frequency (Hz)", value: (s) => s.maxFrequency.toFixed(4) },
+    { header: "Total Samples", value: (s) => s.frequencies.length },
+  ],
+  outliers: [
+    { header: "Filtered Samples", value: (s) => s.filteredFrequencies.length },
+    { header: "Outlier Count", value: (s) => s.outlierCount },
+    { header: "Outlier Method", value: (_, input) => input.outlierDescription },
+    { header: "Outlier Lower Bound (Hz)", value: (s) => s.outlierBounds?.lower.toFixed(4) ?? "" },
+    { header: "Outlier Upper Bound (Hz)", value: (s) => s.outlierBounds?.upper.toFixed(4) ?? "" },
+  ],
+  period: [
+    ...PERIOD_COLUMNS.map(
+      ([label, key]): Column => ({
+        header: `Period ${label} (ms)`,
+        value: (s) => (s.period ? (s.period[key] * 1000).toFixed(4) : ""),
+      }),
+    ),
+    {
+      header: "Period Coefficient of Variation",
+      value: (s) => s.period?.coefficientOfVariation.toFixed(6) ?? "",
+    },
+    { header: "Arrival Pattern", value: (s) => s.pattern?.kind ?? "" },
+    {
+      header: "Dominant Period (ms)",
+      value: (s) =>
+        s.pattern?.dominantPeriod != undefined ? (s.pattern.dominantPeriod * 1000).toFixed(4) : "",
+    },
+    { header: "Burst Size", value: (s) => s.pattern?.bursts?.medianSize ?? "" },
+    {
+      header: "Intra-burst Rate (Hz)",
+      value: (s) => s.pattern?.bursts?.intraBurstRate.toFixed(3) ?? "",
+    },
+    { header: "Burst Rate (Hz)", value: (s) => s.pattern?.bursts?.burstRate.toFixed(3) ?? "" },
+  ],
+  size: SIZE_COLUMNS.map(([label, key]) => ({
+    header: label,
+    value: (s) => (s.size ? s.size[key].toFixed(1) : ""),
+  })),
+  latency: LATENCY_KINDS.flatMap((kind) =>
+    LATENCY_COLUMNS.map(
+      ([label, key]): Column => ({
+        header: `${LATENCY_LABELS[kind]} Latency ${label} (ms)`,
+        value: (s) => {
+          const latency = s.latency[kind];
+          return latency ? (latency[key] * 1000).toFixed(4) : "";
+        },
+      }),
+    ),
+  ),
+  gaps: [
+    { header: "Gap Count", value: (s) => s.gapCount },
+    { header: "Reference Period (ms)", value: (s) => (s.referencePeriod * 1000).toFixed(4) },
+  ],
+  anomalies: TIMESTAMP_ANOMALY_KINDS.map((kind) => ({
+    header: `${TIMESTAMP_ANOMALY_LABELS[kind]} Count`,
+    value: (s) => s.anomalies.counts[kind],
+  })),
+  histograms: [],
+};
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break, doubling embedded quotes
+ * as RFC 4180 requires.
+ */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(fields: readonly (string | number)[]): string {
+  return fields.map(csvField).join(",");
+}
+
+/** One row per topic with the columns of the selected sections. */
+export function buildCsvReport(input: ReportInput): string {
+  const columns = input.sections.flatMap((section) => CSV_COLUMNS[section]);
+  return (
+    [
+      csvRow(["Topic", "Message Count", "Health", ...columns.map((column) => column.header)]),
+      ...input.stats.map((stats) =>
+        csvRow([
+          stats.topic,
+          stats.messageCount,
+          input.health.get(stats.topic) ?? "",
+          ...columns.map((column) => column.value(stats, input)),
+        ]),
+      ),
+    ].join("\n") + "\n"
+  );
+}
+
+/**
+ * Every arrival of every topic with the interval to the previous one, in long format so it loads
+ * straight into a data frame and can be grouped by topic.
+ */
+export function buildRawIntervalsCsv(
+  topics: readonly string[],
+  timestamps: (topic: string) => readonly number[],
+): string {
+  const lines = [csvRow(["topic", "timestamp_s", "interval_s"])];
+  for (const topic of topics) {
+    const times = timestamps(topic);
+    const field = csvField(topic);
+    times.forEach((time, index) => {
+      const interval = index > 0 ? (time - times[index - 1]!).toFixed(9) : "";
+      lines.push(`${field},${time.toFixed(9)},${interval}`);
+    });
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** The fields of `stats` belonging to the selected sections. */
+function topicModel(stats: FrequencyStats, input: ReportInput): Record<string, unknown> {
+  const selected = new Set(input.sections);
+  const model: Record<string, unknown> = {
+    topic: stats.topic,
+    messageCount: stats.messageCount,
+    health: input.health.get(stats.topic),
+    timestampSources: stats.timestampSources,
+  };
+  if (selected.has("frequency")) {
+    Object.assign(model, {
+      averageFrequency: stats.averageFrequency,
+      medianFrequency: stats.medianFrequency,
+      stdDeviation: stats.stdDeviation,
+      minFrequency: stats.minFrequency,
+      maxFrequency: stats.maxFrequency,
+      frequencies: stats.frequencies,
+      timeline: stats.timeline,
+      timelineResolution: stats.timelineResolution,
+    });
+  }
+  if (selected.has("outliers")) {
+    Object.assign(model, {
+      outlierCount: stats.outlierCount,
+      outlierBounds: stats.outlierBounds,
+      outlierFrequencies: stats.outlierFrequencies,
+      filteredFrequencies: stats.filteredFrequencies,
+    });
+  }
+  if (selected.has("period")) {
+    model.period = stats.period;
+    model.pattern = stats.pattern;
+  }
+  if (selected.has("size")) {
+    model.size = stats.size;
+  }
+  if (selected.has("latency")) {
+    model.latency = stats.latency;
+  }
+  if (selected.has("gaps")) {
+    Object.assign(model, {
+      gaps: stats.gaps,
+      gapCount: stats.gapCount,
+      referencePeriod: stats.referencePeriod,
+    });
+  }
+  if (selected.has("anomalies")) {
+    model.anomalies = stats.anomalies;
+  }
+  return model;
+}
+
+/** The full statistics model with the settings it was computed with. */
+export function buildJsonReport(input: ReportInput): string {
+  return (
+    JSON.stringify(
+      {
+        generatedAt: input.generatedAt.toISOString(),
+        settings: { ...input.settings, outlierMethod: input.outlierDescription },
+        topics: input.stats.map((stats) => topicModel(stats, input)),
+      },
+      undefined,
+      2,
+    ) + "\n"
+  );
+}
+
+interface SummaryColumn {
+  header: string;
+  value: (stats: FrequencyStats) => string;
+}
+
+const fixed = (value: number | undefined, digits: number) => value?.toFixed(digits) ?? "–";
+
+/** A compact subset of the CSV columns for the human-readable reports. */
+const SUMMARY_COLUMNS: Partial<Record<ReportSection, SummaryColumn[]>> = {
+  frequency: [
+    { header: "Avg Hz", value: (s) => fixed(s.averageFrequency, 2) },
+    { header: "Median Hz", value: (s) => fixed(s.medianFrequency, 2) },
+    { header: "Std Dev", value: (s) => fixed(s.stdDeviation, 3) },
+    { header: "Min Hz", value: (s) => fixed(s.minFrequency, 2) },
+    { header: "Max Hz", value: (s) => fixed(s.maxFrequency, 2) },
+  ],
+  outliers: [{ header: "Outliers", value: (s) => String(s.outlierCount) }],
+  period: [
+    { header: "Period p99 (ms)", value: (s) => fixed(s.period && s.period.p99 * 1000, 2) },
+    { header: "Jitter (ms)", value: (s) => fixed(s.period && s.period.jitter * 1000, 2) },
+    {
+      header: "Pattern",
+      value: (s) => (s.pattern ? describeArrivalPattern(s.pattern) : "–"),
+    },
+  ],
+  size: [{ header: "Bandwidth (B/s)", value: (s) => fixed(s.size?.bandwidth, 0) }],
+  latency: LATENCY_KINDS.map((kind) => ({
+    header: `${LATENCY_LABELS[kind]} p95 (ms)`,
+    value: (s: FrequencyStats) => fixed(s.latency[kind] && s.latency[kind].p95 * 1000, 2),
+  })),
+  gaps: [{ header: "Gaps", value: (s) => String(s.gapCount) }],
+  anomalies: [{ header: "Timestamp anomalies", value: (s) => String(anomalyCount(s.anomalies)) }],
+};
+
+function summaryTable(input: ReportInput): { headers: string[]; rows: string[][] } {
+  const columns = input.sections.flatMap((section) => SUMMARY_COLUMNS[section] ?? []);
+  return {
+    headers: ["Topic", "Messages", "Health", ...columns.map((column) => column.header)],
+    rows: input.stats.map((stats) => [
+      stats.topic,
+      String(stats.messageCount),
+      input.health.get(stats.topic)?.toUpperCase() ?? "–",
+      ...columns.map((column) => column.value(stats)),
+    ]),
+  };
+}
+
+function settingsLines(input: ReportInput): [string, string][] {
+  return [
+    ["Outlier method", input.outlierDescription],
+    ...Object.entries(input.settings).map(([key, value]): [string, string] => [
+      key,
+      typeof value === "string" ? value : JSON.stringify(value),
+    ]),
+  ];
+}
+
+const HISTOGRAM_BINS = 20;
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+/** Frequency histogram drawn with block characters so it survives being pasted into a ticket. */
+function textHistogram(stats: FrequencyStats): string {
+  const bins = createHistogram(stats.frequencies, HISTOGRAM_BINS);
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  return bins
+    .map((bin) => {
+      const range = `${bin.binStart.toFixed(2)}–${bin.binEnd.toFixed(2)} Hz`.padStart(22);
+      const bar = "█".repeat(Math.round((bin.count / maxCount) * 40));
+      return `${range} | ${bar} ${bin.count}`;
+    })
+    .join("\n");
+}
+
+export function buildMarkdownReport(input: ReportInput): string {
+  const { headers, rows } = summaryTable(input);
+  const lines = [
+    "# Topic frequency report",
+    "",
+    `Generated ${input.generatedAt.toISOString()}`,
+    "",
+    ...settingsLines(input).map(([key, value]) => `- **${key}:** ${value}`),
+    "",
+    `| ${headers.map(markdownCell).join(" | ")} |`,
+    `| ${headers.map((_, index) => (index === 0 ? "---" : "---:")).join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ];
+  if (input.sections.includes("histograms")) {
+    for (const stats of input.stats) {
+      if (stats.frequencies.length === 0) {
+        continue;
+      }
+      lines.push("", `## ${stats.topic}`, "", "```", textHistogram(stats), "```");
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Standalone SVG bar chart of a topic's frequencies, outliers stacked in red. */
+function svgHistogram(stats: FrequencyStats): string {
+  const bins = createHistogram(stats.filteredFrequencies, HISTOGRAM_BINS, stats.outlierFrequencies);
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  const width = 600;
+  const height = 120;
+  const barWidth = width / bins.length;
+  const bars = bins.map((bin, index) => {
+    const total = (bin.count / maxCount) * height;
+    const outliers = (bin.highlightedCount / maxCount) * height;
+    const x = (index * barWidth).toFixed(1);
+    const w = Math.max(1, barWidth - 1).toFixed(1);
+    const title = `<title>${bin.binStart.toFixed(2)}–${bin.binEnd.toFixed(2)} Hz: ${bin.count}</title>`;
+    return (
+      `<g>${title}<rect x="${x}" y="${(height - total).toFixed(1)}" width="${w}" ` +
+      `height="${(total - outliers).toFixed(1)}" fill="#4CAF50"/>` +
+      `<rect x="${x}" y="${(height - outliers).toFixed(1)}" width="${w}" ` +
+      `height="${outliers.toFixed(1)}" fill="#E53935"/></g>`
+    );
+  });
+  const first = bins[0];
+  const last = bins[bins.length - 1];
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height + 16}" ` +
+    `viewBox="0 0 ${width} ${height + 16}" font-size="11" font-family="sans-serif">` +
+    bars.join("") +
+    (first && last
+      ? `<text x="0" y="${height + 13}">${first.binStart.toFixed(2)} Hz</text>` +
+        `<text x="${width}" y="${height + 13}" text-anchor="end">${last.binEnd.toFixed(2)} Hz</text>`
+      : "") +
+    "</svg>"
+  );
+}
+
+/** Self-contained HTML page; histograms are inline SVG so the file can be attached as-is. */
+export function buildHtmlReport(input: ReportInput): string {
+  const { headers, rows } = summaryTable(input);
+  const histograms = input.sections.includes("histograms")
+    ? input.stats
+        .filter((stats) => stats.frequencies.length > 0)
+        .map((stats) => `<h2>${escapeHtml(stats.topic)}</h2>\n${svgHistogram(stats)}`)
+    : [];
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Topic frequency report</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+<h1>Topic frequency report</h1>
+<p>Generated ${escapeHtml(input.generatedAt.toISOString())}</p>
+<ul>
+${settingsLines(input)
+  .map(([key, value]) => `<li><strong>${escapeHtml(key)}:</strong> ${escapeHtml(value)}</li>`)
+  .join("\n")}
+</ul>
+<table>
+<thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("\n")}
+</tbody>
+</table>
+${histograms.join("\n")}
+</body>
+</html>
+`;
+}
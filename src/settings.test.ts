@@ -0,0 +1,101 @@
+import { SettingsTreeAction } from "@foxglove/extension";
+
+import { DEFAULT_CONFIG, PanelConfig } from "./config";
+import { applySettingsAction, buildSettingsNodes } from "./settings";
+
+const CONFIG: PanelConfig = { ...DEFAULT_CONFIG, selectedTopics: ["/a"] };
+
+function update(path: string[], value: string | number | boolean): SettingsTreeAction {
+  if (typeof value === "string") {
+    return { action: "update", payload: { path, input: "string", value } };
+  }
+  if (typeof value === "number") {
+    return { action: "update", payload: { path, input: "number", value } };
+  }
+  return { action: "update", payload: { path, input: "boolean", value } };
+}
+
+describe("buildSettingsNodes", () => {
+  it("builds a node per known or selected topic", () => {
+    const nodes = buildSettingsNodes({ ...CONFIG, selectedTopics: ["/a", "/gone"] }, [
+      { name: "/b", schemaName: "std_msgs/String", datatype: "std_msgs/String" },
+      { name: "/a", schemaName: "sensor_msgs/Imu", datatype: "sensor_msgs/Imu" },
+    ]);
+    const children = nodes.topics?.children ?? {};
+    expect(Object.keys(children)).toEqual(["/a", "/b", "/gone"]);
+    expect(children["/a"]?.visible).toBe(true);
+    expect(children["/a"]?.help).toBe("sensor_msgs/Imu");
+    expect(children["/b"]?.visible).toBe(false);
+  });
+
+  it("shows only the selected outlier method's parameter", () => {
+    const fields = buildSettingsNodes({ ...CONFIG, outlierMethod: "mad" }, []).general?.fields;
+    expect(fields?.madThreshold?.value).toBe(DEFAULT_CONFIG.madThreshold);
+    expect(fields?.outlierThreshold).toBeUndefined();
+  });
+
+  it("says when diagnostics can't be published", () => {
+    const help = (canPublish: boolean) =>
+      buildSettingsNodes(CONFIG, [], canPublish).diagnostics?.fields?.publishDiagnostics?.help;
+    expect(help(false)).toMatch(/does not support publishing/);
+    expect(help(true)).toMatch(/DiagnosticArray/);
+  });
+});
+
+describe("applySettingsAction", () => {
+  it("applies valid general settings", () => {
+    expect(applySettingsAction(CONFIG, update(["general", "sortBy"], "frequency"), []).sortBy).toBe(
+      "frequency",
+    );
+    expect(
+      applySettingsAction(CONFIG, update(["general", "windowSize"], 99.6), []).windowSize,
+    ).toBe(100);
+    expect(
+      applySettingsAction(CONFIG, update(["general", "showHistogram"], true), []).showHistogram,
+    ).toBe(true);
+  });
+
+  it("ignores values the field doesn't allow", () => {
+    expect(applySettingsAction(CONFIG, update(["general", "sortBy"], "nonsense"), [])).toBe(CONFIG);
+    expect(applySettingsAction(CONFIG, update(["general", "windowSize"], 1), [])).toBe(CONFIG);
+    expect(applySettingsAction(CONFIG, update(["general", "outlierThreshold"], 50), [])).toBe(
+      CONFIG,
+    );
+    expect(applySettingsAction(CONFIG, update(["general", "unknown"], 1), [])).toBe(CONFIG);
+  });
+
+  it("sets the outlier threshold of the method it belongs to", () => {
+    const config = applySettingsAction(CONFIG, update(["general", "iqrFactor"], 3), []);
+    expect(config.iqrFactor).toBe(3);
+    expect(config.outlierThreshold).toBe(CONFIG.outlierThreshold);
+  });
+
+  it("edits per-topic settings and clears them when emptied", () => {
+    let config = applySettingsAction(CONFIG, update(["topics", "/a", "expectedRate"], 10), []);
+    config = applySettingsAction(config, update(["topics", "/a", "alias"], "IMU"), []);
+    expect(config.topicConfigs["/a"]).toEqual({ expectedRate: 10, alias: "IMU" });
+    config = applySettingsAction(config, update(["topics", "/a", "expectedRate"], 0), []);
+    expect(config.topicConfigs["/a"]?.expectedRate).toBeUndefined();
+  });
+
+  it("selects and deselects topics", () => {
+    const deselected = applySettingsAction(CONFIG, update(["topics", "/a", "visible"], false), []);
+    expect(deselected.selectedTopics).toEqual([]);
+    const selected = applySettingsAction(deselected, update(["topics", "/b", "visible"], true), []);
+    expect(selected.selectedTopics).toEqual(["/b"]);
+  });
+
+  it("splits the pattern field on commas", () => {
+    const config = applySettingsAction(CONFIG, update(["topics", "patterns"], " /a/*, ,!/b "), []);
+    expect(config.topicPatterns).toEqual(["/a/*", "!/b"]);
+  });
+
+  it("performs the select-all and deselect-all actions", () => {
+    const action = (id: string): SettingsTreeAction => ({
+      action: "perform-node-action",
+      payload: { id, path: ["topics"] },
+    });
+    expect(applySettingsAction(CONFIG, action("select-all"), []).topicPatterns).toEqual(["**"]);
+    expect(applySettingsAction(CONFIG, action("deselect-all"), []).selectedTopics).toEqual([]);
+  });
+});
@@ -0,0 +1,784 @@
+import {
+  Immutable,
+  SettingsTreeAction,
+  SettingsTreeField,
+  SettingsTreeNode,
+  SettingsTreeNodes,
+  Topic,
+} from "@foxglove/extension";
+
+import {
+  ANALYSIS_SCOPES,
+  AnalysisScope,
+  HISTOGRAM_UNITS,
+  HistogramUnit,
+  OUTLIER_THRESHOLD_FIELDS,
+  PanelConfig,
+  SORT_OPTIONS,
+  SortBy,
+  TopicConfig,
+  WINDOW_MODES,
+  WindowMode,
+  deselectAllTopics,
+  resolveSelectedTopics,
+  selectAllTopics,
+  setTopicSelected,
+} from "./config";
+import { STALE_MODES, StaleMode } from "./stale";
+import { OUTLIER_METHODS, OUTLIER_METHOD_LABELS, OutlierMethod } from "./stats/outliers";
+import { TIMESTAMP_SOURCES, TIMESTAMP_SOURCE_LABELS, TimestampSource } from "./timestamps";
+import { TopicPatternTarget } from "./topicFilter";
+import { VARIABLE_METRICS, VariableMetric } from "./variables";
+
+const SORT_LABELS: Record<SortBy, string> = {
+  topic: "Topic name",
+  frequency: "Frequency",
+  outliers: "Outlier count",
+  bandwidth: "Bandwidth",
+  stale: "Stale first",
+};
+
+const STALE_MODE_LABELS: Record<StaleMode, string> = {
+  timeout: "Fixed timeout",
+  periods: "Multiple of expected period",
+};
+
+const WINDOW_MODE_LABELS: Record<WindowMode, string> = {
+  count: "Last N messages",
+  time: "Last N seconds",
+  playhead: "Last N seconds before playhead",
+};
+
+const ANALYSIS_SCOPE_LABELS: Record<AnalysisScope, string> = {
+  playback: "During playback",
+  recording: "Entire recording",
+};
+
+/** Input for each outlier method's parameter; only the selected method's is shown. */
+export const OUTLIER_THRESHOLD_INPUTS: Record<
+  OutlierMethod,
+  { label: string; min: number; max?: number; step: number; help: string }
+> = {
+  stdDev: {
+    label: "Outlier threshold (σ)",
+    min: 0.5,
+    max: 5,
+    step: 0.1,
+    help: "Frequencies further than this many standard deviations from the mean are outliers.",
+  },
+  mad: {
+    label: "Outlier threshold (MAD)",
+    min: 0.5,
+    step: 0.5,
+    help: "Frequencies further than this many scaled median absolute deviations from the median are outliers. 3.5 is a common choice.",
+  },
+  iqr: {
+    label: "Fence factor (× IQR)",
+    min: 0,
+    step: 0.5,
+    help: "Frequencies more than this many interquartile ranges below the first or above the third quartile are outliers. 1.5 gives Tukey's inner fences, 3 the outer ones.",
+  },
+  percentile: {
+    label: "Trim per tail (%)",
+    min: 0,
+    max: 49,
+    step: 0.5,
+    help: "This percentage of the lowest and of the highest frequencies are outliers.",
+  },
+  expectedRate: {
+    label: "Allowed deviation (%)",
+    min: 0,
+    step: 5,
+    help: "Frequencies deviating more than this from the expected rate are outliers. Topics without an expected rate use their median.",
+  },
+};
+
+/** Sets `method`'s parameter, ignoring values outside the range its input allows. */
+export function setOutlierThreshold(
+  config: PanelConfig,
+  method: OutlierMethod,
+  value: unknown,
+): PanelConfig {
+  const { min, max = Infinity } = OUTLIER_THRESHOLD_INPUTS[method];
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+    ? { ...config, [OUTLIER_THRESHOLD_FIELDS[method]]: value }
+    : config;
+}
+
+function outlierThresholdField(config: PanelConfig): SettingsTreeField {
+  const input = OUTLIER_THRESHOLD_INPUTS[config.outlierMethod];
+  return {
+    ...input,
+    input: "number",
+    value: config[OUTLIER_THRESHOLD_FIELDS[config.outlierMethod]],
+    precision: 1,
+  };
+}
+
+const HISTOGRAM_UNIT_LABELS: Record<HistogramUnit, string> = {
+  hz: "Frequency (Hz)",
+  ms: "Period (ms)",
+};
+
+const VARIABLE_METRIC_LABELS: Record<VariableMetric, string> = {
+  hz: "Average rate (hz)",
+  median_hz: "Median rate (median_hz)",
+  min_hz: "Minimum rate (min_hz)",
+  max_hz: "Maximum rate (max_hz)",
+  outliers: "Outlier count (outliers)",
+  gaps: "Gap count (gaps)",
+  bandwidth: "Bandwidth, bytes/s (bandwidth)",
+  health: "Contract health: ok / warn / fail (health)",
+  ok: "Meets contract: true / false (ok)",
+};
+
+const TIMESTAMP_SOURCE_OPTIONS = TIMESTAMP_SOURCES.map((value) => ({
+  label: TIMESTAMP_SOURCE_LABELS[value],
+  value,
+}));
+
+function isTimestampSource(value: unknown): value is TimestampSource {
+  return TIMESTAMP_SOURCES.includes(value as TimestampSource);
+}
+
+function buildTopicNode(
+  topic: string,
+  schemaName: string | undefined,
+  selected: boolean,
+  config: PanelConfig,
+): SettingsTreeNode {
+  const topicConfig = config.topicConfigs[topic];
+  const timestampSource = topicConfig?.timestampSource ?? config.timestampSource;
+  return {
+    label: topic,
+    help: schemaName,
+    visible: selected,
+    defaultExpansionState: "collapsed",
+    fields: {
+      alias: {
+        label: "Display name",
+        input: "string",
+        value: topicConfig?.alias,
+        placeholder: topic,
+      },
+      expectedRate: {
+        label: "Expected rate (Hz)",
+        input: "number",
+        value: topicConfig?.expectedRate,
+        min: 0,
+        step: 1,
+        precision: 3,
+        placeholder: "not set",
+      },
+      tolerancePercent: {
+        label: "Tolerance (%)",
+        input: "number",
+        value: topicConfig?.tolerancePercent,
+        min: 0,
+        step: 1,
+        precision: 1,
+        placeholder: `${config.defaultTolerancePercent}`,
+        disabled: topicConfig?.expectedRate == undefined,
+      },
+      timestampSource: {
+        label: "Timestamp",
+        input: "select",
+        value: topicConfig?.timestampSource,
+        options: [
+          {
+            label: `Panel default (${TIMESTAMP_SOURCE_LABELS[config.timestampSource]})`,
+            value: undefined,
+          },
+          ...TIMESTAMP_SOURCE_OPTIONS,
+        ],
+      },
+      timestampField: {
+        label: "Timestamp field",
+        input: "string",
+        value: topicConfig?.timestampField,
+        placeholder: config.timestampField,
+        disabled: timestampSource !== "messageField",
+      },
+      splitPath: {
+        label: "Split by field",
+        input: "string",
+        value: topicConfig?.splitPath,
+        placeholder: "e.g. header.frame_id",
+        help: "Message path whose value splits the topic into sub-streams with their own statistics. Use [] to visit every array element, e.g. transforms[].child_frame_id.",
+      },
+    },
+  };
+}
+
+/**
+ * Builds the settings sidebar: a global section, diagnostics publishing and one node per known
+ * topic. `canPublish` tells whether the current data source supports publishing.
+ */
+export function buildSettingsNodes(
+  config: PanelConfig,
+  topics: Immutable<Topic[]> | undefined,
+  canPublish = false,
+): SettingsTreeNodes {
+  const selected = new Set(resolveSelectedTopics(config, topics));
+  const schemaNames = new Map((topics ?? []).map((t) => [t.name, t.schemaName]));
+  // Keep nodes for selected topics that are not currently advertised so they can be deselected.
+  const topicNames = [...new Set([...schemaNames.keys(), ...selected])].sort();
+
+  const recording = config.analysisScope === "recording";
+  const topicChildren: Record<string, SettingsTreeNode> = {};
+  for (const topic of topicNames) {
+    topicChildren[topic] = buildTopicNode(
+      topic,
+      schemaNames.get(topic),
+      selected.has(topic),
+      config,
+    );
+  }
+
+  return {
+    general: {
+      label: "General",
+      fields: {
+        outlierMethod: {
+          label: "Outlier method",
+          input: "select",
+          value: config.outlierMethod,
+          options: OUTLIER_METHODS.map((value) => ({ label: OUTLIER_METHOD_LABELS[value], value })),
+        },
+        [OUTLIER_THRESHOLD_FIELDS[config.outlierMethod]]: outlierThresholdField(config),
+        sortBy: {
+          label: "Sort by",
+          input: "select",
+          value: config.sortBy,
+          options: SORT_OPTIONS.map((value) => ({ label: SORT_LABELS[value], value })),
+        },
+        analysisScope: {
+          label: "Analyze",
+          input: "select",
+          value: config.analysisScope,
+          options: ANALYSIS_SCOPES.map((value) => ({ label: ANALYSIS_SCOPE_LABELS[value], value })),
+          help: "Entire recording loads every message of the selected topics, independent of playback.",
+        },
+        windowMode: {
+          label: "Statistics window",
+          input: "select",
+          value: config.windowMode,
+          options: WINDOW_MODES.map((value) => ({ label: WINDOW_MODE_LABELS[value], value })),
+          disabled: recording,
+        },
+        windowSize: {
+          label: "Window size (messages)",
+          input: "number",
+          value: config.windowSize,
+          min: 2,
+          step: 100,
+          precision: 0,
+          disabled: recording || config.windowMode !== "count",
+        },
+        windowSeconds: {
+          label: "Window length (s)",
+          input: "number",
+          value: config.windowSeconds,
+          min: 0.1,
+          step: 1,
+          precision: 1,
+          disabled: recording || config.windowMode === "count",
+        },
+        timestampSource: {
+          label: "Timestamp",
+          input: "select",
+          value: config.timestampSource,
+          options: TIMESTAMP_SOURCE_OPTIONS,
+          help: "Messages without the selected timestamp fall back to publish time, then receive time.",
+        },
+        timestampField: {
+          label: "Timestamp field",
+          input: "string",
+          value: config.timestampField,
+          placeholder: "header.stamp",
+          disabled: config.timestampSource !== "messageField",
+        },
+        defaultTolerancePercent: {
+          label: "Rate tolerance (%)",
+          input: "number",
+          value: config.defaultTolerancePercent,
+          min: 0,
+          step: 1,
+          precision: 1,
+          help: "Topics within the tolerance of their expected rate are OK, within twice the tolerance WARN, otherwise FAIL.",
+        },
+        gapFactor: {
+          label: "Gap threshold (× period)",
+          input: "number",
+          value: config.gapFactor,
+          min: 1,
+          step: 0.5,
+          precision: 1,
+          help: "Silences longer than this many expected periods (or median periods when no rate is set) are listed as gaps.",
+        },
+        staleMode: {
+          label: "Stale after",
+          input: "select",
+          value: config.staleMode,
+          options: STALE_MODES.map((value) => ({ label: STALE_MODE_LABELS[value], value })),
+          help: "A topic that has been silent this long relative to the current playback time is marked stale.",
+        },
+        stalePeriods: {
+          label: "Stale threshold (× period)",
+          input: "number",
+          value: config.stalePeriods,
+          min: 1,
+          step: 1,
+          precision: 1,
+          disabled: config.staleMode !== "periods",
+        },
+        staleTimeout: {
+          label:
+            config.staleMode === "periods" ? "Stale timeout fallback (s)" : "Stale timeout (s)",
+          input: "number",
+          value: config.staleTimeout,
+          min: 0.1,
+          step: 0.5,
+          precision: 1,
+          help:
+            config.staleMode === "periods"
+              ? "Used while a topic has no expected rate and too few messages for a median period."
+              : undefined,
+        },
+        clockJumpThreshold: {
+          label: "Clock jump threshold (s)",
+          input: "number",
+          value: config.clockJumpThreshold,
+          min: 0.001,
+          step: 0.1,
+          precision: 3,
+          help: "A message whose timestamp moves this much further ahead of or behind its receive time than the previous message's is counted as a clock jump.",
+        },
+        showHistogram: {
+          label: "Show histogram",
+          input: "boolean",
+          value: config.showHistogram,
+        },
+        histogramUnit: {
+          label: "Histogram unit",
+          input: "select",
+          value: config.histogramUnit,
+          options: HISTOGRAM_UNITS.map((value) => ({ label: HISTOGRAM_UNIT_LABELS[value], value })),
+          disabled: !config.showHistogram,
+        },
+        highlightOutliers: {
+          label: "Highlight outliers",
+          input: "boolean",
+          value: config.highlightOutliers,
+          help: "Show outliers as a separate series in the histogram instead of leaving them out.",
+        },
+        showTimeline: {
+          label: "Show timeline",
+          input: "boolean",
+          value: config.showTimeline,
+        },
+        timelineResolution: {
+          label: "Timeline resolution (s)",
+          input: "number",
+          value: config.timelineResolution,
+          min: 0.05,
+          step: 0.5,
+          precision: 2,
+          disabled: !config.showTimeline,
+          help: "Width of the buckets the frequency timeline is computed over. Changing it clears the timeline.",
+        },
+        showTopicPicker: {
+          label: "Show topic picker",
+          input: "boolean",
+          value: config.showTopicPicker,
+          help: "Search and namespace tree for choosing topics, above the topic list.",
+        },
+        showInlineControls: {
+          label: "Show inline controls",
+          input: "boolean",
+          value: config.showInlineControls,
+        },
+      },
+    },
+    diagnostics: {
+      label: "Publish diagnostics",
+      defaultExpansionState: "collapsed",
+      fields: {
+        publishDiagnostics: {
+          label: "Enabled",
+          input: "boolean",
+          value: config.publishDiagnostics,
+          help: canPublish
+            ? "Publishes each topic's statistics and health as diagnostic_msgs/DiagnosticArray."
+            : "The current data source does not support publishing.",
+        },
+        diagnosticsTopic: {
+          label: "Topic",
+          input: "string",
+          value: config.diagnosticsTopic,
+          disabled: !config.publishDiagnostics,
+        },
+        diagnosticsRate: {
+          label: "Publish rate (Hz)",
+          input: "number",
+          value: config.diagnosticsRate,
+          min: 0.1,
+          max: 100,
+          step: 0.5,
+          precision: 1,
+          disabled: !config.publishDiagnostics,
+        },
+      },
+    },
+    baselines: {
+      label: "Baseline comparison",
+      defaultExpansionState: "collapsed",
+      fields: {
+        activeBaseline: {
+          label: "Compare against",
+          input: "select",
+          value: config.activeBaseline ?? "",
+          options: [
+            { label: "None", value: "" },
+            ...config.baselines.map((baseline) => ({ label: baseline.name, value: baseline.name })),
+          ],
+          help: "Save baselines from the panel toolbar or import them from JSON.",
+        },
+        baselineThreshold: {
+          label: "Regression threshold (%)",
+          input: "number",
+          value: config.baselineThreshold,
+          min: 0,
+          step: 5,
+          help: "Rate changes or jitter increases larger than this are highlighted as regressions.",
+        },
+      },
+    },
+    sync: {
+      label: "Synchronization",
+      defaultExpansionState: "collapsed",
+      fields: {
+        syncSlop: {
+          label: "Slop (s)",
+          input: "number",
+          value: config.syncSlop,
+          min: 0,
+          step: 0.005,
+          precision: 3,
+          help: "Messages of the compared topics this close together count as matched, like the slop of an ApproximateTime synchronizer. Pick the topics in the panel's Sync view.",
+        },
+      },
+    },
+    variables: {
+      label: "Global variables",
+      defaultExpansionState: "collapsed",
+      fields: {
+        exportVariables: {
+          label: "Enabled",
+          input: "boolean",
+          value: config.exportVariables,
+          help: "Writes the selected metrics of every analyzed topic to global variables for Plot, Indicator and message path filters.",
+        },
+        variableTemplate: {
+          label: "Name template",
+          input: "string",
+          value: config.variableTemplate,
+          disabled: !config.exportVariables,
+          help: "{topic} is replaced by the topic name with slashes turned into underscores and {metric} by the metric key, e.g. rate_scan_hz.",
+        },
+        variableInterval: {
+          label: "Update interval (s)",
+          input: "number",
+          value: config.variableInterval,
+          min: 0.1,
+          step: 0.5,
+          precision: 1,
+          disabled: !config.exportVariables,
+        },
+      },
+      children: {
+        metrics: {
+          label: "Metrics",
+          fields: Object.fromEntries(
+            VARIABLE_METRICS.map((metric): [string, SettingsTreeField] => [
+              metric,
+              {
+                label: VARIABLE_METRIC_LABELS[metric],
+                input: "boolean",
+                value: config.variableMetrics.includes(metric),
+                disabled: !config.exportVariables,
+              },
+            ]),
+          ),
+        },
+      },
+    },
+    topics: {
+      label: "Topics",
+      enableVisibilityFilter: true,
+      fields: {
+        patterns: {
+          label: "Patterns",
+          input: "string",
+          value: config.topicPatterns.length > 0 ? config.topicPatterns.join(", ") : undefined,
+          placeholder: "/sensors/**, !image/compressed",
+          help: "Comma-separated globs, re:<regex> or schema:<glob>; prefix with ! to exclude. Topics advertised later are picked up too.",
+        },
+      },
+      actions: [
+        { type: "action", id: "select-all", label: "Select all" },
+        { type: "action", id: "deselect-all", label: "Deselect all" },
+      ],
+      children: topicChildren,
+    },
+  };
+}
+
+function updateTopicConfig(
+  config: PanelConfig,
+  topic: string,
+  patch: Partial<TopicConfig>,
+): PanelConfig {
+  return {
+    ...config,
+    topicConfigs: {
+      ...config.topicConfigs,
+      [topic]: { ...config.topicConfigs[topic], ...patch },
+    },
+  };
+}
+
+/**
+ * Applies a settings sidebar action to the config and returns the new config. `topics` supplies
+ * the schema names that deselecting a pattern-selected topic needs.
+ */
+export function applySettingsAction(
+  config: PanelConfig,
+  action: SettingsTreeAction,
+  topics: readonly TopicPatternTarget[],
+): PanelConfig {
+  const { path } = action.payload;
+
+  if (action.action === "perform-node-action") {
+    if (path[0] !== "topics") {
+      return config;
+    }
+    switch (action.payload.id) {
+      case "select-all":
+        return selectAllTopics(config);
+      case "deselect-all":
+        return deselectAllTopics(config);
+      default:
+        return config;
+    }
+  }
+
+  const { value } = action.payload;
+  const [section, key, field] = path;
+
+  if (section === "general" && key != undefined) {
+    const thresholdMethod = OUTLIER_METHODS.find(
+      (method) => OUTLIER_THRESHOLD_FIELDS[method] === key,
+    );
+    if (thresholdMethod != undefined) {
+      return setOutlierThreshold(config, thresholdMethod, value);
+    }
+    switch (key) {
+      case "outlierMethod":
+        return OUTLIER_METHODS.includes(value as OutlierMethod)
+          ? { ...config, outlierMethod: value as OutlierMethod }
+          : config;
+      case "sortBy":
+        return SORT_OPTIONS.includes(value as SortBy)
+          ? { ...config, sortBy: value as SortBy }
+          : config;
+      case "analysisScope":
+        return ANALYSIS_SCOPES.includes(value as AnalysisScope)
+          ? { ...config, analysisScope: value as AnalysisScope }
+          : config;
+      case "windowMode":
+        return WINDOW_MODES.includes(value as WindowMode)
+          ? { ...config, windowMode: value as WindowMode }
+          : config;
+      case "windowSize":
+        return typeof value === "number" && value >= 2
+          ? { ...config, windowSize: Math.round(value) }
+          : config;
+      case "windowSeconds":
+        return typeof value === "number" && value > 0
+          ? { ...config, windowSeconds: value }
+          : config;
+      case "timestampSource":
+        return isTimestampSource(value) ? { ...config, timestampSource: value } : config;
+      case "timestampField":
+        return typeof value === "string" && value !== ""
+          ? { ...config, timestampField: value }
+          : config;
+      case "defaultTolerancePercent":
+        return typeof value === "number" && value >= 0
+          ? { ...config, defaultTolerancePercent: value }
+          : config;
+      case "gapFactor":
+        return typeof value === "number" && value >= 1 ? { ...config, gapFactor: value } : config;
+      case "staleMode":
+        return STALE_MODES.includes(value as StaleMode)
+          ? { ...config, staleMode: value as StaleMode }
+          : config;
+      case "stalePeriods":
+        return typeof value === "number" && value >= 1
+          ? { ...config, stalePeriods: value }
+          : config;
+      case "staleTimeout":
+        return typeof value === "number" && value >= 0.1
+          ? { ...config, staleTimeout: value }
+          : config;
+      case "clockJumpThreshold":
+        return typeof value === "number" && value > 0
+          ? { ...config, clockJumpThreshold: value }
+          : config;
+      case "showHistogram":
+        return { ...config, showHistogram: value === true };
+      case "showTimeline":
+        return { ...config, showTimeline: value === true };
+      case "timelineResolution":
+        return typeof value === "number" && value >= 0.05
+          ? { ...config, timelineResolution: value }
+          : config;
+      case "histogramUnit":
+        return HISTOGRAM_UNITS.includes(value as HistogramUnit)
+          ? { ...config, histogramUnit: value as HistogramUnit }
+          : config;
+      case "highlightOutliers":
+        return { ...config, highlightOutliers: value === true };
+      case "showInlineControls":
+        return { ...config, showInlineControls: value === true };
+      case "showTopicPicker":
+        return { ...config, showTopicPicker: value === true };
+      default:
+        return config;
+    }
+  }
+
+  if (section === "diagnostics" && key != undefined) {
+    switch (key) {
+      case "publishDiagnostics":
+        return { ...config, publishDiagnostics: value === true };
+      case "diagnosticsTopic":
+        return typeof value === "string" && value !== ""
+          ? { ...config, diagnosticsTopic: value }
+          : config;
+      case "diagnosticsRate":
+        return typeof value === "number" && value >= 0.1 && value <= 100
+          ? { ...config, diagnosticsRate: value }
+          : config;
+      default:
+        return config;
+    }
+  }
+
+  if (section === "baselines" && key != undefined) {
+    switch (key) {
+      case "activeBaseline":
+        return {
+          ...config,
+          activeBaseline: config.baselines.some((baseline) => baseline.name === value)
+            ? (value as string)
+            : undefined,
+        };
+      case "baselineThreshold":
+        return typeof value === "number" && value >= 0
+          ? { ...config, baselineThreshold: value }
+          : config;
+      default:
+        return config;
+    }
+  }
+
+  if (section === "sync" && key === "syncSlop") {
+    return typeof value === "number" && value >= 0 ? { ...config, syncSlop: value } : config;
+  }
+
+  if (section === "variables" && key === "metrics" && field != undefined) {
+    const metric = VARIABLE_METRICS.find((m) => m === field);
+    if (!metric) {
+      return config;
+    }
+    const others = config.variableMetrics.filter((m) => m !== metric);
+    return {
+      ...config,
+      // Keep the order of VARIABLE_METRICS so the saved list is stable.
+      variableMetrics: VARIABLE_METRICS.filter(
+        (m) => others.includes(m) || (m === metric && value === true),
+      ),
+    };
+  }
+
+  if (section === "variables" && key != undefined) {
+    switch (key) {
+      case "exportVariables":
+        return { ...config, exportVariables: value === true };
+      case "variableTemplate":
+        return typeof value === "string" && value.includes("{topic}")
+          ? { ...config, variableTemplate: value }
+          : config;
+      case "variableInterval":
+        return typeof value === "number" && value >= 0.1
+          ? { ...config, variableInterval: value }
+          : config;
+      default:
+        return config;
+    }
+  }
+
+  if (section === "topics" && key === "patterns" && field == undefined) {
+    return {
+      ...config,
+      topicPatterns:
+        typeof value === "string"
+          ? value
+              .split(",")
+              .map((pattern) => pattern.trim())
+              .filter((pattern) => pattern !== "")
+          : [],
+    };
+  }
+
+  if (section === "topics" && key != undefined && field != undefined) {
+    switch (field) {
+      case "visible":
+        return setTopicSelected(
+          config,
+          topics.find((topic) => topic.name === key) ?? { name: key },
+          value === true,
+        );
+      case "alias":
+        return updateTopicConfig(config, key, {
+          alias: typeof value === "string" && value !== "" ? value : undefined,
+        });
+      case "expectedRate":
+        return updateTopicConfig(config, key, {
+          expectedRate: typeof value === "number" && value > 0 ? value : undefined,
+        });
+      case "tolerancePercent":
+        return updateTopicConfig(config, key, {
+          tolerancePercent: typeof value === "number" && value >= 0 ? value : undefined,
+        });
+      case "timestampSource":
+        return updateTopicConfig(config, key, {
+          timestampSource: isTimestampSource(value) ? value : undefined,
+        });
+      case "timestampField":
+        return updateTopicConfig(config, key, {
+          timestampField: typeof value === "string" && value !== "" ? value : undefined,
+        });
+      case "splitPath":
+        return updateTopicConfig(config, key, {
+          splitPath: typeof value === "string" && value.trim() !== "" ? value.trim() : undefined,
+        });
+      default:
+        return config;
+    }
+  }
+
+  return config;
+}
@@ -0,0 +1,63 @@
+import { ActivityTracker, StaleOptions, formatSilence, topicStaleness } from "./stale";
+
+const TIMEOUT: StaleOptions = { mode: "timeout", timeout: 2, periods: 5 };
+const PERIODS: StaleOptions = { ...TIMEOUT, mode: "periods" };
+
+describe("topicStaleness", () => {
+  it("becomes stale once the silence exceeds the timeout", () => {
+    expect(topicStaleness(10, 0, 12, 0, TIMEOUT)).toMatchObject({ silentFor: 2, stale: false });
+    expect(topicStaleness(10, 0, 12.5, 0, TIMEOUT)).toMatchObject({ silentFor: 2.5, stale: true });
+  });
+
+  it("scales the threshold with the reference period", () => {
+    expect(topicStaleness(10, 0, 10.4, 0.1, PERIODS)).toMatchObject({
+      threshold: 0.5,
+      stale: false,
+    });
+    expect(topicStaleness(10, 0, 10.6, 0.1, PERIODS).stale).toBe(true);
+  });
+
+  it("uses the timeout while the period is unknown", () => {
+    expect(topicStaleness(10, 0, 11, 0, PERIODS)).toMatchObject({ threshold: 2, stale: false });
+  });
+
+  it("measures topics never received from the start of observation", () => {
+    expect(topicStaleness(undefined, 5, 8, 0, TIMEOUT)).toMatchObject({
+      silentFor: 3,
+      stale: true,
+      neverReceived: true,
+    });
+  });
+
+  it("doesn't report negative silence after seeking backwards", () => {
+    expect(topicStaleness(10, 0, 4, 0, TIMEOUT).silentFor).toBe(0);
+  });
+});
+
+describe("ActivityTracker", () => {
+  it("keeps the newest receive time per topic", () => {
+    const tracker = new ActivityTracker();
+    tracker.record("/a", 3);
+    tracker.record("/a", 2);
+    expect(tracker.lastReceived("/a")).toBe(3);
+    expect(tracker.lastReceived("/b")).toBeUndefined();
+  });
+
+  it("starts observing once and restarts on reset", () => {
+    const tracker = new ActivityTracker();
+    tracker.observeFrom(1);
+    tracker.observeFrom(2);
+    expect(tracker.since).toBe(1);
+    tracker.record("/a", 3);
+    tracker.reset(7);
+    expect(tracker.since).toBe(7);
+    expect(tracker.lastReceived("/a")).toBeUndefined();
+  });
+});
+
+describe("formatSilence", () => {
+  it("switches to minutes after a minute", () => {
+    expect(formatSilence(1.25)).toBe("1.3 s");
+    expect(formatSilence(185.9)).toBe("3 min 5 s");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * How long a topic may stay silent before it is stale: a fixed timeout, or a multiple of its
+ * expected (or median) period with the timeout as fallback while the period is unknown.
+ */
+export type StaleMode = "timeout" | "periods";
+
+export const STALE_MODES: readonly StaleMode[] = ["timeout", "periods"];
+
+export interface StaleOptions {
+  mode: StaleMode;
+  /** Seconds. */
+  timeout: number;
+  /** Multiple of the reference period in "periods" mode. */
+  periods: number;
+}
+
+export interface TopicStaleness {
+  /** Receive time of the newest message in seconds; undefined if none arrived since `since`. */
+  lastReceived?: number;
+  /** Seconds since the newest message, or since observation began for a topic never received. */
+  silentFor: number;
+  /** Silence after which the topic counts as stale, in seconds. */
+  threshold: number;
+  stale: boolean;
+  neverReceived: boolean;
+}
+
+/**
+ * Receive time of each topic's newest message. Observation restarts after a seek so silence is
+ * measured from the new playback position, not from messages of another part of the recording.
+ */
+export class ActivityTracker {
+  #lastReceived = new Map<string, number>();
+  #since: number | undefined;
+
+  /** Playback time observation began at, in seconds. */
+  public get since(): number | undefined {
+    return this.#since;
+  }
+
+  public record(topic: string, receiveTime: number): void {
+    const previous = this.#lastReceived.get(topic);
+    if (previous == undefined || receiveTime > previous) {
+      this.#lastReceived.set(topic, receiveTime);
+    }
+  }
+
+  /** Observation starts at `time` when it hasn't started yet. */
+  public observeFrom(time: number): void {
+    this.#since ??= time;
+  }
+
+  public reset(since: number | undefined): void {
+    this.#lastReceived.clear();
+    this.#since = since;
+  }
+
+  public lastReceived(topic: string): number | undefined {
+    return this.#lastReceived.get(topic);
+  }
+}
+
+/**
+ * Silence of a topic at playback time `now`. `referencePeriod` is the expected or median period in
+ * seconds, 0 when unknown.
+ */
+export function topicStaleness(
+  lastReceived: number | undefined,
+  since: number,
+  now: number,
+  referencePeriod: number,
+  options: StaleOptions,
+): TopicStaleness {
+  const threshold =
+    options.mode === "periods" && referencePeriod > 0
+      ? referencePeriod * options.periods
+      : options.timeout;
+  const silentFor = Math.max(0, now - (lastReceived ?? since));
+  return {
+    lastReceived,
+    silentFor,
+    threshold,
+    stale: silentFor > threshold,
+    neverReceived: lastReceived == undefined,
+  };
+}
+
+/** "1.2 s", "3 min 5 s" */
+export function formatSilence(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)} s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} min ${Math.floor(seconds - minutes * 60)} s`;
+}
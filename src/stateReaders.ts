@@ -0,0 +1,37 @@
+/**
+ * Tolerant readers for saved panel state. Each returns the fallback (or undefined) instead of
+ * throwing when a value has the wrong type, so a damaged layout still loads.
+ */
+
+export type RawState = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is RawState {
+  return typeof value === "object" && value != undefined && !Array.isArray(value);
+}
+
+export function readStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+export function readNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+export function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+export function readOptionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function readOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function readEnum<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
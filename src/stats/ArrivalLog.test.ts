@@ -0,0 +1,39 @@
+import { ArrivalLog } from "./ArrivalLog";
+
+describe("ArrivalLog", () => {
+  it("keeps arrivals within the horizon of the newest one", () => {
+    const log = new ArrivalLog(2);
+    log.add("/a", 0);
+    log.add("/a", 1);
+    log.add("/a", 3);
+    expect(log.arrivals("/a")?.toArray()).toEqual([1, 3]);
+    expect(log.latest).toBe(3);
+  });
+
+  it("trims every topic when the horizon shrinks", () => {
+    const log = new ArrivalLog(10);
+    log.add("/a", 0);
+    log.add("/b", 4);
+    log.add("/b", 5);
+    log.setHorizon(2);
+    expect(log.arrivals("/a")?.length).toBe(0);
+    expect(log.arrivals("/b")?.toArray()).toEqual([4, 5]);
+  });
+
+  it("bumps the version on every change", () => {
+    const log = new ArrivalLog(1);
+    const initial = log.version;
+    log.add("/a", 0);
+    log.setHorizon(2);
+    log.reset();
+    expect(log.version).toBe(initial + 3);
+  });
+
+  it("forgets everything on reset", () => {
+    const log = new ArrivalLog(1);
+    log.add("/a", 0);
+    log.reset();
+    expect(log.arrivals("/a")).toBeUndefined();
+    expect(log.latest).toBeUndefined();
+  });
+});
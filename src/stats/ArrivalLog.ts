@@ -0,0 +1,70 @@
+import { RingBuffer } from "./RingBuffer";
+import { MAX_TIME_WINDOW_SAMPLES } from "./SampleWindow";
+
+function trimBefore(arrivals: RingBuffer, cutoff: number): void {
+  while (arrivals.length > 0 && arrivals.first() < cutoff) {
+    arrivals.shift();
+  }
+}
+
+/**
+ * Raw arrival times per topic over a sliding time horizon, for views that draw individual
+ * messages rather than statistics. Times must be added in roughly increasing order.
+ */
+export class ArrivalLog {
+  #horizon: number;
+  #arrivals = new Map<string, RingBuffer>();
+  #latest = -Infinity;
+  #version = 0;
+
+  /** `horizon` is how many seconds before the newest arrival are kept. */
+  public constructor(horizon: number) {
+    this.#horizon = horizon;
+  }
+
+  public get version(): number {
+    return this.#version;
+  }
+
+  /** Newest arrival time across all topics, or undefined when empty. */
+  public get latest(): number | undefined {
+    return Number.isFinite(this.#latest) ? this.#latest : undefined;
+  }
+
+  public setHorizon(seconds: number): void {
+    this.#horizon = seconds;
+    this.#trim();
+    this.#version++;
+  }
+
+  public add(topic: string, time: number): void {
+    let arrivals = this.#arrivals.get(topic);
+    if (!arrivals) {
+      arrivals = new RingBuffer(MAX_TIME_WINDOW_SAMPLES);
+      this.#arrivals.set(topic, arrivals);
+    }
+    arrivals.push(time);
+    this.#latest = Math.max(this.#latest, time);
+    // Only the topic being added to is trimmed here; silent topics keep their last arrivals until
+    // the next full trim, which is harmless because they lie outside the horizon anyway.
+    trimBefore(arrivals, this.#latest - this.#horizon);
+    this.#version++;
+  }
+
+  /** Arrivals of `topic`, oldest first. */
+  public arrivals(topic: string): RingBuffer | undefined {
+    return this.#arrivals.get(topic);
+  }
+
+  public reset(): void {
+    this.#arrivals.clear();
+    this.#latest = -Infinity;
+    this.#version++;
+  }
+
+  #trim(): void {
+    for (const arrivals of this.#arrivals.values()) {
+      trimBefore(arrivals, this.#latest - this.#horizon);
+    }
+  }
+}
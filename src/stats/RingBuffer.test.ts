@@ -0,0 +1,71 @@
+import { RingBuffer } from "./RingBuffer";
+
+function filled(capacity: number, values: number[]): RingBuffer {
+  const buffer = new RingBuffer(capacity);
+  for (const value of values) {
+    buffer.push(value);
+  }
+  return buffer;
+}
+
+describe("RingBuffer", () => {
+  it("keeps values in insertion order", () => {
+    const buffer = filled(5, [1, 2, 3]);
+    expect(buffer.length).toBe(3);
+    expect(buffer.first()).toBe(1);
+    expect(buffer.last()).toBe(3);
+    expect(buffer.toArray()).toEqual([1, 2, 3]);
+  });
+
+  it("drops the oldest value once full", () => {
+    const buffer = filled(3, [1, 2, 3]);
+    expect(buffer.isFull()).toBe(true);
+    expect(buffer.push(4)).toBe(1);
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+  });
+
+  it("grows past its initial storage up to the capacity", () => {
+    const values = Array.from({ length: 200 }, (_, i) => i);
+    const buffer = filled(150, values);
+    expect(buffer.length).toBe(150);
+    expect(buffer.toArray()).toEqual(values.slice(50));
+  });
+
+  it("returns NaN outside the stored range and ignores writes there", () => {
+    const buffer = filled(4, [1, 2]);
+    expect(buffer.get(-1)).toBeNaN();
+    expect(buffer.get(2)).toBeNaN();
+    buffer.set(2, 5);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  it("overwrites values in place", () => {
+    const buffer = filled(3, [1, 2, 3, 4]);
+    buffer.set(0, 20);
+    expect(buffer.toArray()).toEqual([20, 3, 4]);
+  });
+
+  it("shifts values off the front", () => {
+    const buffer = filled(3, [1, 2]);
+    expect(buffer.shift()).toBe(1);
+    expect(buffer.shift()).toBe(2);
+    expect(buffer.shift()).toBeUndefined();
+    expect(buffer.length).toBe(0);
+  });
+
+  it("copies only the newest values when given a count", () => {
+    const buffer = filled(4, [1, 2, 3, 4, 5, 6]);
+    expect(buffer.toArray(2)).toEqual([5, 6]);
+    expect(buffer.toArray(10)).toEqual([3, 4, 5, 6]);
+    expect(buffer.toArray(0)).toEqual([]);
+  });
+
+  it("empties on clear", () => {
+    const buffer = filled(3, [1, 2, 3]);
+    buffer.clear();
+    expect(buffer.length).toBe(0);
+    expect(buffer.toArray()).toEqual([]);
+    buffer.push(7);
+    expect(buffer.toArray()).toEqual([7]);
+  });
+});
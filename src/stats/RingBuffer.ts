@@ -0,0 +1,101 @@
+const INITIAL_CAPACITY = 64;
+
+/**
+ * Fixed-capacity FIFO of numbers backed by a `Float64Array`. Storage grows geometrically until it
+ * reaches `capacity`; after that pushing onto a full buffer drops the oldest value.
+ */
+export class RingBuffer {
+  #data: Float64Array;
+  #start = 0;
+  #length = 0;
+  #capacity: number;
+
+  public constructor(capacity: number) {
+    this.#capacity = Math.max(1, Math.floor(capacity));
+    this.#data = new Float64Array(Math.min(this.#capacity, INITIAL_CAPACITY));
+  }
+
+  public get length(): number {
+    return this.#length;
+  }
+
+  public get capacity(): number {
+    return this.#capacity;
+  }
+
+  public isFull(): boolean {
+    return this.#length === this.#capacity;
+  }
+
+  /** Value at `index`, where 0 is the oldest value. Returns NaN when out of range. */
+  public get(index: number): number {
+    if (index < 0 || index >= this.#length) {
+      return NaN;
+    }
+    return this.#data[(this.#start + index) % this.#data.length]!;
+  }
+
+  public set(index: number, value: number): void {
+    if (index < 0 || index >= this.#length) {
+      return;
+    }
+    this.#data[(this.#start + index) % this.#data.length] = value;
+  }
+
+  public first(): number {
+    return this.get(0);
+  }
+
+  public last(): number {
+    return this.get(this.#length - 1);
+  }
+
+  /** Appends `value`, returning the value that was dropped to make room or undefined. */
+  public push(value: number): number | undefined {
+    let dropped: number | undefined;
+    if (this.#length === this.#capacity) {
+      dropped = this.shift();
+    } else if (this.#length === this.#data.length) {
+      this.#grow();
+    }
+    this.#data[(this.#start + this.#length) % this.#data.length] = value;
+    this.#length++;
+    return dropped;
+  }
+
+  /** Removes and returns the oldest value. */
+  public shift(): number | undefined {
+    if (this.#length === 0) {
+      return undefined;
+    }
+    const value = this.#data[this.#start]!;
+    this.#start = (this.#start + 1) % this.#data.length;
+    this.#length--;
+    return value;
+  }
+
+  public clear(): void {
+    this.#start = 0;
+    this.#length = 0;
+  }
+
+  /** Copies the contents, or only the newest `count` values, oldest first into a new array. */
+  public toArray(count = this.#length): number[] {
+    const length = Math.max(0, Math.min(this.#length, Math.floor(count)));
+    const offset = this.#length - length;
+    const result = new Array<number>(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = this.get(offset + i);
+    }
+    return result;
+  }
+
+  #grow(): void {
+    const next = new Float64Array(Math.min(this.#capacity, this.#data.length * 2));
+    for (let i = 0; i < this.#length; i++) {
+      next[i] = this.get(i);
+    }
+    this.#data = next;
+    this.#start = 0;
+  }
+}
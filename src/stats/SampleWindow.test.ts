@@ -0,0 +1,71 @@
+import {
+  MAX_RECORDING_SAMPLES,
+  MAX_TIME_WINDOW_SAMPLES,
+  SampleWindow,
+  windowCapacity,
+} from "./SampleWindow";
+
+describe("windowCapacity", () => {
+  it("fits the window mode", () => {
+    expect(windowCapacity({ mode: "count", size: 100 })).toBe(100);
+    expect(windowCapacity({ mode: "count", size: 1 })).toBe(2);
+    expect(windowCapacity({ mode: "time", seconds: 5 })).toBe(MAX_TIME_WINDOW_SAMPLES);
+    expect(windowCapacity({ mode: "all" })).toBe(MAX_RECORDING_SAMPLES);
+  });
+});
+
+describe("SampleWindow", () => {
+  it("keeps the newest samples of a count window", () => {
+    const window = new SampleWindow({ mode: "count", size: 3 });
+    for (let i = 0; i < 5; i++) {
+      window.push(i, i * 10);
+    }
+    expect(window.values()).toEqual([20, 30, 40]);
+    expect(window.span).toBe(2);
+  });
+
+  it("drops samples older than a time window", () => {
+    const window = new SampleWindow({ mode: "time", seconds: 1 });
+    window.push(0, 1);
+    window.push(0.5, 2);
+    window.push(1.2, 3);
+    expect(window.values()).toEqual([2, 3]);
+  });
+
+  it("trims before a cutoff and reports whether it did", () => {
+    const window = new SampleWindow({ mode: "all" });
+    window.push(1, 1);
+    window.push(2, 2);
+    expect(window.trimBefore(1.5)).toBe(true);
+    expect(window.trimBefore(1.5)).toBe(false);
+    expect(window.values()).toEqual([2]);
+    expect(window.span).toBe(0);
+  });
+
+  it("trims by receive time and windows by observed time", () => {
+    const window = new SampleWindow({ mode: "time", seconds: 1 });
+    window.push(0, 1, 100);
+    window.push(0.5, 2, 100.5);
+    window.push(1.2, 3, 101.2);
+    expect(window.values()).toEqual([2, 3]);
+    expect(window.trimBefore(1)).toBe(false);
+    expect(window.trimBefore(101)).toBe(true);
+    expect(window.values()).toEqual([3]);
+  });
+
+  it("keeps the samples that fit a new window", () => {
+    const window = new SampleWindow({ mode: "all" });
+    for (let i = 0; i < 5; i++) {
+      window.push(i, i);
+    }
+    window.setWindow({ mode: "count", size: 2 });
+    expect(window.values()).toEqual([3, 4]);
+  });
+
+  it("empties on clear", () => {
+    const window = new SampleWindow({ mode: "all" });
+    window.push(1, 1);
+    window.clear();
+    expect(window.length).toBe(0);
+  });
+});
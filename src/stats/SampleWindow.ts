@@ -0,0 +1,99 @@
+import { RingBuffer } from "./RingBuffer";
+import { StatsWindow } from "./types";
+
+/** Upper bound on retained samples for time-based windows, so a flood cannot exhaust memory. */
+export const MAX_TIME_WINDOW_SAMPLES = 100_000;
+
+/** Upper bound on retained samples when analyzing a whole recording. */
+export const MAX_RECORDING_SAMPLES = 2_000_000;
+
+export function windowCapacity(window: StatsWindow): number {
+  switch (window.mode) {
+    case "count":
+      return Math.max(2, window.size);
+    case "time":
+      return MAX_TIME_WINDOW_SAMPLES;
+    case "all":
+      return MAX_RECORDING_SAMPLES;
+  }
+}
+
+/**
+ * Values tagged with the time they were observed, trimmed to a `StatsWindow`. Used for per-message
+ * measurements such as latency that don't need running totals. The window applies to the observed
+ * times; `trimBefore` goes by when the samples were received.
+ */
+export class SampleWindow {
+  #window: StatsWindow;
+  #times: RingBuffer;
+  #receiveTimes: RingBuffer;
+  #values: RingBuffer;
+
+  public constructor(window: StatsWindow) {
+    this.#window = window;
+    this.#times = new RingBuffer(windowCapacity(window));
+    this.#receiveTimes = new RingBuffer(windowCapacity(window));
+    this.#values = new RingBuffer(windowCapacity(window));
+  }
+
+  public get length(): number {
+    return this.#values.length;
+  }
+
+  /** Time between the oldest and newest sample; 0 with fewer than two samples. */
+  public get span(): number {
+    return this.#times.length > 1 ? this.#times.last() - this.#times.first() : 0;
+  }
+
+  /** Adds a sample observed at `time`; `receiveTime` defaults to `time`. */
+  public push(time: number, value: number, receiveTime = time): void {
+    this.#times.push(time);
+    this.#receiveTimes.push(receiveTime);
+    this.#values.push(value);
+    if (this.#window.mode === "time") {
+      const cutoff = time - this.#window.seconds;
+      while (this.#times.first() < cutoff) {
+        this.#shift();
+      }
+    }
+  }
+
+  /** Drops samples received before `cutoff`. Returns true if anything was dropped. */
+  public trimBefore(cutoff: number): boolean {
+    let trimmed = false;
+    while (this.#receiveTimes.length > 0 && this.#receiveTimes.first() < cutoff) {
+      this.#shift();
+      trimmed = true;
+    }
+    return trimmed;
+  }
+
+  public setWindow(window: StatsWindow): void {
+    const times = this.#times.toArray();
+    const receiveTimes = this.#receiveTimes.toArray();
+    const values = this.#values.toArray();
+    this.#window = window;
+    this.#times = new RingBuffer(windowCapacity(window));
+    this.#receiveTimes = new RingBuffer(windowCapacity(window));
+    this.#values = new RingBuffer(windowCapacity(window));
+    times.forEach((time, i) => {
+      this.push(time, values[i]!, receiveTimes[i]);
+    });
+  }
+
+  public clear(): void {
+    this.#times.clear();
+    this.#receiveTimes.clear();
+    this.#values.clear();
+  }
+
+  public values(): number[] {
+    return this.#values.toArray();
+  }
+
+  #shift(): void {
+    this.#times.shift();
+    this.#receiveTimes.shift();
+    this.#values.shift();
+  }
+}
@@ -0,0 +1,25 @@
+import { MAX_SNAPSHOT_INTERVAL_MS, SnapshotBudget } from "./SnapshotBudget";
+import { SNAPSHOT_INTERVAL_MS } from "./workerProtocol";
+
+describe("SnapshotBudget", () => {
+  it("backs off while snapshots go over the budget", () => {
+    const budget = new SnapshotBudget(8);
+    expect(budget.record(20)).toBe(SNAPSHOT_INTERVAL_MS * 2);
+    expect(budget.record(20)).toBe(SNAPSHOT_INTERVAL_MS * 4);
+    for (let i = 0; i < 10; i++) {
+      budget.record(20);
+    }
+    expect(budget.interval).toBe(MAX_SNAPSHOT_INTERVAL_MS);
+    expect(budget.record(20)).toBeUndefined();
+  });
+
+  it("holds the interval near the budget and recovers well under it", () => {
+    const budget = new SnapshotBudget(8);
+    budget.record(20);
+    budget.record(20);
+    expect(budget.record(6)).toBeUndefined();
+    expect(budget.record(2)).toBe(SNAPSHOT_INTERVAL_MS * 2);
+    expect(budget.record(2)).toBe(SNAPSHOT_INTERVAL_MS);
+    expect(budget.record(2)).toBeUndefined();
+  });
+});
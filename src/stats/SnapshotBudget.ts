@@ -0,0 +1,44 @@
+import { SNAPSHOT_INTERVAL_MS } from "./workerProtocol";
+
+/**
+ * Main-thread time a posted snapshot may take from its arrival until the panel has committed it.
+ * Half of a 60 Hz frame, leaving the rest for message ingestion and the browser.
+ */
+export const SNAPSHOT_BUDGET_MS = 8;
+
+/** Longest time between snapshots the worker is slowed down to. */
+export const MAX_SNAPSHOT_INTERVAL_MS = 1600;
+
+/**
+ * Chooses how often the statistics worker posts snapshots from what applying them costs, so a
+ * panel with hundreds of busy topics renders less often instead of missing frames. The interval
+ * doubles after every snapshot over the budget and halves back towards `SNAPSHOT_INTERVAL_MS`
+ * after every one under half of it; in between it stays put so it doesn't oscillate.
+ */
+export class SnapshotBudget {
+  #interval = SNAPSHOT_INTERVAL_MS;
+  #budgetMs: number;
+
+  public constructor(budgetMs = SNAPSHOT_BUDGET_MS) {
+    this.#budgetMs = budgetMs;
+  }
+
+  public get interval(): number {
+    return this.#interval;
+  }
+
+  /** Records what one snapshot cost. Returns the new interval when it changed. */
+  public record(costMs: number): number | undefined {
+    let interval = this.#interval;
+    if (costMs > this.#budgetMs) {
+      interval = Math.min(interval * 2, MAX_SNAPSHOT_INTERVAL_MS);
+    } else if (costMs < this.#budgetMs / 2) {
+      interval = Math.max(interval / 2, SNAPSHOT_INTERVAL_MS);
+    }
+    if (interval === this.#interval) {
+      return undefined;
+    }
+    this.#interval = interval;
+    return interval;
+  }
+}
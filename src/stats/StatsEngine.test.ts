@@ -0,0 +1,75 @@
+import { StatsEngine } from "./StatsEngine";
+import { SnapshotOptions } from "./types";
+
+const OPTIONS: SnapshotOptions = { outliers: { method: "stdDev", threshold: 2 } };
+
+function addSteady(engine: StatsEngine, topic: string, count: number, period: number): void {
+  for (let i = 0; i < count; i++) {
+    engine.addMessage(topic, { timestamp: i * period });
+  }
+}
+
+describe("StatsEngine", () => {
+  it("keeps a stream per topic", () => {
+    const engine = new StatsEngine({ mode: "count", size: 100 });
+    addSteady(engine, "/a", 10, 0.1);
+    addSteady(engine, "/b", 10, 0.5);
+    expect(engine.topics).toEqual(["/a", "/b"]);
+    expect(engine.hasTopic("/a")).toBe(true);
+    expect(engine.getSnapshot("/a", OPTIONS).averageFrequency).toBeCloseTo(10);
+    expect(engine.getSnapshot("/b", OPTIONS).averageFrequency).toBeCloseTo(2);
+    expect(engine.getTimestamps("/b")).toHaveLength(10);
+  });
+
+  it("returns empty statistics for unknown topics", () => {
+    const engine = new StatsEngine({ mode: "all" });
+    const stats = engine.getSnapshot("/missing", OPTIONS);
+    expect(stats.topic).toBe("/missing");
+    expect(stats.messageCount).toBe(0);
+    expect(engine.hasTopic("/missing")).toBe(false);
+    expect(engine.getTimestamps("/missing")).toEqual([]);
+    expect(engine.getSortedTimestamps("/missing")).toEqual([]);
+  });
+
+  it("applies a new window to every topic", () => {
+    const engine = new StatsEngine({ mode: "all" });
+    addSteady(engine, "/a", 10, 1);
+    addSteady(engine, "/b", 10, 1);
+    engine.setWindow({ mode: "count", size: 2 });
+    expect(engine.window).toEqual({ mode: "count", size: 2 });
+    expect(engine.getTimestamps("/a")).toEqual([8, 9]);
+    expect(engine.getTimestamps("/b")).toEqual([8, 9]);
+  });
+
+  it("detects gaps against each topic's expected rate", () => {
+    const engine = new StatsEngine({ mode: "all" });
+    addSteady(engine, "/a", 5, 0.1);
+    engine.setGapOptions(3, { "/a": 50, "/b": 50 });
+    addSteady(engine, "/b", 5, 0.1);
+    engine.addMessage("/a", { timestamp: 0.5 });
+    expect(engine.getSnapshot("/a", OPTIONS).gapCount).toBe(1);
+    expect(engine.getSnapshot("/b", OPTIONS).gapCount).toBe(4);
+  });
+
+  it("bumps the version only when a trim removes data", () => {
+    const engine = new StatsEngine({ mode: "all" });
+    addSteady(engine, "/a", 10, 1);
+    const version = engine.version;
+    engine.trimBefore(0);
+    expect(engine.version).toBe(version);
+    engine.trimBefore(5);
+    expect(engine.version).toBeGreaterThan(version);
+    expect(engine.getTimestamps("/a")).toEqual([5, 6, 7, 8, 9]);
+  });
+
+  it("resets one topic or all of them", () => {
+    const engine = new StatsEngine({ mode: "all" });
+    addSteady(engine, "/a", 10, 1);
+    addSteady(engine, "/b", 10, 1);
+    engine.resetTopic("/a");
+    expect(engine.getTimestamps("/a")).toEqual([]);
+    expect(engine.getTimestamps("/b")).toHaveLength(10);
+    engine.reset();
+    expect(engine.topics).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  DEFAULT_CLOCK_JUMP_THRESHOLD,
+  DEFAULT_GAP_OPTIONS,
+  DEFAULT_TIMELINE_RESOLUTION,
+  TopicStream,
+} from "./TopicStream";
+import { FrequencyStats, GapOptions, MessageSample, SnapshotOptions, StatsWindow } from "./types";
+
+/**
+ * Owns one `TopicStream` per topic. Messages are fed in as they arrive and consumers read
+ * immutable `FrequencyStats` snapshots. Has no dependency on React or the Foxglove API so it can
+ * run anywhere.
+ */
+export class StatsEngine {
+  #window: StatsWindow;
+  #timelineResolution: number;
+  #clockJumpThreshold = DEFAULT_CLOCK_JUMP_THRESHOLD;
+  #gapFactor = DEFAULT_GAP_OPTIONS.gapFactor;
+  #expectedRates: Readonly<Record<string, number>> = {};
+  #streams = new Map<string, TopicStream>();
+  #version = 0;
+
+  public constructor(window: StatsWindow, timelineResolution = DEFAULT_TIMELINE_RESOLUTION) {
+    this.#window = window;
+    this.#timelineResolution = timelineResolution;
+  }
+
+  public get window(): StatsWindow {
+    return this.#window;
+  }
+
+  /** Records a message received on `topic`. */
+  public addMessage(topic: string, sample: MessageSample): void {
+    let stream = this.#streams.get(topic);
+    if (!stream) {
+      stream = new TopicStream(
+        topic,
+        this.#window,
+        this.#timelineResolution,
+        this.#clockJumpThreshold,
+        this.#gapOptions(topic),
+      );
+      this.#streams.set(topic, stream);
+    }
+    stream.add(sample);
+    this.#version++;
+  }
+
+  public setWindow(window: StatsWindow): void {
+    this.#window = window;
+    for (const stream of this.#streams.values()) {
+      stream.setWindow(window);
+    }
+    this.#version++;
+  }
+
+  /** Changes the width of timeline buckets in seconds. Existing timelines are cleared. */
+  public setTimelineResolution(seconds: number): void {
+    this.#timelineResolution = seconds;
+    for (const stream of this.#streams.values()) {
+      stream.setTimelineResolution(seconds);
+    }
+    this.#version++;
+  }
+
+  /** Seconds the timestamp-to-receive-time offset must change by to count as a clock jump. */
+  public setClockJumpThreshold(seconds: number): void {
+    this.#clockJumpThreshold = seconds;
+    for (const stream of this.#streams.values()) {
+      stream.setClockJumpThreshold(seconds);
+    }
+  }
+
+  /**
+   * Gap detection parameters: intervals longer than `gapFactor` reference periods are gaps, where
+   * the reference is the topic's expected period when it has one.
+   */
+  public setGapOptions(gapFactor: number, expectedRates: Readonly<Record<string, number>>): void {
+    this.#gapFactor = gapFactor;
+    this.#expectedRates = expectedRates;
+    for (const stream of this.#streams.values()) {
+      stream.setGapOptions(this.#gapOptions(stream.topic));
+    }
+  }
+
+  /** Current statistics for `topic`. Topics with no messages yield empty statistics. */
+  public getSnapshot(topic: string, options: SnapshotOptions): FrequencyStats {
+    const stream =
+      this.#streams.get(topic) ?? new TopicStream(topic, this.#window, this.#timelineResolution);
+    return stream.snapshot(options);
+  }
+
+  /** Arrival times of the messages in `topic`'s window in seconds, oldest first. */
+  public getTimestamps(topic: string): number[] {
+    return this.#streams.get(topic)?.timestamps() ?? [];
+  }
+
+  /** `topic`'s timestamps in ascending order. Cached, so repeated calls without new data are free. */
+  public getSortedTimestamps(topic: string): readonly number[] {
+    return this.#streams.get(topic)?.sortedTimestamps() ?? [];
+  }
+
+  /** Whether `topic` has received messages since the last full reset. */
+  public hasTopic(topic: string): boolean {
+    return this.#streams.has(topic);
+  }
+
+  /** Every topic that has received messages since the last full reset. */
+  public get topics(): string[] {
+    return [...this.#streams.keys()];
+  }
+
+  /** Incremented whenever any topic receives data or is reset. */
+  public get version(): number {
+    return this.#version;
+  }
+
+  /** Drops data received before `cutoff` seconds of playback time on every topic. */
+  public trimBefore(cutoff: number): void {
+    for (const stream of this.#streams.values()) {
+      const version = stream.version;
+      stream.trimBefore(cutoff);
+      if (stream.version !== version) {
+        this.#version++;
+      }
+    }
+  }
+
+  public resetTopic(topic: string): void {
+    this.#streams.get(topic)?.reset();
+    this.#version++;
+  }
+
+  public reset(): void {
+    this.#streams.clear();
+    this.#version++;
+  }
+
+  #gapOptions(topic: string): GapOptions {
+    return { gapFactor: this.#gapFactor, expectedRate: this.#expectedRates[topic] };
+  }
+}
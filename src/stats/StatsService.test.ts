@@ -0,0 +1,215 @@
+import { StatsService, withoutDetails, withoutSamples } from "./StatsService";
+import { StatsRequest, StatsResponse, StatsSubscription, StreamSample } from "./workerProtocol";
+
+const SUBSCRIPTION: StatsSubscription = {
+  topics: ["/a", "/b"],
+  detailed: ["/a"],
+  histograms: { periods: false, highlightOutliers: false },
+  outliers: { method: "stdDev", threshold: 2 },
+  gapFactor: 3,
+  expectedRates: {},
+};
+
+function samples(streams: string[], count: number, start = 0): StreamSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    streams,
+    sample: { timestamp: start + i * 0.1 },
+  }));
+}
+
+function setup(): { send: (request: StatsRequest) => void; posted: StatsResponse[] } {
+  const posted: StatsResponse[] = [];
+  const service = new StatsService((response) => posted.push(response));
+  return {
+    send: (request) => {
+      service.handle(request);
+    },
+    posted,
+  };
+}
+
+function snapshots(posted: StatsResponse[]): Extract<StatsResponse, { type: "snapshot" }>[] {
+  return posted.filter(
+    (response): response is Extract<StatsResponse, { type: "snapshot" }> =>
+      response.type === "snapshot",
+  );
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("StatsService", () => {
+  it("posts nothing until subscribed", () => {
+    const { send, posted } = setup();
+    send({ type: "add", samples: samples(["/a"], 10) });
+    jest.runAllTimers();
+    expect(posted).toEqual([]);
+  });
+
+  it("posts histograms instead of per-message arrays, and only for detailed streams", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: [...samples(["/a"], 10), ...samples(["/b"], 10)] });
+    jest.runAllTimers();
+
+    const [snapshot] = snapshots(posted);
+    expect(snapshot?.streams).toEqual(["/a", "/b"]);
+    const [a, b] = snapshot?.changed ?? [];
+    expect(a?.frequencies).toEqual([]);
+    expect(a?.sampleCount).toBe(9);
+    expect(b?.frequencies).toEqual([]);
+    expect(b?.averageFrequency).toBeCloseTo(10);
+    expect(Object.keys(snapshot?.histograms ?? {})).toEqual(["/a"]);
+    // Outliers are left out of the bins unless highlighted.
+    const bins = snapshot?.histograms["/a"]?.frequency ?? [];
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(9 - (a?.outlierCount ?? 0));
+  });
+
+  it("bins again when the histogram options change", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: samples(["/a"], 10) });
+    jest.runAllTimers();
+    send({ type: "subscribe", subscription: { ...SUBSCRIPTION } });
+    jest.runAllTimers();
+    expect(snapshots(posted)[1]?.changed).toEqual([]);
+
+    send({
+      type: "subscribe",
+      subscription: { ...SUBSCRIPTION, histograms: { periods: true, highlightOutliers: false } },
+    });
+    jest.runAllTimers();
+    const bins = snapshots(posted)[2]?.histograms["/a"]?.frequency;
+    expect(bins?.[0]?.binStart).toBeCloseTo(0.1);
+  });
+
+  it("bins nothing while histograms are hidden", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: { ...SUBSCRIPTION, histograms: undefined } });
+    send({ type: "add", samples: samples(["/a"], 10) });
+    jest.runAllTimers();
+    expect(snapshots(posted)[0]?.histograms).toEqual({});
+  });
+
+  it("throttles snapshots and sends only streams that changed", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: samples(["/a"], 10) });
+    jest.advanceTimersByTime(0);
+    expect(snapshots(posted)).toHaveLength(1);
+
+    send({ type: "add", samples: samples(["/b"], 10) });
+    send({ type: "add", samples: samples(["/b"], 10, 1) });
+    jest.advanceTimersByTime(50);
+    expect(snapshots(posted)).toHaveLength(1);
+    jest.advanceTimersByTime(50);
+    const all = snapshots(posted);
+    expect(all).toHaveLength(2);
+    expect(all[1]?.changed.map((stats) => stats.topic)).toEqual(["/b"]);
+    expect(all[1]?.changed[0]?.messageCount).toBe(20);
+
+    jest.runAllTimers();
+    expect(snapshots(posted)).toHaveLength(2);
+  });
+
+  it("reports sub-streams after their topic", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: samples(["/a", "/a [x]"], 10) });
+    jest.runAllTimers();
+    expect(snapshots(posted)[0]?.streams).toEqual(["/a", "/a [x]", "/b"]);
+  });
+
+  it("analyzes sync between the subscribed topics", () => {
+    const { send, posted } = setup();
+    send({
+      type: "subscribe",
+      subscription: { ...SUBSCRIPTION, sync: { topics: ["/a", "/b"], slop: 0.01 } },
+    });
+    send({ type: "add", samples: [...samples(["/a"], 10), ...samples(["/b"], 10)] });
+    jest.runAllTimers();
+    expect(snapshots(posted)[0]?.sync?.matchedFraction).toBe(1);
+  });
+
+  it("answers timestamp and snapshot requests right away", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: samples(["/b"], 3) });
+    send({ type: "timestamps", id: 1, topics: ["/b", "/c"] });
+    send({ type: "snapshots", id: 2, streams: ["/b"] });
+    expect(posted).toEqual([
+      { type: "timestamps", id: 1, timestamps: [[0, 0.1, 0.2], []] },
+      {
+        type: "snapshots",
+        id: 2,
+        // Complete even though "/b" isn't shown in detail.
+        stats: [
+          expect.objectContaining({
+            topic: "/b",
+            frequencies: [expect.any(Number), expect.any(Number)],
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it("sends every stream again after a reset", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: samples(["/a"], 10) });
+    jest.runAllTimers();
+    send({ type: "reset" });
+    jest.runAllTimers();
+    const all = snapshots(posted);
+    const last = all[all.length - 1];
+    expect(last?.changed.map((stats) => stats.topic)).toEqual(["/a", "/b"]);
+    expect(last?.changed[0]?.messageCount).toBe(0);
+  });
+
+  it("resets one topic together with its sub-streams", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({ type: "add", samples: [...samples(["/a", "/a [x]"], 10), ...samples(["/b"], 10)] });
+    jest.runAllTimers();
+    send({ type: "resetTopic", topic: "/a" });
+    jest.runAllTimers();
+    const all = snapshots(posted);
+    const counts = all[all.length - 1]?.changed.map((stats) => [stats.topic, stats.messageCount]);
+    expect(counts).toEqual([
+      ["/a", 0],
+      ["/a [x]", 0],
+    ]);
+  });
+});
+
+describe("withoutSamples and withoutDetails", () => {
+  it("empty the per-message arrays and keep the summary", () => {
+    const { send, posted } = setup();
+    send({ type: "subscribe", subscription: SUBSCRIPTION });
+    send({
+      type: "add",
+      samples: [0, 1, 2, 2].map((timestamp) => ({
+        streams: ["/a"],
+        sample: { timestamp, latencies: { publish: 0.01 } },
+      })),
+    });
+    send({ type: "snapshots", id: 0, streams: ["/a"] });
+    const response = posted[0]!;
+    if (response.type !== "snapshots") {
+      throw new Error(`Unexpected ${response.type} response`);
+    }
+    const stats = withoutSamples(response.stats[0]!);
+    expect(stats.frequencies).toEqual([]);
+    expect(stats.latency.publish?.samples).toEqual([]);
+    expect(stats.latency.publish?.count).toBe(4);
+    expect(stats.anomalies.recent).toHaveLength(1);
+    expect(withoutDetails(stats).anomalies.recent).toEqual([]);
+    expect(stats.anomalies.counts.duplicate).toBe(1);
+    expect(stats.averageFrequency).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,239 @@
+import { StatsEngine } from "./StatsEngine";
+import { emptyStats } from "./TopicStream";
+import { HistogramOptions, StreamHistograms, streamHistograms } from "./histogram";
+import { analyzeSync } from "./sync";
+import { FrequencyStats, LATENCY_KINDS, SnapshotOptions } from "./types";
+import {
+  SNAPSHOT_INTERVAL_MS,
+  StatsRequest,
+  StatsResponse,
+  StatsSubscription,
+} from "./workerProtocol";
+import { parseStreamName, withSubStreams } from "../streamSplit";
+
+/**
+ * `stats` without its per-message arrays: frequencies and latency samples, which only the
+ * histograms read and which can hold millions of values in the "all" window.
+ */
+export function withoutSamples(stats: FrequencyStats): FrequencyStats {
+  const latency: FrequencyStats["latency"] = {};
+  for (const kind of LATENCY_KINDS) {
+    const entry = stats.latency[kind];
+    if (entry) {
+      latency[kind] = { ...entry, samples: [] };
+    }
+  }
+  return {
+    ...stats,
+    frequencies: [],
+    filteredFrequencies: [],
+    outlierFrequencies: [],
+    latency,
+  };
+}
+
+/**
+ * `stats` without its samples nor the lists only an expanded topic card shows: the timeline and
+ * the recent gaps and anomalies. Everything a collapsed topic card, sorting, health and exports to
+ * diagnostics or variables read is kept.
+ */
+export function withoutDetails(stats: FrequencyStats): FrequencyStats {
+  return {
+    ...withoutSamples(stats),
+    gaps: [],
+    anomalies: { counts: stats.anomalies.counts, recent: [] },
+    timeline: [],
+  };
+}
+
+function sameHistogramOptions(a?: HistogramOptions, b?: HistogramOptions): boolean {
+  return a?.periods === b?.periods && a?.highlightOutliers === b?.highlightOutliers;
+}
+
+/**
+ * The statistics worker's side of `StatsWorkerClient`: owns the `StatsEngine`, applies requests
+ * in order and posts snapshots of the subscribed topics at most every `SNAPSHOT_INTERVAL_MS`, or
+ * the longer interval the client asks for while it can't keep up.
+ * Only snapshots that changed since the previous post are sent, never with their per-message
+ * arrays: topics the panel shows in detail get their lists and their histograms binned here, so
+ * the main thread never deserializes more than it draws. Kept apart from the worker entry point so
+ * it runs anywhere.
+ */
+export class StatsService {
+  #post: (response: StatsResponse) => void;
+  // Replaced by the client's first setWindow.
+  #engine = new StatsEngine({ mode: "all" });
+  #subscription?: StatsSubscription;
+  #detailed = new Set<string>();
+  /** Replaced only when the binning changes, so posts can compare it by identity. */
+  #histogramOptions?: HistogramOptions;
+  /** Engine snapshot last posted per stream, and the binning it went out with if detailed. */
+  #posted = new Map<
+    string,
+    { stats: FrequencyStats; detailed: boolean; histogramOptions?: HistogramOptions }
+  >();
+  /** Placeholders for subscribed topics without messages, kept so they compare equal. */
+  #empty = new Map<string, FrequencyStats>();
+  #postedVersion = -1;
+  #subscriptionChanged = false;
+  #interval = SNAPSHOT_INTERVAL_MS;
+  #lastPost = -Infinity;
+  #timer?: ReturnType<typeof setTimeout>;
+
+  public constructor(post: (response: StatsResponse) => void) {
+    this.#post = post;
+  }
+
+  public handle(request: StatsRequest): void {
+    switch (request.type) {
+      case "add":
+        for (const { streams, sample } of request.samples) {
+          for (const stream of streams) {
+            this.#engine.addMessage(stream, sample);
+          }
+        }
+        break;
+      case "reset":
+        this.#engine.reset();
+        this.#posted.clear();
+        break;
+      case "resetTopic":
+        for (const stream of this.#engine.topics) {
+          if (parseStreamName(stream).topic === request.topic) {
+            this.#engine.resetTopic(stream);
+          }
+        }
+        break;
+      case "trimBefore":
+        this.#engine.trimBefore(request.cutoff);
+        break;
+      case "setWindow":
+        this.#engine.setWindow(request.window);
+        break;
+      case "setTimelineResolution":
+        this.#engine.setTimelineResolution(request.seconds);
+        break;
+      case "setClockJumpThreshold":
+        this.#engine.setClockJumpThreshold(request.seconds);
+        break;
+      case "setSnapshotInterval":
+        this.#interval = Math.max(SNAPSHOT_INTERVAL_MS, request.milliseconds);
+        return;
+      case "subscribe":
+        this.#subscription = request.subscription;
+        this.#detailed = new Set(request.subscription.detailed);
+        if (!sameHistogramOptions(this.#histogramOptions, request.subscription.histograms)) {
+          this.#histogramOptions = request.subscription.histograms;
+        }
+        this.#engine.setGapOptions(
+          request.subscription.gapFactor,
+          request.subscription.expectedRates,
+        );
+        this.#subscriptionChanged = true;
+        break;
+      case "timestamps":
+        this.#post({
+          type: "timestamps",
+          id: request.id,
+          timestamps: request.topics.map((topic) => this.#engine.getTimestamps(topic)),
+        });
+        return;
+      case "snapshots": {
+        const subscription = this.#subscription;
+        this.#post({
+          type: "snapshots",
+          id: request.id,
+          stats: subscription
+            ? request.streams.map((stream) => this.#snapshot(stream, subscription))
+            : [],
+        });
+        return;
+      }
+    }
+    this.#schedulePost();
+  }
+
+  #schedulePost(): void {
+    if (this.#timer != undefined) {
+      return;
+    }
+    const wait = Math.max(0, this.#lastPost + this.#interval - performance.now());
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.#postSnapshot();
+    }, wait);
+  }
+
+  #postSnapshot(): void {
+    const subscription = this.#subscription;
+    if (
+      !subscription ||
+      (this.#engine.version === this.#postedVersion && !this.#subscriptionChanged)
+    ) {
+      return;
+    }
+    this.#lastPost = performance.now();
+    this.#postedVersion = this.#engine.version;
+    this.#subscriptionChanged = false;
+
+    const streams = withSubStreams(subscription.topics, this.#engine.topics);
+    const changed: FrequencyStats[] = [];
+    const histograms: Record<string, StreamHistograms> = {};
+    for (const stream of streams) {
+      const stats = this.#snapshot(stream, subscription);
+      const detailed = this.#detailed.has(stream);
+      const histogramOptions = detailed ? this.#histogramOptions : undefined;
+      const posted = this.#posted.get(stream);
+      if (
+        posted?.stats !== stats ||
+        posted.detailed !== detailed ||
+        posted.histogramOptions !== histogramOptions
+      ) {
+        changed.push(detailed ? withoutSamples(stats) : withoutDetails(stats));
+        if (histogramOptions) {
+          histograms[stream] = streamHistograms(stats, histogramOptions);
+        }
+        this.#posted.set(stream, { stats, detailed, histogramOptions });
+      }
+    }
+    // Forget streams that left the subscription so they are sent again if they come back.
+    const current = new Set(streams);
+    for (const stream of this.#posted.keys()) {
+      if (!current.has(stream)) {
+        this.#posted.delete(stream);
+      }
+    }
+    const { sync } = subscription;
+    this.#post({
+      type: "snapshot",
+      streams,
+      changed,
+      histograms,
+      sync:
+        sync &&
+        analyzeSync(
+          sync.topics.map((topic) => ({
+            topic,
+            timestamps: this.#engine.getSortedTimestamps(topic),
+          })),
+          sync.slop,
+        ),
+    });
+  }
+
+  #snapshot(stream: string, subscription: StatsSubscription): FrequencyStats {
+    if (!this.#engine.hasTopic(stream)) {
+      let empty = this.#empty.get(stream);
+      if (!empty) {
+        empty = emptyStats(stream, 0);
+        this.#empty.set(stream, empty);
+      }
+      return empty;
+    }
+    const options: SnapshotOptions = {
+      outliers: subscription.outliers,
+      expectedRate: subscription.expectedRates[stream],
+    };
+    return this.#engine.getSnapshot(stream, options);
+  }
+}
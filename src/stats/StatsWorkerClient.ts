@@ -0,0 +1,180 @@
+import StatsWorker from "worker-loader?inline=no-fallback!./statsWorker";
+
+import { SnapshotBudget } from "./SnapshotBudget";
+import { StreamHistograms } from "./histogram";
+import { SyncStats } from "./sync";
+import { FrequencyStats, MessageSample, StatsWindow } from "./types";
+import { StatsRequest, StatsResponse, StatsSubscription, StreamSample } from "./workerProtocol";
+
+/** Samples posted per message, so ingesting a whole recording doesn't make one huge copy. */
+const MAX_SAMPLES_PER_POST = 10_000;
+
+/** What the worker last reported for the subscribed topics. */
+export interface StatsSnapshot {
+  /** Subscribed topics and their sub-streams, in display order before sorting. */
+  streams: string[];
+  /** Snapshots without their per-message arrays. */
+  stats: ReadonlyMap<string, FrequencyStats>;
+  /** Histograms of the streams subscribed in detail while histograms are shown. */
+  histograms: ReadonlyMap<string, StreamHistograms>;
+  sync?: SyncStats;
+}
+
+/**
+ * Runs a `StatsEngine` in a Web Worker, started from a Blob URL since an extension is a single
+ * evaluated script. Ingestion, snapshots, arrival pattern and sync analysis all happen in the
+ * worker; the main thread only extracts a sample per message and merges the snapshots the worker
+ * posts at most every `SNAPSHOT_INTERVAL_MS`.
+ *
+ * Samples are buffered until `flush` or the next control request, so requests reach the worker in
+ * the order they were made.
+ *
+ * The panel reports when it has committed each snapshot, and the worker is asked to post less
+ * often while that takes longer than `SNAPSHOT_BUDGET_MS`.
+ */
+export class StatsWorkerClient {
+  #worker: Worker;
+  #pending: StreamSample[] = [];
+  #snapshot: StatsSnapshot = { streams: [], stats: new Map(), histograms: new Map() };
+  #requests = new Map<number, (response: StatsResponse) => void>();
+  #nextRequestId = 0;
+  #onSnapshot: (snapshot: StatsSnapshot) => void;
+  #budget = new SnapshotBudget();
+  /** When the snapshot the panel hasn't committed yet arrived. */
+  #receivedAt?: number;
+
+  public constructor(
+    window: StatsWindow,
+    timelineResolution: number,
+    onSnapshot: (snapshot: StatsSnapshot) => void,
+  ) {
+    this.#onSnapshot = onSnapshot;
+    this.#worker = new StatsWorker();
+    this.#worker.onmessage = (event: MessageEvent<StatsResponse>) => {
+      this.#receive(event.data);
+    };
+    this.setWindow(window);
+    this.setTimelineResolution(timelineResolution);
+  }
+
+  /** Records a message on each of `streams`: its topic and any sub-streams. */
+  public addMessage(streams: string[], sample: MessageSample): void {
+    this.#pending.push({ streams, sample });
+    if (this.#pending.length >= MAX_SAMPLES_PER_POST) {
+      this.flush();
+    }
+  }
+
+  /** Sends buffered samples to the worker. */
+  public flush(): void {
+    if (this.#pending.length > 0) {
+      this.#worker.postMessage({ type: "add", samples: this.#pending } satisfies StatsRequest);
+      this.#pending = [];
+    }
+  }
+
+  public reset(): void {
+    this.#send({ type: "reset" });
+  }
+
+  /** Forgets `topic` and its sub-streams. */
+  public resetTopic(topic: string): void {
+    this.#send({ type: "resetTopic", topic });
+  }
+
+  /** Drops data received before `cutoff` seconds of playback time on every topic. */
+  public trimBefore(cutoff: number): void {
+    this.#send({ type: "trimBefore", cutoff });
+  }
+
+  public setWindow(window: StatsWindow): void {
+    this.#send({ type: "setWindow", window });
+  }
+
+  public setTimelineResolution(seconds: number): void {
+    this.#send({ type: "setTimelineResolution", seconds });
+  }
+
+  public setClockJumpThreshold(seconds: number): void {
+    this.#send({ type: "setClockJumpThreshold", seconds });
+  }
+
+  /** Chooses the topics snapshots are posted for and how they are analyzed. */
+  public subscribe(subscription: StatsSubscription): void {
+    this.#send({ type: "subscribe", subscription });
+  }
+
+  /** Arrival times in each of `topics`' windows, oldest first. */
+  public async timestamps(topics: string[]): Promise<number[][]> {
+    const response = await this.#request((id) => ({ type: "timestamps", id, topics }));
+    return response.type === "timestamps" ? response.timestamps : [];
+  }
+
+  /** Complete snapshots of `streams`, including the arrays left out of the posted ones. */
+  public async snapshots(streams: string[]): Promise<FrequencyStats[]> {
+    const response = await this.#request((id) => ({ type: "snapshots", id, streams }));
+    return response.type === "snapshots" ? response.stats : [];
+  }
+
+  /** Called once the panel has committed the latest snapshot, to measure what it cost. */
+  public snapshotRendered(): void {
+    if (this.#receivedAt == undefined) {
+      return;
+    }
+    const interval = this.#budget.record(performance.now() - this.#receivedAt);
+    this.#receivedAt = undefined;
+    if (interval != undefined) {
+      this.#send({ type: "setSnapshotInterval", milliseconds: interval });
+    }
+  }
+
+  public terminate(): void {
+    this.#worker.terminate();
+    this.#requests.clear();
+  }
+
+  #send(request: StatsRequest): void {
+    this.flush();
+    this.#worker.postMessage(request);
+  }
+
+  async #request(build: (id: number) => StatsRequest): Promise<StatsResponse> {
+    const id = this.#nextRequestId++;
+    return await new Promise((resolve) => {
+      this.#requests.set(id, resolve);
+      this.#send(build(id));
+    });
+  }
+
+  #receive(response: StatsResponse): void {
+    switch (response.type) {
+      case "snapshot": {
+        this.#receivedAt = performance.now();
+        // Streams that didn't change keep their previous snapshot and histograms.
+        const changed = new Map(response.changed.map((stats) => [stats.topic, stats]));
+        const stats = new Map<string, FrequencyStats>();
+        const histograms = new Map<string, StreamHistograms>();
+        for (const stream of response.streams) {
+          const latest = changed.get(stream) ?? this.#snapshot.stats.get(stream);
+          if (latest) {
+            stats.set(stream, latest);
+          }
+          const binned = changed.has(stream)
+            ? response.histograms[stream]
+            : this.#snapshot.histograms.get(stream);
+          if (binned) {
+            histograms.set(stream, binned);
+          }
+        }
+        this.#snapshot = { streams: response.streams, stats, histograms, sync: response.sync };
+        this.#onSnapshot(this.#snapshot);
+        break;
+      }
+      case "timestamps":
+      case "snapshots":
+        this.#requests.get(response.id)?.(response);
+        this.#requests.delete(response.id);
+        break;
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { MAX_ANOMALIES_PER_TOPIC, TopicStream } from "./TopicStream";
+import { SnapshotOptions } from "./types";
+
+const OPTIONS: SnapshotOptions = { outliers: { method: "stdDev", threshold: 2 } };
+
+function addSteady(stream: TopicStream, count: number, period: number, start = 0): void {
+  for (let i = 0; i < count; i++) {
+    stream.add({ timestamp: start + i * period });
+  }
+}
+
+describe("TopicStream", () => {
+  it("reports empty statistics until it has an interval", () => {
+    const stream = new TopicStream("/a", { mode: "count", size: 10 });
+    stream.add({ timestamp: 1 });
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.messageCount).toBe(1);
+    expect(stats.frequencies).toEqual([]);
+    expect(stats.period).toBeUndefined();
+  });
+
+  it("computes frequencies over a count window", () => {
+    const stream = new TopicStream("/a", { mode: "count", size: 5 });
+    addSteady(stream, 20, 0.1);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.messageCount).toBe(5);
+    expect(stats.frequencies).toHaveLength(4);
+    expect(stats.averageFrequency).toBeCloseTo(10);
+    expect(stats.period?.mean).toBeCloseTo(0.1);
+    expect(stream.runningFrequency.mean).toBeCloseTo(10);
+  });
+
+  it("drops messages that fall out of a time window", () => {
+    const stream = new TopicStream("/a", { mode: "time", seconds: 1 });
+    addSteady(stream, 30, 0.25);
+    expect(stream.timestamps()).toEqual([6.25, 6.5, 6.75, 7, 7.25]);
+  });
+
+  it("separates outliers from the summary", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 50, 0.1);
+    stream.add({ timestamp: 4.91 });
+    addSteady(stream, 10, 0.1, 5.01);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.outlierCount).toBeGreaterThan(0);
+    expect(stats.outlierFrequencies.some((frequency) => frequency > 50)).toBe(true);
+    expect(stats.maxFrequency).toBeCloseTo(10);
+  });
+
+  it("caches snapshots until the data or options change", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 10, 0.1);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stream.snapshot({ ...OPTIONS })).toBe(stats);
+    expect(stream.snapshot({ ...OPTIONS, expectedRate: 5 })).not.toBe(stats);
+    stream.add({ timestamp: 1 });
+    expect(stream.snapshot(OPTIONS)).not.toBe(stats);
+  });
+
+  it("keeps the timestamps that fit a new window", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 10, 1);
+    stream.setWindow({ mode: "count", size: 3 });
+    expect(stream.timestamps()).toEqual([7, 8, 9]);
+    expect(stream.snapshot(OPTIONS).frequencies).toHaveLength(2);
+  });
+
+  it("reports gaps against the mean period or the expected rate", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 20, 0.1);
+    addSteady(stream, 20, 0.1, 3);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.gapCount).toBe(1);
+    expect(stats.gaps[0]?.start).toBeCloseTo(1.9);
+    expect(stats.gaps[0]?.missedMessages).toBe(10);
+    expect(stats.referencePeriod).toBeCloseTo(0.1);
+
+    const expected = new TopicStream("/b", { mode: "all" });
+    expected.setGapOptions({ gapFactor: 3, expectedRate: 50 });
+    addSteady(expected, 20, 0.1);
+    expect(expected.snapshot(OPTIONS).gapCount).toBe(19);
+  });
+
+  it("finds gaps as messages arrive, even once they left the window", () => {
+    const stream = new TopicStream("/a", { mode: "count", size: 10 });
+    addSteady(stream, 20, 0.1);
+    addSteady(stream, 20, 0.1, 3);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.gapCount).toBe(1);
+    expect(stats.gaps[0]?.end).toBe(3);
+  });
+
+  it("leaves earlier snapshots' gaps unchanged", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 20, 0.1);
+    addSteady(stream, 20, 0.1, 3);
+    const gaps = stream.snapshot(OPTIONS).gaps;
+    addSteady(stream, 20, 0.1, 6);
+    expect(gaps).toHaveLength(1);
+    expect(stream.snapshot(OPTIONS).gaps).toHaveLength(2);
+  });
+
+  it("trims data before a cutoff", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 10, 1);
+    const version = stream.version;
+    stream.trimBefore(5);
+    expect(stream.timestamps()).toEqual([5, 6, 7, 8, 9]);
+    expect(stream.version).toBeGreaterThan(version);
+    expect(stream.snapshot(OPTIONS).averageFrequency).toBeCloseTo(1);
+  });
+
+  it("trims by receive time rather than by timestamp", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    for (let i = 0; i < 10; i++) {
+      stream.add({ timestamp: i, receiveTime: 100 + i, sizeInBytes: 10 });
+    }
+    stream.trimBefore(5);
+    expect(stream.messageCount).toBe(10);
+    stream.trimBefore(105);
+    expect(stream.timestamps()).toEqual([5, 6, 7, 8, 9]);
+    expect(stream.snapshot(OPTIONS).size?.count).toBe(5);
+  });
+
+  it("trims gaps that start before the cutoff", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 10, 0.1);
+    addSteady(stream, 10, 0.1, 2);
+    addSteady(stream, 10, 0.1, 4);
+    expect(stream.snapshot(OPTIONS).gapCount).toBe(2);
+    stream.trimBefore(2.5);
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.gapCount).toBe(1);
+    expect(stats.gaps.map((gap) => gap.end)).toEqual([4]);
+  });
+
+  it("forgets everything on reset", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 10, 1);
+    stream.add({ timestamp: 9 });
+    stream.reset();
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.messageCount).toBe(0);
+    expect(stats.anomalies.counts.duplicate).toBe(0);
+    expect(stats.timeline).toEqual([]);
+  });
+
+  it("summarizes periods with percentiles and jitter", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    for (const timestamp of [0, 1, 2, 4]) {
+      stream.add({ timestamp });
+    }
+    const period = stream.snapshot(OPTIONS).period;
+    expect(period?.count).toBe(3);
+    expect(period?.median).toBe(1);
+    expect(period?.p99).toBeCloseTo(1.98);
+    expect(period?.jitter).toBe(1);
+    expect(period?.coefficientOfVariation).toBeCloseTo(Math.sqrt(2 / 9) / (4 / 3));
+  });
+
+  it("buckets message rates into a timeline", () => {
+    const stream = new TopicStream("/a", { mode: "all" }, 1);
+    addSteady(stream, 10, 0.1);
+    addSteady(stream, 5, 0.2, 3);
+    const { timeline } = stream.snapshot(OPTIONS);
+    expect(timeline).toEqual([
+      { time: 0, frequency: 10, receiveTime: 0 },
+      { time: 1, frequency: 0, receiveTime: 1 },
+      { time: 2, frequency: 0, receiveTime: 2 },
+    ]);
+  });
+
+  it("keeps the receive times playback seeks to", () => {
+    const stream = new TopicStream("/a", { mode: "all" }, 1);
+    // Stamps 100 s behind the receive time, as with a clock that isn't synchronized.
+    for (const timestamp of [0, 0.1, 0.2, 0.3, 0.4, 2, 2, 2.1]) {
+      stream.add({ timestamp, receiveTime: timestamp + 100 });
+    }
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.gaps.map((gap) => [gap.start, gap.receiveTime])).toEqual([[0.4, 100.4]]);
+    expect(stats.anomalies.recent).toEqual([
+      { kind: "duplicate", timestamp: 2, receiveTime: 102, delta: 0 },
+    ]);
+    expect(stats.timeline.map((point) => point.receiveTime)).toEqual([100, 101]);
+  });
+
+  it("tracks latency", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    stream.add({ timestamp: 0, latencies: { publish: 0.01 } });
+    stream.add({ timestamp: 1, latencies: { publish: 0.03 } });
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.latency.publish?.mean).toBeCloseTo(0.02);
+    expect(stats.latency.header).toBeUndefined();
+  });
+
+  it("tracks size and bandwidth", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    stream.add({ timestamp: 0, sizeInBytes: 100 });
+    stream.add({ timestamp: 1, sizeInBytes: 300 });
+    const stats = stream.snapshot(OPTIONS);
+    expect(stats.size?.totalBytes).toBe(400);
+    expect(stats.size?.bandwidth).toBe(300);
+  });
+
+  it("counts timestamp anomalies and keeps the most recent ones", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    stream.add({ timestamp: 1, receiveTime: 1 });
+    stream.add({ timestamp: 1, receiveTime: 1.1 });
+    stream.add({ timestamp: 0.5, receiveTime: 1.2 });
+    stream.add({ timestamp: 10, receiveTime: 1.3 });
+    const { anomalies } = stream.snapshot(OPTIONS);
+    expect(anomalies.counts).toEqual({
+      duplicate: 1,
+      outOfOrder: 1,
+      backwardJump: 0,
+      forwardJump: 1,
+    });
+    expect(anomalies.recent.map((anomaly) => anomaly.kind)).toEqual([
+      "duplicate",
+      "outOfOrder",
+      "forwardJump",
+    ]);
+    expect(anomalies.recent[1]?.delta).toBeCloseTo(-0.5);
+  });
+
+  it("caps the recent anomalies but keeps counting", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    for (let i = 0; i < MAX_ANOMALIES_PER_TOPIC + 50; i++) {
+      stream.add({ timestamp: 1 });
+    }
+    const { anomalies } = stream.snapshot(OPTIONS);
+    expect(anomalies.counts.duplicate).toBe(MAX_ANOMALIES_PER_TOPIC + 49);
+    expect(anomalies.recent).toHaveLength(MAX_ANOMALIES_PER_TOPIC);
+  });
+
+  it("leaves earlier snapshots unchanged", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 3, 0.1);
+    stream.add({ timestamp: 0.2 });
+    const first = stream.snapshot(OPTIONS);
+    stream.add({ timestamp: 0.2 });
+    const second = stream.snapshot(OPTIONS);
+    expect(first.anomalies.counts.duplicate).toBe(1);
+    expect(first.anomalies.recent).toHaveLength(1);
+    expect(second.anomalies.counts.duplicate).toBe(2);
+  });
+
+  it("sorts timestamps only when they are out of order", () => {
+    const stream = new TopicStream("/a", { mode: "all" });
+    addSteady(stream, 3, 1);
+    const sorted = stream.sortedTimestamps();
+    expect(sorted).toEqual([0, 1, 2]);
+    expect(stream.sortedTimestamps()).toBe(sorted);
+    stream.add({ timestamp: 0.5 });
+    expect(stream.sortedTimestamps()).toEqual([0, 0.5, 1, 2]);
+    expect(stream.timestamps()).toEqual([0, 1, 2, 0.5]);
+  });
+});
@@ -0,0 +1,696 @@
+import { RingBuffer } from "./RingBuffer";
+import { SampleWindow, windowCapacity } from "./SampleWindow";
+import { sortedMedian, sortedPercentile, summarizeDistribution, summarize } from "./descriptive";
+import { outlierBounds } from "./outliers";
+import { MAX_PATTERN_TIMESTAMPS, analyzeArrivalPattern } from "./pattern";
+import {
+  FrequencyStats,
+  Gap,
+  GapOptions,
+  LATENCY_KINDS,
+  LatencyKind,
+  LatencyStats,
+  MessageSample,
+  PeriodStats,
+  SizeStats,
+  SnapshotOptions,
+  StatsWindow,
+  TIMESTAMP_ANOMALY_KINDS,
+  TimelinePoint,
+  TimestampAnomalies,
+  TimestampAnomaly,
+  TimestampAnomalyKind,
+} from "./types";
+
+/** Gaps kept per topic; older ones are only counted. */
+export const MAX_GAPS_PER_TOPIC = 200;
+
+/** Timeline buckets kept per topic; an hour at the default one-second resolution. */
+export const MAX_TIMELINE_POINTS = 3600;
+
+export const DEFAULT_TIMELINE_RESOLUTION = 1;
+
+/** Timestamp anomalies kept per topic; older ones are only counted. */
+export const MAX_ANOMALIES_PER_TOPIC = 200;
+
+export const DEFAULT_CLOCK_JUMP_THRESHOLD = 1;
+
+export const DEFAULT_GAP_OPTIONS: GapOptions = { gapFactor: 3 };
+
+function noAnomalyCounts(): Record<TimestampAnomalyKind, number> {
+  return { duplicate: 0, outOfOrder: 0, backwardJump: 0, forwardJump: 0 };
+}
+
+function noAnomalies(): TimestampAnomalies {
+  return { counts: noAnomalyCounts(), recent: [] };
+}
+
+export function emptyStats(topic: string, messageCount: number): FrequencyStats {
+  return {
+    topic,
+    messageCount,
+    frequencies: [],
+    sampleCount: 0,
+    averageFrequency: 0,
+    medianFrequency: 0,
+    stdDeviation: 0,
+    minFrequency: 0,
+    maxFrequency: 0,
+    filteredFrequencies: [],
+    outlierFrequencies: [],
+    outlierCount: 0,
+    timestampSources: {},
+    latency: {},
+    gaps: [],
+    gapCount: 0,
+    anomalies: noAnomalies(),
+    referencePeriod: 0,
+    timeline: [],
+    timelineResolution: DEFAULT_TIMELINE_RESOLUTION,
+  };
+}
+
+function sameOptions(a: SnapshotOptions, b: SnapshotOptions): boolean {
+  return (
+    a.outliers.method === b.outliers.method &&
+    a.outliers.threshold === b.outliers.threshold &&
+    a.expectedRate === b.expectedRate
+  );
+}
+
+function latencyStats(samples: number[]): LatencyStats {
+  return { count: samples.length, ...summarizeDistribution(samples), samples };
+}
+
+function periodStats(samples: number[]): PeriodStats {
+  const sorted = Float64Array.from(samples).sort();
+  const summary = summarize(samples);
+  return {
+    count: samples.length,
+    ...summary,
+    p90: sortedPercentile(sorted, 90),
+    p99: sortedPercentile(sorted, 99),
+    p999: sortedPercentile(sorted, 99.9),
+    jitter: summary.max - summary.min,
+    coefficientOfVariation: summary.mean > 0 ? summary.stdDeviation / summary.mean : 0,
+    samples,
+  };
+}
+
+/**
+ * Size distribution over the window plus bandwidth. Each rate counts the bytes that arrived after
+ * the first message of its range, divided by the time the range spans.
+ */
+function sizeStats(
+  window: SampleWindow,
+  total: { bytes: number; firstSize: number; duration: number },
+): SizeStats {
+  const samples = window.values();
+  let bytes = 0;
+  for (const size of samples) {
+    bytes += size;
+  }
+  const span = window.span;
+  return {
+    count: samples.length,
+    ...summarizeDistribution(samples),
+    bandwidth: span > 0 ? (bytes - samples[0]!) / span : 0,
+    totalBytes: total.bytes,
+    averageBandwidth: total.duration > 0 ? (total.bytes - total.firstSize) / total.duration : 0,
+  };
+}
+
+/**
+ * Incrementally maintained statistics for a single topic. Each `add` is O(1) amortized: arrival
+ * times and the instantaneous frequencies between consecutive arrivals live in ring buffers, and
+ * the sum and sum of squares of the windowed frequencies are kept as running totals. Snapshots are
+ * only rebuilt when the window has changed since the last one.
+ */
+export class TopicStream {
+  public readonly topic: string;
+
+  #window: StatsWindow;
+  #timestamps: RingBuffer;
+  /** Receive time of the message with the same index in `#timestamps`. */
+  #receiveTimes: RingBuffer;
+  /** Frequency of the interval ending at the timestamp with the same index; NaN when invalid. */
+  #frequencies: RingBuffer;
+  #sum = 0;
+  #sumSquares = 0;
+  #validCount = 0;
+  /** Removals since the running totals were last recomputed, to bound floating point drift. */
+  #removalsSinceResync = 0;
+  #version = 0;
+  #sourceCounts = new Map<string, number>();
+  #latencies: Record<LatencyKind, SampleWindow>;
+  #sizes: SampleWindow;
+  /** Bytes since the last reset, and when the first and latest sized messages arrived. */
+  #totalBytes = 0;
+  #firstSize = 0;
+  #firstSizeTime = NaN;
+  #lastSizeTime = NaN;
+  #gapOptions: GapOptions;
+  #gaps: Gap[] = [];
+  /** Whether a snapshot holds `#gaps`, which must then be copied before it changes. */
+  #gapsShared = false;
+  #gapCount = 0;
+  #timelineResolution: number;
+  /** Start times, message counts and receive-time offsets of completed timeline buckets. */
+  #timelineStarts = new RingBuffer(MAX_TIMELINE_POINTS);
+  #timelineCounts = new RingBuffer(MAX_TIMELINE_POINTS);
+  #timelineOffsets = new RingBuffer(MAX_TIMELINE_POINTS);
+  #openBucketStart = NaN;
+  #openBucketCount = 0;
+  #openBucketOffset = 0;
+  #clockJumpThreshold: number;
+  #anomalyCounts = noAnomalyCounts();
+  /**
+   * Recent anomalies: kind as an index into `TIMESTAMP_ANOMALY_KINDS`, timestamp, receive time and
+   * delta.
+   */
+  #anomalyKinds = new RingBuffer(MAX_ANOMALIES_PER_TOPIC);
+  #anomalyTimestamps = new RingBuffer(MAX_ANOMALIES_PER_TOPIC);
+  #anomalyReceiveTimes = new RingBuffer(MAX_ANOMALIES_PER_TOPIC);
+  #anomalyDeltas = new RingBuffer(MAX_ANOMALIES_PER_TOPIC);
+  /** Timestamp and timestamp-minus-receive-time offset of the previous message. */
+  #previousTimestamp = NaN;
+  #previousOffset = NaN;
+  /** Receive time of the newest message in the window. */
+  #lastReceiveTime = NaN;
+  #snapshot?: { version: number; options: SnapshotOptions; stats: FrequencyStats };
+  #sortedTimestamps?: { version: number; timestamps: readonly number[] };
+
+  public constructor(
+    topic: string,
+    window: StatsWindow,
+    timelineResolution = DEFAULT_TIMELINE_RESOLUTION,
+    clockJumpThreshold = DEFAULT_CLOCK_JUMP_THRESHOLD,
+    gapOptions = DEFAULT_GAP_OPTIONS,
+  ) {
+    this.topic = topic;
+    this.#window = window;
+    this.#timelineResolution = timelineResolution;
+    this.#clockJumpThreshold = clockJumpThreshold;
+    this.#gapOptions = gapOptions;
+    this.#timestamps = new RingBuffer(windowCapacity(window));
+    this.#receiveTimes = new RingBuffer(windowCapacity(window));
+    this.#frequencies = new RingBuffer(windowCapacity(window));
+    this.#latencies = {
+      publish: new SampleWindow(window),
+      header: new SampleWindow(window),
+    };
+    this.#sizes = new SampleWindow(window);
+  }
+
+  /** Incremented on every change; consumers can compare it to skip unchanged topics. */
+  public get version(): number {
+    return this.#version;
+  }
+
+  public get messageCount(): number {
+    return this.#timestamps.length;
+  }
+
+  /** Running mean and standard deviation of the windowed frequencies, available in O(1). */
+  public get runningFrequency(): { mean: number; stdDeviation: number } {
+    if (this.#validCount === 0) {
+      return { mean: 0, stdDeviation: 0 };
+    }
+    const mean = this.#sum / this.#validCount;
+    const variance = Math.max(0, this.#sumSquares / this.#validCount - mean * mean);
+    return { mean, stdDeviation: Math.sqrt(variance) };
+  }
+
+  /** Arrival times in the window in seconds, oldest first. */
+  public timestamps(): number[] {
+    return this.#timestamps.toArray();
+  }
+
+  /** Timestamps in the window in ascending order, cached until the window changes. */
+  public sortedTimestamps(): readonly number[] {
+    if (this.#sortedTimestamps?.version !== this.#version) {
+      const timestamps = this.#timestamps.toArray();
+      // Usually already in order; sorting is only needed after out-of-order messages.
+      if (timestamps.some((time, i) => i > 0 && time < timestamps[i - 1]!)) {
+        timestamps.sort((a, b) => a - b);
+      }
+      this.#sortedTimestamps = { version: this.#version, timestamps };
+    }
+    return this.#sortedTimestamps.timestamps;
+  }
+
+  /** Newest arrival time in seconds, or undefined if the window is empty. */
+  public get lastTimestamp(): number | undefined {
+    return this.#timestamps.length > 0 ? this.#timestamps.last() : undefined;
+  }
+
+  /**
+   * Records a message. The sample's `source` labels which clock its timestamp came from and is
+   * only counted, never interpreted.
+   */
+  public add(sample: MessageSample): void {
+    const { timestamp, source } = sample;
+    if (source != undefined) {
+      this.#sourceCounts.set(source, (this.#sourceCounts.get(source) ?? 0) + 1);
+    }
+
+    // Without a receive time the timestamp is the receive time.
+    const receiveTime = sample.receiveTime ?? timestamp;
+    this.#detectAnomalies(timestamp, sample.receiveTime, receiveTime);
+    const previous = this.#timestamps.length > 0 ? this.#timestamps.last() : NaN;
+    const referencePeriod = this.#gapReferencePeriod();
+    this.#pushTimestamp(timestamp, receiveTime);
+    this.#detectGap(previous, timestamp, referencePeriod);
+    this.#lastReceiveTime = receiveTime;
+    this.#countInTimeline(timestamp, receiveTime - timestamp);
+
+    for (const kind of LATENCY_KINDS) {
+      const latency = sample.latencies?.[kind];
+      if (latency != undefined) {
+        this.#latencies[kind].push(timestamp, latency, receiveTime);
+      }
+    }
+
+    if (sample.sizeInBytes != undefined) {
+      this.#recordSize(timestamp, sample.sizeInBytes, receiveTime);
+    }
+
+    this.#version++;
+  }
+
+  /** Changes the window, discarding samples that no longer fit. */
+  public setWindow(window: StatsWindow): void {
+    const timestamps = this.#timestamps.toArray();
+    const receiveTimes = this.#receiveTimes.toArray();
+    this.#window = window;
+    this.#timestamps = new RingBuffer(windowCapacity(window));
+    this.#receiveTimes = new RingBuffer(windowCapacity(window));
+    this.#frequencies = new RingBuffer(windowCapacity(window));
+    this.#resetTotals();
+    timestamps.forEach((timestamp, i) => {
+      this.#pushTimestamp(timestamp, receiveTimes[i]!);
+    });
+    for (const kind of LATENCY_KINDS) {
+      this.#latencies[kind].setWindow(window);
+    }
+    this.#sizes.setWindow(window);
+    this.#snapshot = undefined;
+    this.#version++;
+  }
+
+  /**
+   * Drops everything received before `cutoff` seconds, including the newest messages if they are
+   * all older. Used to keep the window anchored to the playhead rather than the latest message, so
+   * the cutoff is in playback time whichever timestamp source the statistics use.
+   */
+  public trimBefore(cutoff: number): void {
+    let trimmed = false;
+    while (this.#receiveTimes.length > 0 && this.#receiveTimes.first() < cutoff) {
+      this.#evictOldest();
+      trimmed = true;
+    }
+    const gaps = this.#gaps.filter((gap) => gap.receiveTime >= cutoff);
+    if (gaps.length < this.#gaps.length) {
+      // Gaps that were only counted are older than the kept ones, so none of them remain either.
+      this.#gaps = gaps;
+      this.#gapsShared = false;
+      this.#gapCount = gaps.length;
+      trimmed = true;
+    }
+    for (const kind of LATENCY_KINDS) {
+      trimmed = this.#latencies[kind].trimBefore(cutoff) || trimmed;
+    }
+    trimmed = this.#sizes.trimBefore(cutoff) || trimmed;
+    if (trimmed) {
+      this.#version++;
+    }
+  }
+
+  /** Changes the timeline bucket width, discarding the timeline recorded so far. */
+  public setTimelineResolution(seconds: number): void {
+    this.#timelineResolution = seconds;
+    this.#clearTimeline();
+    this.#snapshot = undefined;
+    this.#version++;
+  }
+
+  /** Offset changes larger than this many seconds count as clock jumps from the next message on. */
+  public setClockJumpThreshold(seconds: number): void {
+    this.#clockJumpThreshold = seconds;
+  }
+
+  /** Applies to intervals from the next message on; gaps already found are kept. */
+  public setGapOptions(options: GapOptions): void {
+    this.#gapOptions = options;
+  }
+
+  public reset(): void {
+    this.#timestamps.clear();
+    this.#receiveTimes.clear();
+    this.#frequencies.clear();
+    this.#resetTotals();
+    this.#sourceCounts.clear();
+    for (const kind of LATENCY_KINDS) {
+      this.#latencies[kind].clear();
+    }
+    this.#sizes.clear();
+    this.#totalBytes = 0;
+    this.#firstSize = 0;
+    this.#firstSizeTime = NaN;
+    this.#lastSizeTime = NaN;
+    this.#gaps = [];
+    this.#gapsShared = false;
+    this.#gapCount = 0;
+    this.#anomalyCounts = noAnomalyCounts();
+    this.#anomalyKinds.clear();
+    this.#anomalyTimestamps.clear();
+    this.#anomalyReceiveTimes.clear();
+    this.#anomalyDeltas.clear();
+    this.#previousTimestamp = NaN;
+    this.#previousOffset = NaN;
+    this.#lastReceiveTime = NaN;
+    this.#clearTimeline();
+    this.#snapshot = undefined;
+    this.#version++;
+  }
+
+  /**
+   * Statistics over the current window. Frequencies classified as outliers by `options.outliers`
+   * are excluded from the summary values.
+   */
+  public snapshot(options: SnapshotOptions): FrequencyStats {
+    const cached = this.#snapshot;
+    if (cached?.version === this.#version && sameOptions(cached.options, options)) {
+      return cached.stats;
+    }
+    const stats = this.#computeSnapshot(options);
+    this.#snapshot = { version: this.#version, options, stats };
+    return stats;
+  }
+
+  #computeSnapshot(options: SnapshotOptions): FrequencyStats {
+    const messageCount = this.#timestamps.length;
+    const common: Pick<
+      FrequencyStats,
+      "timestampSources" | "latency" | "size" | "timeline" | "timelineResolution"
+    > = {
+      timestampSources: Object.fromEntries(this.#sourceCounts),
+      latency: {},
+      timeline: this.#timeline(),
+      timelineResolution: this.#timelineResolution,
+    };
+    for (const kind of LATENCY_KINDS) {
+      if (this.#latencies[kind].length > 0) {
+        common.latency[kind] = latencyStats(this.#latencies[kind].values());
+      }
+    }
+    if (this.#sizes.length > 0) {
+      common.size = sizeStats(this.#sizes, {
+        bytes: this.#totalBytes,
+        firstSize: this.#firstSize,
+        duration: this.#lastSizeTime - this.#firstSizeTime,
+      });
+    }
+    this.#gapsShared = true;
+    if (messageCount < 2 || this.#validCount === 0) {
+      return {
+        ...emptyStats(this.topic, messageCount),
+        ...common,
+        gaps: this.#gaps,
+        gapCount: this.#gapCount,
+        anomalies: this.#copyAnomalies(),
+      };
+    }
+
+    const frequencies: number[] = [];
+    const periods: number[] = [];
+    for (let i = 0; i < this.#frequencies.length; i++) {
+      const frequency = this.#frequencies.get(i);
+      if (Number.isFinite(frequency)) {
+        frequencies.push(frequency);
+        // Taken from the timestamps rather than inverting the frequency to keep full precision.
+        periods.push(this.#timestamps.get(i) - this.#timestamps.get(i - 1));
+      }
+    }
+
+    // Bounds are computed exactly over the window rather than from the running totals, whose sum
+    // of squares loses precision on very regular topics.
+    let filteredFrequencies = frequencies;
+    const outlierFrequencies: number[] = [];
+    let bounds;
+    if (frequencies.length >= 3) {
+      bounds = outlierBounds(frequencies, options.outliers, options.expectedRate);
+      filteredFrequencies = [];
+      for (const frequency of frequencies) {
+        if (frequency >= bounds.lower && frequency <= bounds.upper) {
+          filteredFrequencies.push(frequency);
+        } else {
+          outlierFrequencies.push(frequency);
+        }
+      }
+    }
+
+    const referencePeriod =
+      options.expectedRate != undefined && options.expectedRate > 0
+        ? 1 / options.expectedRate
+        : 1 / sortedMedian(Float64Array.from(frequencies).sort());
+
+    const summary = summarize(filteredFrequencies);
+    return {
+      topic: this.topic,
+      messageCount,
+      frequencies,
+      sampleCount: frequencies.length,
+      averageFrequency: summary.mean,
+      medianFrequency: summary.median,
+      stdDeviation: summary.stdDeviation,
+      minFrequency: summary.min,
+      maxFrequency: summary.max,
+      filteredFrequencies,
+      outlierFrequencies,
+      outlierCount: outlierFrequencies.length,
+      outlierBounds: bounds,
+      period: periodStats(periods),
+      pattern: analyzeArrivalPattern(this.#timestamps.toArray(MAX_PATTERN_TIMESTAMPS)),
+      ...common,
+      gaps: this.#gaps,
+      gapCount: this.#gapCount,
+      anomalies: this.#copyAnomalies(),
+      referencePeriod,
+    };
+  }
+
+  /**
+   * Period gaps are measured against: the expected one, or the mean period of the window so far.
+   * NaN until the window has an interval.
+   */
+  #gapReferencePeriod(): number {
+    const { expectedRate } = this.#gapOptions;
+    if (expectedRate != undefined && expectedRate > 0) {
+      return 1 / expectedRate;
+    }
+    return this.#validCount > 0 ? this.#validCount / this.#sum : NaN;
+  }
+
+  /** Records the interval from `start` to `end` as a gap if it is long enough. */
+  #detectGap(start: number, end: number, referencePeriod: number): void {
+    const duration = end - start;
+    if (!(referencePeriod > 0) || !(duration > referencePeriod * this.#gapOptions.gapFactor)) {
+      return;
+    }
+    if (this.#gapsShared) {
+      this.#gaps = [...this.#gaps];
+      this.#gapsShared = false;
+    }
+    this.#gaps.push({
+      start,
+      end,
+      duration,
+      missedMessages: Math.max(0, Math.round(duration / referencePeriod) - 1),
+      receiveTime: this.#lastReceiveTime,
+    });
+    this.#gapCount++;
+    if (this.#gaps.length > MAX_GAPS_PER_TOPIC) {
+      this.#gaps.shift();
+    }
+  }
+
+  #recordSize(timestamp: number, size: number, receiveTime: number): void {
+    this.#sizes.push(timestamp, size, receiveTime);
+    if (Number.isNaN(this.#firstSizeTime)) {
+      this.#firstSize = size;
+      this.#firstSizeTime = timestamp;
+    }
+    this.#lastSizeTime = Number.isNaN(this.#lastSizeTime)
+      ? timestamp
+      : Math.max(this.#lastSizeTime, timestamp);
+    this.#totalBytes += size;
+  }
+
+  #timeline(): TimelinePoint[] {
+    const points: TimelinePoint[] = [];
+    for (let i = 0; i < this.#timelineStarts.length; i++) {
+      const time = this.#timelineStarts.get(i);
+      points.push({
+        time,
+        frequency: this.#timelineCounts.get(i) / this.#timelineResolution,
+        receiveTime: time + this.#timelineOffsets.get(i),
+      });
+    }
+    return points;
+  }
+
+  /**
+   * Counts a message in its timeline bucket. The bucket still being filled is left out of
+   * snapshots because its rate would read low; empty buckets are recorded as zero rate.
+   * `receiveOffset` is the message's receive time minus its timestamp.
+   */
+  #countInTimeline(timestamp: number, receiveOffset: number): void {
+    const width = this.#timelineResolution;
+    const bucketStart = Math.floor(timestamp / width) * width;
+    if (Number.isNaN(this.#openBucketStart)) {
+      this.#openBucketStart = bucketStart;
+      this.#openBucketOffset = receiveOffset;
+    } else if (bucketStart > this.#openBucketStart) {
+      this.#timelineStarts.push(this.#openBucketStart);
+      this.#timelineCounts.push(this.#openBucketCount);
+      this.#timelineOffsets.push(this.#openBucketOffset);
+      const emptyBuckets = Math.min(
+        Math.round((bucketStart - this.#openBucketStart) / width) - 1,
+        MAX_TIMELINE_POINTS,
+      );
+      for (let i = emptyBuckets; i >= 1; i--) {
+        this.#timelineStarts.push(bucketStart - i * width);
+        this.#timelineCounts.push(0);
+        this.#timelineOffsets.push(receiveOffset);
+      }
+      this.#openBucketStart = bucketStart;
+      this.#openBucketCount = 0;
+      this.#openBucketOffset = receiveOffset;
+    }
+    // Out-of-order messages are counted in the open bucket.
+    this.#openBucketCount++;
+  }
+
+  #clearTimeline(): void {
+    this.#timelineStarts.clear();
+    this.#timelineCounts.clear();
+    this.#timelineOffsets.clear();
+    this.#openBucketStart = NaN;
+    this.#openBucketCount = 0;
+    this.#openBucketOffset = 0;
+  }
+
+  #detectAnomalies(
+    timestamp: number,
+    sampleReceiveTime: number | undefined,
+    receiveTime: number,
+  ): void {
+    const previous = this.#previousTimestamp;
+    const offset = sampleReceiveTime != undefined ? timestamp - sampleReceiveTime : NaN;
+    const offsetChange = offset - this.#previousOffset;
+    this.#previousTimestamp = timestamp;
+    this.#previousOffset = offset;
+
+    if (timestamp === previous) {
+      this.#recordAnomaly("duplicate", timestamp, receiveTime, 0);
+    } else if (timestamp < previous) {
+      this.#recordAnomaly("outOfOrder", timestamp, receiveTime, timestamp - previous);
+    }
+    // NaN when either message lacks a receive time, which fails both comparisons.
+    if (offsetChange > this.#clockJumpThreshold) {
+      this.#recordAnomaly("forwardJump", timestamp, receiveTime, offsetChange);
+    } else if (offsetChange < -this.#clockJumpThreshold) {
+      this.#recordAnomaly("backwardJump", timestamp, receiveTime, offsetChange);
+    }
+  }
+
+  #recordAnomaly(
+    kind: TimestampAnomalyKind,
+    timestamp: number,
+    receiveTime: number,
+    delta: number,
+  ): void {
+    this.#anomalyCounts[kind]++;
+    this.#anomalyKinds.push(TIMESTAMP_ANOMALY_KINDS.indexOf(kind));
+    this.#anomalyTimestamps.push(timestamp);
+    this.#anomalyReceiveTimes.push(receiveTime);
+    this.#anomalyDeltas.push(delta);
+  }
+
+  /** Copied so snapshots handed out earlier stay unchanged. */
+  #copyAnomalies(): TimestampAnomalies {
+    const recent: TimestampAnomaly[] = [];
+    for (let i = 0; i < this.#anomalyKinds.length; i++) {
+      recent.push({
+        kind: TIMESTAMP_ANOMALY_KINDS[this.#anomalyKinds.get(i)]!,
+        timestamp: this.#anomalyTimestamps.get(i),
+        receiveTime: this.#anomalyReceiveTimes.get(i),
+        delta: this.#anomalyDeltas.get(i),
+      });
+    }
+    return { counts: { ...this.#anomalyCounts }, recent };
+  }
+
+  #pushTimestamp(timestamp: number, receiveTime: number): void {
+    const previous = this.#timestamps.last();
+    const interval = timestamp - previous;
+    const frequency = interval > 0 ? 1.0 / interval : NaN;
+
+    if (this.#timestamps.isFull()) {
+      this.#evictOldest();
+    }
+    this.#timestamps.push(timestamp);
+    this.#receiveTimes.push(receiveTime);
+    this.#frequencies.push(frequency);
+    this.#accumulate(frequency, 1);
+
+    if (this.#window.mode === "time") {
+      const cutoff = timestamp - this.#window.seconds;
+      while (this.#timestamps.length > 1 && this.#timestamps.first() < cutoff) {
+        this.#evictOldest();
+      }
+    }
+  }
+
+  #resetTotals(): void {
+    this.#sum = 0;
+    this.#sumSquares = 0;
+    this.#validCount = 0;
+    this.#removalsSinceResync = 0;
+  }
+
+  #evictOldest(): void {
+    this.#timestamps.shift();
+    this.#receiveTimes.shift();
+    this.#accumulate(this.#frequencies.shift() ?? NaN, -1);
+    // The interval ending at the new oldest timestamp now starts outside the window.
+    this.#accumulate(this.#frequencies.first(), -1);
+    this.#frequencies.set(0, NaN);
+  }
+
+  #accumulate(frequency: number, sign: 1 | -1): void {
+    if (!Number.isFinite(frequency)) {
+      return;
+    }
+    this.#sum += sign * frequency;
+    this.#sumSquares += sign * frequency * frequency;
+    this.#validCount += sign;
+
+    if (sign < 0 && ++this.#removalsSinceResync > this.#frequencies.capacity) {
+      this.#resync();
+    }
+  }
+
+  #resync(): void {
+    this.#resetTotals();
+    for (let i = 0; i < this.#frequencies.length; i++) {
+      const frequency = this.#frequencies.get(i);
+      if (Number.isFinite(frequency)) {
+        this.#sum += frequency;
+        this.#sumSquares += frequency * frequency;
+        this.#validCount++;
+      }
+    }
+  }
+}
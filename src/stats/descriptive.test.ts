@@ -0,0 +1,62 @@
+import {
+  EMPTY_SUMMARY,
+  sortedMedian,
+  sortedPercentile,
+  summarize,
+  summarizeDistribution,
+} from "./descriptive";
+
+describe("sortedMedian", () => {
+  it("picks the middle value or averages the middle two", () => {
+    expect(sortedMedian([1, 2, 3])).toBe(2);
+    expect(sortedMedian([1, 2, 3, 4])).toBe(2.5);
+    expect(sortedMedian([])).toBe(0);
+  });
+});
+
+describe("sortedPercentile", () => {
+  it("interpolates between neighbours", () => {
+    expect(sortedPercentile([0, 10], 25)).toBe(2.5);
+    expect(sortedPercentile([1, 2, 3, 4, 5], 50)).toBe(3);
+  });
+
+  it("clamps the percentile", () => {
+    expect(sortedPercentile([1, 2, 3], -10)).toBe(1);
+    expect(sortedPercentile([1, 2, 3], 150)).toBe(3);
+    expect(sortedPercentile([], 50)).toBe(0);
+  });
+});
+
+describe("summarize", () => {
+  it("computes mean, median, population standard deviation and range", () => {
+    expect(summarize([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({
+      mean: 5,
+      median: 4.5,
+      stdDeviation: 2,
+      min: 2,
+      max: 9,
+    });
+  });
+
+  it("returns zeros for no values", () => {
+    expect(summarize([])).toEqual(EMPTY_SUMMARY);
+  });
+
+  it("handles windows too large to spread into Math.min", () => {
+    const values = Array.from({ length: 500_000 }, (_, i) => i);
+    const summary = summarize(values);
+    expect(summary.min).toBe(0);
+    expect(summary.max).toBe(499_999);
+  });
+});
+
+describe("summarizeDistribution", () => {
+  it("adds upper percentiles", () => {
+    const values = Array.from({ length: 101 }, (_, i) => 100 - i);
+    const summary = summarizeDistribution(values);
+    expect(summary.median).toBe(50);
+    expect(summary.p90).toBe(90);
+    expect(summary.p95).toBe(95);
+    expect(summary.p99).toBe(99);
+  });
+});
@@ -0,0 +1,86 @@
+export interface Summary {
+  mean: number;
+  median: number;
+  stdDeviation: number;
+  min: number;
+  max: number;
+}
+
+export const EMPTY_SUMMARY: Summary = { mean: 0, median: 0, stdDeviation: 0, min: 0, max: 0 };
+
+/** Median of an ascending-sorted array. */
+export function sortedMedian(sorted: ArrayLike<number>): number {
+  const n = sorted.length;
+  if (n === 0) {
+    return 0;
+  }
+  const mid = Math.floor(n / 2);
+  return n % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Mean, median, population standard deviation and range of `values`. Avoids spreading into
+ * `Math.min`/`Math.max`, which overflows the call stack on large windows.
+ */
+export function summarize(values: readonly number[]): Summary {
+  return summarizeSorted(values, Float64Array.from(values).sort());
+}
+
+function summarizeSorted(values: readonly number[], sorted: Float64Array): Summary {
+  if (values.length === 0) {
+    return EMPTY_SUMMARY;
+  }
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  const mean = sum / values.length;
+
+  let squares = 0;
+  for (const value of values) {
+    squares += (value - mean) ** 2;
+  }
+
+  return {
+    mean,
+    median: sortedMedian(sorted),
+    stdDeviation: Math.sqrt(squares / values.length),
+    min,
+    max,
+  };
+}
+
+export interface DistributionSummary extends Summary {
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+/** Percentile `p` (0-100) of an ascending-sorted array, interpolating between neighbours. */
+export function sortedPercentile(sorted: ArrayLike<number>, p: number): number {
+  const n = sorted.length;
+  if (n === 0) {
+    return 0;
+  }
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (n - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(n - 1, lower + 1);
+  const fraction = rank - lower;
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * fraction;
+}
+
+/** `summarize` plus upper percentiles. */
+export function summarizeDistribution(values: readonly number[]): DistributionSummary {
+  const sorted = Float64Array.from(values).sort();
+  return {
+    ...summarizeSorted(values, sorted),
+    p90: sortedPercentile(sorted, 90),
+    p95: sortedPercentile(sorted, 95),
+    p99: sortedPercentile(sorted, 99),
+  };
+}
@@ -0,0 +1,66 @@
+import { emptyStats } from "./TopicStream";
+import { createHistogram, streamHistograms } from "./histogram";
+import { FrequencyStats } from "./types";
+
+describe("createHistogram", () => {
+  it("bins values over their range", () => {
+    const bins = createHistogram([0, 1, 2, 3], 2);
+    expect(bins).toEqual([
+      { binStart: 0, binEnd: 1.5, count: 2, highlightedCount: 0 },
+      { binStart: 1.5, binEnd: 3, count: 2, highlightedCount: 0 },
+    ]);
+  });
+
+  it("counts highlighted values in both counts", () => {
+    const bins = createHistogram([0, 1], 2, [3]);
+    expect(bins.map((bin) => [bin.count, bin.highlightedCount])).toEqual([
+      [2, 0],
+      [1, 1],
+    ]);
+  });
+
+  it("puts equal values in the first bin and nothing in no bins", () => {
+    expect(createHistogram([5, 5], 3).map((bin) => bin.count)).toEqual([2, 0, 0]);
+    expect(createHistogram([])).toEqual([]);
+  });
+});
+
+describe("streamHistograms", () => {
+  const stats: FrequencyStats = {
+    ...emptyStats("/a", 4),
+    filteredFrequencies: [10, 10, 20],
+    outlierFrequencies: [100],
+    latency: {
+      publish: {
+        count: 2,
+        mean: 0,
+        median: 0,
+        stdDeviation: 0,
+        min: 0,
+        max: 0,
+        p90: 0,
+        p95: 0,
+        p99: 0,
+        samples: [0.01, 0.02],
+      },
+    },
+  };
+
+  it("leaves outliers out unless highlighted", () => {
+    const plain = streamHistograms(stats, { periods: false, highlightOutliers: false }).frequency;
+    expect(plain[plain.length - 1]?.binEnd).toBe(20);
+    const highlighted = streamHistograms(stats, { periods: false, highlightOutliers: true });
+    expect(highlighted.frequency[highlighted.frequency.length - 1]).toMatchObject({
+      binEnd: 100,
+      highlightedCount: 1,
+    });
+  });
+
+  it("bins periods in seconds and the latency samples", () => {
+    const histograms = streamHistograms(stats, { periods: true, highlightOutliers: false });
+    expect(histograms.frequency[0]?.binStart).toBe(0.05);
+    expect(histograms.frequency[histograms.frequency.length - 1]?.binEnd).toBe(0.1);
+    expect(histograms.latency.publish?.reduce((sum, bin) => sum + bin.count, 0)).toBe(2);
+    expect(histograms.latency.header).toBeUndefined();
+  });
+});
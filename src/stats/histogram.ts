@@ -0,0 +1,91 @@
+import { FrequencyStats, LATENCY_KINDS, LatencyKind } from "./types";
+
+export interface HistogramBin {
+  binStart: number;
+  binEnd: number;
+  /** All values in the bin, including highlighted ones. */
+  count: number;
+  highlightedCount: number;
+}
+
+/**
+ * Bins `values` and `highlighted` together over their combined range. Highlighted values are
+ * counted in `count` and separately in `highlightedCount`.
+ */
+export function createHistogram(
+  values: readonly number[],
+  bins = 20,
+  highlighted: readonly number[] = [],
+): HistogramBin[] {
+  if (values.length === 0 && highlighted.length === 0) {
+    return [];
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const series of [values, highlighted]) {
+    for (const value of series) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  const binWidth = (max - min) / bins;
+  const binIndex = (value: number) =>
+    binWidth > 0 ? Math.min(Math.floor((value - min) / binWidth), bins - 1) : 0;
+
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    binStart: min + index * binWidth,
+    binEnd: min + (index + 1) * binWidth,
+    count: 0,
+    highlightedCount: 0,
+  }));
+
+  for (const value of values) {
+    histogram[binIndex(value)]!.count++;
+  }
+  for (const value of highlighted) {
+    const bin = histogram[binIndex(value)]!;
+    bin.count++;
+    bin.highlightedCount++;
+  }
+  return histogram;
+}
+
+/** What the histograms of a topic card show. */
+export interface HistogramOptions {
+  /** Bin the periods in seconds matching the frequencies instead of the frequencies in Hz. */
+  periods: boolean;
+  /** Stack the outliers onto the frequency histogram instead of leaving them out. */
+  highlightOutliers: boolean;
+}
+
+/** The histograms of a topic card, binned where the samples live so only the bins are posted. */
+export interface StreamHistograms {
+  /** Outliers are counted in `highlightedCount` when highlighted. */
+  frequency: HistogramBin[];
+  /** Latencies in seconds, for the kinds the stream has. */
+  latency: Partial<Record<LatencyKind, HistogramBin[]>>;
+}
+
+export function streamHistograms(
+  stats: FrequencyStats,
+  options: HistogramOptions,
+): StreamHistograms {
+  const toValues = (frequencies: number[]) =>
+    options.periods ? frequencies.map((frequency) => 1 / frequency) : frequencies;
+  const latency: StreamHistograms["latency"] = {};
+  for (const kind of LATENCY_KINDS) {
+    const entry = stats.latency[kind];
+    if (entry) {
+      latency[kind] = createHistogram(entry.samples);
+    }
+  }
+  return {
+    frequency: createHistogram(
+      toValues(stats.filteredFrequencies),
+      undefined,
+      options.highlightOutliers ? toValues(stats.outlierFrequencies) : [],
+    ),
+    latency,
+  };
+}
@@ -0,0 +1,55 @@
+import { OUTLIER_METHODS, describeOutlierMethod, outlierBounds } from "./outliers";
+
+const VALUES = [9, 10, 10, 10, 11, 30];
+
+describe("outlierBounds", () => {
+  it("uses standard deviations around the mean", () => {
+    const bounds = outlierBounds([8, 12], { method: "stdDev", threshold: 2 });
+    expect(bounds).toEqual({ lower: 6, upper: 14 });
+  });
+
+  it("uses scaled median absolute deviations around the median", () => {
+    const bounds = outlierBounds(VALUES, { method: "mad", threshold: 3 });
+    expect(bounds.lower).toBeCloseTo(10 - 3 * 1.4826 * 0.5);
+    expect(bounds.upper).toBeCloseTo(10 + 3 * 1.4826 * 0.5);
+    expect(bounds.upper).toBeLessThan(30);
+  });
+
+  it("falls back to the mean absolute deviation when most values are identical", () => {
+    const bounds = outlierBounds([10, 10, 10, 10, 20], { method: "mad", threshold: 1 });
+    expect(bounds.upper).toBeCloseTo(10 + 1.2533 * 2);
+  });
+
+  it("uses Tukey fences", () => {
+    const bounds = outlierBounds([1, 2, 3, 4, 5], { method: "iqr", threshold: 1.5 });
+    expect(bounds).toEqual({ lower: -1, upper: 7 });
+  });
+
+  it("trims percentiles from each tail", () => {
+    const values = Array.from({ length: 101 }, (_, i) => i);
+    expect(outlierBounds(values, { method: "percentile", threshold: 5 })).toEqual({
+      lower: 5,
+      upper: 95,
+    });
+  });
+
+  it("measures against the expected rate or else the median", () => {
+    expect(outlierBounds(VALUES, { method: "expectedRate", threshold: 50 }, 20)).toEqual({
+      lower: 10,
+      upper: 30,
+    });
+    expect(outlierBounds(VALUES, { method: "expectedRate", threshold: 50 })).toEqual({
+      lower: 5,
+      upper: 15,
+    });
+  });
+});
+
+describe("describeOutlierMethod", () => {
+  it("describes every method", () => {
+    for (const method of OUTLIER_METHODS) {
+      expect(describeOutlierMethod({ method, threshold: 3 })).toContain("3");
+    }
+    expect(describeOutlierMethod({ method: "mad", threshold: 3.5 })).toBe("MAD (k = 3.5)");
+  });
+});
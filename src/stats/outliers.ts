@@ -0,0 +1,112 @@
+import { sortedMedian, sortedPercentile, summarize } from "./descriptive";
+
+/**
+ * How outlying frequencies are recognized:
+ * - "stdDev": further than `threshold` standard deviations from the mean
+ * - "mad": further than `threshold` scaled median absolute deviations from the median
+ * - "iqr": outside the Tukey fences, `threshold` interquartile ranges beyond the quartiles
+ * - "percentile": in the lowest or highest `threshold` percent
+ * - "expectedRate": more than `threshold` percent away from the expected rate, or from the median
+ *   when the topic has none
+ */
+export type OutlierMethod = "stdDev" | "mad" | "iqr" | "percentile" | "expectedRate";
+
+export const OUTLIER_METHODS: readonly OutlierMethod[] = [
+  "stdDev",
+  "mad",
+  "iqr",
+  "percentile",
+  "expectedRate",
+];
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  stdDev: "Standard deviation",
+  mad: "Median absolute deviation",
+  iqr: "IQR (Tukey fences)",
+  percentile: "Percentile trim",
+  expectedRate: "Relative to expected rate",
+};
+
+export interface OutlierOptions {
+  method: OutlierMethod;
+  /** The method's parameter; see `OutlierMethod` for its meaning. */
+  threshold: number;
+}
+
+/** Frequencies outside `[lower, upper]` are outliers. */
+export interface OutlierBounds {
+  lower: number;
+  upper: number;
+}
+
+/** Makes the MAD a consistent estimator of the standard deviation for normal data. */
+const MAD_SCALE = 1.4826;
+/** Same for the mean absolute deviation, used when more than half the values are identical. */
+const MEAN_ABSOLUTE_DEVIATION_SCALE = 1.2533;
+
+function madBounds(values: readonly number[], sorted: Float64Array, k: number): OutlierBounds {
+  const median = sortedMedian(sorted);
+  const deviations = Float64Array.from(values, (value) => Math.abs(value - median)).sort();
+  let spread = MAD_SCALE * sortedMedian(deviations);
+  if (spread === 0) {
+    let sum = 0;
+    for (const deviation of deviations) {
+      sum += deviation;
+    }
+    spread = (MEAN_ABSOLUTE_DEVIATION_SCALE * sum) / deviations.length;
+  }
+  return { lower: median - k * spread, upper: median + k * spread };
+}
+
+/** Range of frequencies that are not outliers under `options`. */
+export function outlierBounds(
+  values: readonly number[],
+  options: OutlierOptions,
+  expectedRate?: number,
+): OutlierBounds {
+  const sorted = Float64Array.from(values).sort();
+  const { threshold } = options;
+  switch (options.method) {
+    case "stdDev": {
+      const { mean, stdDeviation } = summarize(values);
+      return { lower: mean - threshold * stdDeviation, upper: mean + threshold * stdDeviation };
+    }
+    case "mad":
+      return madBounds(values, sorted, threshold);
+    case "iqr": {
+      const q1 = sortedPercentile(sorted, 25);
+      const q3 = sortedPercentile(sorted, 75);
+      return { lower: q1 - threshold * (q3 - q1), upper: q3 + threshold * (q3 - q1) };
+    }
+    case "percentile":
+      return {
+        lower: sortedPercentile(sorted, threshold),
+        upper: sortedPercentile(sorted, 100 - threshold),
+      };
+    case "expectedRate": {
+      const reference =
+        expectedRate != undefined && expectedRate > 0 ? expectedRate : sortedMedian(sorted);
+      return {
+        lower: reference * (1 - threshold / 100),
+        upper: reference * (1 + threshold / 100),
+      };
+    }
+  }
+}
+
+/** Short description of the method and its parameter, e.g. "MAD (k = 3.5)". */
+export function describeOutlierMethod(options: OutlierOptions): string {
+  const { threshold } = options;
+  switch (options.method) {
+    case "stdDev":
+      return `Mean ± ${threshold}σ`;
+    case "mad":
+      return `MAD (k = ${threshold})`;
+    case "iqr":
+      return `Tukey fences (k = ${threshold})`;
+    case "percentile":
+      return `Percentile trim (${threshold}% per tail)`;
+    case "expectedRate":
+      return `Expected rate ±${threshold}%`;
+  }
+}
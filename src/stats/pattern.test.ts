@@ -0,0 +1,68 @@
+import {
+  MAX_PATTERN_TIMESTAMPS,
+  MIN_PATTERN_INTERVALS,
+  analyzeArrivalPattern,
+  describeArrivalPattern,
+} from "./pattern";
+
+/** `count` timestamps `period` seconds apart. */
+function steady(count: number, period: number, start = 0): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * period);
+}
+
+/** Bursts of `size` messages 1 ms apart, one burst every `period` seconds. */
+function bursts(count: number, size: number, period: number): number[] {
+  const times: number[] = [];
+  for (let burst = 0; burst < count; burst++) {
+    for (let i = 0; i < size; i++) {
+      times.push(burst * period + i * 0.001);
+    }
+  }
+  return times;
+}
+
+describe("analyzeArrivalPattern", () => {
+  it("needs enough intervals", () => {
+    expect(analyzeArrivalPattern(steady(MIN_PATTERN_INTERVALS, 0.1))).toBeUndefined();
+    expect(analyzeArrivalPattern(steady(MIN_PATTERN_INTERVALS + 1, 0.1))).toBeDefined();
+  });
+
+  it("recognizes a steady rate", () => {
+    const pattern = analyzeArrivalPattern(steady(200, 0.01))!;
+    expect(pattern.kind).toBe("steady");
+    expect(pattern.modes).toHaveLength(1);
+    expect(pattern.modes[0]!.interval).toBeCloseTo(0.01);
+    expect(describeArrivalPattern(pattern)).toMatch(/^Steady at 100\.0 Hz/);
+  });
+
+  it("recognizes bursts", () => {
+    const pattern = analyzeArrivalPattern(bursts(30, 10, 0.1))!;
+    expect(pattern.kind).toBe("bursty");
+    expect(pattern.bursts?.medianSize).toBe(10);
+    expect(pattern.bursts?.burstRate).toBeCloseTo(10, 0);
+    expect(describeArrivalPattern(pattern)).toMatch(/^Bursty: 10 messages per burst/);
+  });
+
+  it("recognizes a drifting rate", () => {
+    const times = [0];
+    for (let i = 0; i < 400; i++) {
+      times.push(times[times.length - 1]! + 0.01 * (1 + i / 400));
+    }
+    const pattern = analyzeArrivalPattern(times)!;
+    expect(pattern.kind).toBe("drifting");
+    expect(pattern.endRate).toBeLessThan(pattern.startRate);
+    expect(describeArrivalPattern(pattern)).toMatch(/^Drifting: rate fell/);
+  });
+
+  it("sorts out-of-order timestamps and ignores duplicates", () => {
+    const times = steady(100, 0.01);
+    const shuffled = [...times.slice(50), ...times.slice(0, 50), times[10]!];
+    expect(analyzeArrivalPattern(shuffled)?.kind).toBe("steady");
+  });
+
+  it("only looks at the newest timestamps", () => {
+    const old = bursts(100, 10, 0.1);
+    const recent = steady(MAX_PATTERN_TIMESTAMPS, 0.01, old[old.length - 1]! + 1);
+    expect(analyzeArrivalPattern([...old, ...recent])?.kind).toBe("steady");
+  });
+});
@@ -0,0 +1,349 @@
+import { sortedMedian, sortedPercentile } from "./descriptive";
+import { ArrivalPattern, ArrivalPatternKind, BurstStats, IntervalMode } from "./types";
+
+/** Intervals needed before a pattern is reported. */
+export const MIN_PATTERN_INTERVALS = 20;
+
+/**
+ * Newest timestamps analyzed; the autocorrelation grows with the square of the count. Callers with
+ * larger windows should pass only their newest timestamps rather than copying the whole window.
+ */
+export const MAX_PATTERN_TIMESTAMPS = 2000;
+
+const MODE_BINS = 40;
+/** Peaks holding less than this fraction of the intervals are merged into their neighbours. */
+const MIN_MODE_FRACTION = 0.05;
+/** Peaks separated by a valley higher than this fraction of the lower peak are one mode. */
+const MAX_VALLEY_RATIO = 0.5;
+
+const CORRELOGRAM_BINS = 400;
+/** The autocorrelation is computed up to this many typical periods. */
+const CORRELOGRAM_PERIODS = 8;
+/** Peaks at least this fraction of the highest one count when picking the fundamental period. */
+const FUNDAMENTAL_RATIO = 0.8;
+const MIN_PERIOD_STRENGTH = 2;
+
+const MAX_STEADY_SPREAD = 0.25;
+const MIN_DRIFT = 0.1;
+
+export const ARRIVAL_PATTERN_LABELS: Record<ArrivalPatternKind, string> = {
+  steady: "Steady",
+  bursty: "Bursty",
+  drifting: "Drifting",
+  irregular: "Irregular",
+};
+
+function sorted(values: readonly number[]): Float64Array {
+  return Float64Array.from(values).sort();
+}
+
+/**
+ * Finds the peaks of the interval distribution in a histogram of log intervals, so bursts at
+ * 1 kHz and pauses of 100 ms both get a peak. Returns the modes and the intervals separating them.
+ */
+function intervalModes(intervals: readonly number[]): {
+  modes: IntervalMode[];
+  boundaries: number[];
+} {
+  const logs = intervals.map(Math.log10);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of logs) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  const single = () => ({
+    modes: [{ interval: sortedMedian(sorted(intervals)), fraction: 1 }],
+    boundaries: [],
+  });
+  if (max - min < Math.log10(1.5)) {
+    return single();
+  }
+
+  const width = (max - min) / MODE_BINS;
+  const binOf = (value: number) => Math.min(Math.floor((value - min) / width), MODE_BINS - 1);
+  const counts = new Array<number>(MODE_BINS).fill(0);
+  for (const value of logs) {
+    counts[binOf(value)]!++;
+  }
+  const smoothed = counts.map(
+    (count, i) => ((counts[i - 1] ?? 0) + 2 * count + (counts[i + 1] ?? 0)) / 4,
+  );
+
+  let peaks: number[] = [];
+  for (let i = 0; i < MODE_BINS; i++) {
+    if (smoothed[i]! > (smoothed[i - 1] ?? -1) && smoothed[i]! >= (smoothed[i + 1] ?? -1)) {
+      peaks.push(i);
+    }
+  }
+  const valley = (left: number, right: number) => {
+    let lowest = left;
+    for (let i = left; i <= right; i++) {
+      if (smoothed[i]! < smoothed[lowest]!) {
+        lowest = i;
+      }
+    }
+    return lowest;
+  };
+  const regionCounts = () =>
+    peaks.map((_, k) => {
+      const start = k === 0 ? 0 : valley(peaks[k - 1]!, peaks[k]!) + 1;
+      const end = k === peaks.length - 1 ? MODE_BINS - 1 : valley(peaks[k]!, peaks[k + 1]!);
+      return counts.slice(start, end + 1).reduce((sum, count) => sum + count, 0);
+    });
+
+  // Merge peaks without a clear dip between them, keeping the higher one.
+  for (let k = 0; k + 1 < peaks.length; ) {
+    const left = peaks[k]!;
+    const right = peaks[k + 1]!;
+    const lower = Math.min(smoothed[left]!, smoothed[right]!);
+    if (smoothed[valley(left, right)]! > MAX_VALLEY_RATIO * lower) {
+      peaks.splice(smoothed[left]! < smoothed[right]! ? k : k + 1, 1);
+      k = Math.max(0, k - 1);
+    } else {
+      k++;
+    }
+  }
+  while (peaks.length > 1) {
+    const masses = regionCounts();
+    const smallest = masses.indexOf(Math.min(...masses));
+    if (masses[smallest]! >= MIN_MODE_FRACTION * intervals.length) {
+      break;
+    }
+    peaks = peaks.filter((_, k) => k !== smallest);
+  }
+  if (peaks.length < 2) {
+    return single();
+  }
+
+  const boundaries = peaks
+    .slice(1)
+    .map((peak, k) => 10 ** (min + (valley(peaks[k]!, peak) + 1) * width));
+  const members = peaks.map(() => [] as number[]);
+  for (const interval of intervals) {
+    const k = boundaries.findIndex((boundary) => interval < boundary);
+    members[k < 0 ? peaks.length - 1 : k]!.push(interval);
+  }
+  return {
+    modes: members.map((values) => ({
+      interval: sortedMedian(sorted(values)),
+      fraction: values.length / intervals.length,
+    })),
+    boundaries,
+  };
+}
+
+function burstStats(timestamps: readonly number[], threshold: number): BurstStats {
+  const sizes: number[] = [];
+  const starts: number[] = [];
+  const intraIntervals: number[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    const interval = i > 0 ? timestamps[i]! - timestamps[i - 1]! : Infinity;
+    if (interval > threshold) {
+      sizes.push(1);
+      starts.push(timestamps[i]!);
+    } else {
+      sizes[sizes.length - 1]!++;
+      intraIntervals.push(interval);
+    }
+  }
+  const burstPeriods = starts.slice(1).map((start, i) => start - starts[i]!);
+  return {
+    count: sizes.length,
+    medianSize: sortedMedian(sorted(sizes)),
+    maxSize: sizes.reduce((max, size) => Math.max(max, size), 0),
+    intraBurstRate: 1 / sortedMedian(sorted(intraIntervals)),
+    burstRate: burstPeriods.length > 0 ? 1 / sortedMedian(sorted(burstPeriods)) : 0,
+    threshold,
+  };
+}
+
+/**
+ * Histogram of the time differences between every pair of messages up to `maxLag`, normalized so
+ * random (Poisson) arrivals score 1 at every lag. Periodic arrivals peak at multiples of the
+ * period.
+ */
+function correlogram(timestamps: readonly number[], maxLag: number): Float64Array {
+  const n = timestamps.length;
+  const span = timestamps[n - 1]! - timestamps[0]!;
+  const binWidth = maxLag / CORRELOGRAM_BINS;
+  const counts = new Float64Array(CORRELOGRAM_BINS);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const lag = timestamps[j]! - timestamps[i]!;
+      if (lag >= maxLag) {
+        break;
+      }
+      counts[Math.floor(lag / binWidth)]!++;
+    }
+  }
+  const rate = (n - 1) / span;
+  return counts.map((count, bin) => {
+    const lag = (bin + 0.5) * binWidth;
+    // Pairs expected at this lag for random arrivals; fewer fit in the window at longer lags.
+    const expected = rate * rate * binWidth * (span - lag);
+    return expected > 0 ? count / expected : 0;
+  });
+}
+
+/** The fundamental period and its strength, or a strength of 0 when none was found. */
+function dominantPeriod(
+  timestamps: readonly number[],
+  typicalPeriod: number,
+): { period?: number; strength: number } {
+  const span = timestamps[timestamps.length - 1]! - timestamps[0]!;
+  const maxLag = Math.min(span / 2, CORRELOGRAM_PERIODS * typicalPeriod);
+  if (!(maxLag > 0)) {
+    return { strength: 0 };
+  }
+  const values = correlogram(timestamps, maxLag);
+  // Averaged over five bins so jitter spreading a peak over neighbouring bins doesn't split it.
+  const smoothed = values.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - 2); j <= Math.min(values.length - 1, i + 2); j++) {
+      sum += values[j]!;
+      count++;
+    }
+    return sum / count;
+  });
+
+  // Lags within a burst, or shorter than the shortest interval, form a peak at zero that isn't a
+  // period; the search starts where the correlation first drops below that of random arrivals.
+  let start = smoothed.findIndex((value) => value < 1);
+  if (start < 0) {
+    return { strength: 0 };
+  }
+  let highest = 0;
+  for (let i = start; i < smoothed.length; i++) {
+    highest = Math.max(highest, smoothed[i]!);
+  }
+  for (let i = Math.max(start, 1); i < smoothed.length - 1; i++) {
+    const value = smoothed[i]!;
+    if (
+      value >= FUNDAMENTAL_RATIO * highest &&
+      value >= smoothed[i - 1]! &&
+      value >= smoothed[i + 1]!
+    ) {
+      start = i;
+      break;
+    }
+  }
+  const strength = smoothed[start]!;
+  if (strength < MIN_PERIOD_STRENGTH) {
+    return { strength };
+  }
+  // Centroid of the raw bins around the peak for a finer estimate than the bin width.
+  let weight = 0;
+  let weighted = 0;
+  for (let j = Math.max(0, start - 2); j <= Math.min(values.length - 1, start + 2); j++) {
+    weight += values[j]!;
+    weighted += values[j]! * (j + 0.5);
+  }
+  return { period: (weighted / weight) * (maxLag / CORRELOGRAM_BINS), strength };
+}
+
+/**
+ * Classifies how a topic's messages arrive, from the timestamps in its window: the modes of the
+ * interval distribution, burst structure, the dominant period and any drift in rate. Undefined
+ * with fewer than `MIN_PATTERN_INTERVALS` intervals.
+ */
+export function analyzeArrivalPattern(timestamps: readonly number[]): ArrivalPattern | undefined {
+  const times = Array.from(sorted(timestamps).slice(-MAX_PATTERN_TIMESTAMPS));
+  const intervals: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const interval = times[i]! - times[i - 1]!;
+    if (interval > 0) {
+      intervals.push(interval);
+    }
+  }
+  if (intervals.length < MIN_PATTERN_INTERVALS) {
+    return undefined;
+  }
+
+  const { modes, boundaries } = intervalModes(intervals);
+  let bursts: BurstStats | undefined;
+  if (boundaries.length > 0) {
+    const candidate = burstStats(times, boundaries[0]!);
+    if (candidate.medianSize >= 2 && candidate.count >= 2) {
+      bursts = candidate;
+    }
+  }
+
+  const span = times[times.length - 1]! - times[0]!;
+  const { period, strength } = dominantPeriod(
+    times,
+    bursts ? span / bursts.count : span / intervals.length,
+  );
+
+  const quarter = Math.floor(intervals.length / 4);
+  const quarterMedians = [0, 1, 2, 3].map((q) =>
+    sortedMedian(sorted(intervals.slice(q * quarter, (q + 1) * quarter))),
+  );
+  const startRate = 1 / quarterMedians[0]!;
+  const endRate = 1 / quarterMedians[3]!;
+  const monotonic = quarterMedians.every(
+    (median, q) =>
+      q === 0 ||
+      Math.sign(median - quarterMedians[q - 1]!) ===
+        Math.sign(quarterMedians[3]! - quarterMedians[0]!),
+  );
+
+  const sortedIntervals = sorted(intervals);
+  const spread =
+    (sortedPercentile(sortedIntervals, 75) - sortedPercentile(sortedIntervals, 25)) /
+    sortedMedian(sortedIntervals);
+
+  let kind: ArrivalPatternKind;
+  if (bursts) {
+    kind = "bursty";
+  } else if (monotonic && Math.abs(endRate / startRate - 1) >= MIN_DRIFT) {
+    kind = "drifting";
+  } else if (modes.length === 1 && spread <= MAX_STEADY_SPREAD) {
+    kind = "steady";
+  } else {
+    kind = "irregular";
+  }
+
+  return {
+    kind,
+    modes,
+    bursts,
+    dominantPeriod: period,
+    periodStrength: strength,
+    startRate,
+    endRate,
+    spread,
+  };
+}
+
+/** One plain-language sentence, e.g. "Bursty: 10 messages per burst at 1000.0 Hz, 10.0 bursts/s". */
+export function describeArrivalPattern(pattern: ArrivalPattern): string {
+  const periodNote =
+    pattern.dominantPeriod != undefined
+      ? `, repeating every ${(pattern.dominantPeriod * 1000).toFixed(1)} ms`
+      : "";
+  switch (pattern.kind) {
+    case "steady":
+      return `Steady at ${(1 / pattern.modes[0]!.interval).toFixed(1)} Hz${periodNote}`;
+    case "bursty": {
+      const bursts = pattern.bursts!;
+      return (
+        `Bursty: ${bursts.medianSize} messages per burst at ${bursts.intraBurstRate.toFixed(1)} Hz, ` +
+        `${bursts.burstRate.toFixed(1)} bursts/s`
+      );
+    }
+    case "drifting":
+      return (
+        `Drifting: rate ${pattern.endRate > pattern.startRate ? "rose" : "fell"} from ` +
+        `${pattern.startRate.toFixed(1)} to ${pattern.endRate.toFixed(1)} Hz across the window`
+      );
+    case "irregular":
+      return (
+        (pattern.modes.length > 1
+          ? `Irregular: ${pattern.modes.length} distinct intervals`
+          : `Irregular: intervals vary by ${(pattern.spread * 100).toFixed(0)}% of the median`) +
+        periodNote
+      );
+  }
+}
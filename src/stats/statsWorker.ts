@@ -0,0 +1,17 @@
+import { StatsService } from "./StatsService";
+import { StatsRequest, StatsResponse } from "./workerProtocol";
+
+/** The parts of a dedicated worker's global scope used here; the DOM typings describe a window. */
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<StatsRequest>) => void) | null;
+  postMessage: (response: StatsResponse) => void;
+}
+
+// Entry point of the statistics worker started by `StatsWorkerClient`.
+const scope = self as unknown as WorkerScope;
+const service = new StatsService((response) => {
+  scope.postMessage(response);
+});
+scope.onmessage = (event) => {
+  service.handle(event.data);
+};
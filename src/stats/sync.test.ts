@@ -0,0 +1,77 @@
+import { analyzeSync } from "./sync";
+
+function steady(count: number, period: number, start = 0): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * period);
+}
+
+describe("analyzeSync", () => {
+  it("needs two topics with messages", () => {
+    const sync = analyzeSync(
+      [
+        { topic: "/a", timestamps: steady(10, 0.1) },
+        { topic: "/b", timestamps: [] },
+      ],
+      0.01,
+    );
+    expect(sync.topics).toEqual(["/a"]);
+    expect(sync.pairs).toEqual([]);
+    expect(sync.overlap).toBeUndefined();
+    expect(sync.matchedFraction).toBe(0);
+  });
+
+  it("reports nothing when the topics don't overlap in time", () => {
+    const sync = analyzeSync(
+      [
+        { topic: "/a", timestamps: steady(10, 0.1) },
+        { topic: "/b", timestamps: steady(10, 0.1, 5) },
+      ],
+      0.01,
+    );
+    expect(sync.overlap).toBeUndefined();
+    expect(sync.setCount).toBe(0);
+  });
+
+  it("measures a constant lag between two topics", () => {
+    const sync = analyzeSync(
+      [
+        { topic: "/a", timestamps: steady(50, 0.1) },
+        { topic: "/b", timestamps: steady(50, 0.1, 0.02) },
+      ],
+      0.03,
+    );
+    expect(sync.overlap?.start).toBeCloseTo(0.02);
+    const [pair] = sync.pairs;
+    expect(pair?.topics).toEqual(["/a", "/b"]);
+    expect(pair?.meanOffset).toBeCloseTo(0.02);
+    expect(pair?.skew.max).toBeCloseTo(0.02);
+    expect(pair?.matchedFraction).toBe(1);
+    expect(sync.matchedFraction).toBe(1);
+  });
+
+  it("matches from the sparser topic and pivots on it", () => {
+    const sync = analyzeSync(
+      [
+        { topic: "/fast", timestamps: steady(100, 0.01) },
+        { topic: "/slow", timestamps: steady(10, 0.1, 0.005) },
+      ],
+      0.001,
+    );
+    expect(sync.pivotTopic).toBe("/slow");
+    expect(sync.setCount).toBe(10);
+    const offsetCount = sync.pairs[0]?.offsetHistogram.reduce((sum, bin) => sum + bin.count, 0);
+    expect(offsetCount).toBe(10);
+    // Each slow message is 5 ms from its nearest fast one, outside the 1 ms slop.
+    expect(sync.matchedFraction).toBe(0);
+  });
+
+  it("compares every pair of topics", () => {
+    const topics = ["/a", "/b", "/c"].map((topic) => ({ topic, timestamps: steady(10, 0.1) }));
+    const sync = analyzeSync(topics, 0.01);
+    expect(sync.pairs.map((pair) => pair.topics)).toEqual([
+      ["/a", "/b"],
+      ["/a", "/c"],
+      ["/b", "/c"],
+    ]);
+    expect(sync.matchedFraction).toBe(1);
+  });
+});
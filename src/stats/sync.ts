@@ -0,0 +1,157 @@
+import { DistributionSummary, summarize, summarizeDistribution } from "./descriptive";
+import { HistogramBin, createHistogram } from "./histogram";
+
+/** Message times of one topic in seconds. */
+export interface TopicTimestamps {
+  topic: string;
+  /** Ascending. */
+  timestamps: readonly number[];
+}
+
+/** How well two topics line up. Offsets are the second topic's time minus the first's. */
+export interface TopicPairSync {
+  topics: [string, string];
+  /**
+   * Distribution of the offsets in seconds to the nearest message of the other topic, one per
+   * message of whichever topic has fewer messages in the overlap.
+   */
+  offsetHistogram: HistogramBin[];
+  /** Mean offset in seconds; far from zero when one topic consistently lags the other. */
+  meanOffset: number;
+  /** Distribution of absolute offsets in seconds. */
+  skew: DistributionSummary;
+  /** Fraction of the compared messages whose nearest neighbour is within the slop. */
+  matchedFraction: number;
+}
+
+export interface SyncStats {
+  /** Topics with messages in the common time span, in the order requested. */
+  topics: string[];
+  /** Seconds. */
+  slop: number;
+  /** Start and end of the span every topic has messages in, in seconds. */
+  overlap?: { start: number; end: number };
+  pairs: TopicPairSync[];
+  /** Topic with the fewest messages in the overlap; each of its messages proposes one set. */
+  pivotTopic?: string;
+  /** Messages of `pivotTopic` considered. */
+  setCount: number;
+  /**
+   * Fraction of sets whose messages, the pivot plus the nearest message of every other topic,
+   * span no more than the slop. Approximates what an ApproximateTime synchronizer with that slop
+   * would emit, without its rule that each message is used at most once.
+   */
+  matchedFraction: number;
+}
+
+/**
+ * For each of `from`, the nearest element of `to`. Both ascending; `to` must not be empty.
+ */
+function nearest(from: readonly number[], to: readonly number[]): number[] {
+  const result: number[] = [];
+  let j = 0;
+  for (const time of from) {
+    while (j + 1 < to.length && Math.abs(to[j + 1]! - time) <= Math.abs(to[j]! - time)) {
+      j++;
+    }
+    result.push(to[j]!);
+  }
+  return result;
+}
+
+function inSpan(timestamps: readonly number[], start: number, end: number): number[] {
+  return timestamps.filter((time) => time >= start && time <= end);
+}
+
+interface SortedTopic {
+  topic: string;
+  /** Every timestamp, ascending. */
+  timestamps: readonly number[];
+  /** The ones inside the common span. */
+  overlapping: number[];
+}
+
+function pairSync(first: SortedTopic, second: SortedTopic, slop: number): TopicPairSync {
+  // Matching from the sparser topic keeps a fast topic from pairing many messages to one.
+  const fromFirst = first.overlapping.length <= second.overlapping.length;
+  const from = fromFirst ? first.overlapping : second.overlapping;
+  const to = fromFirst ? second.timestamps : first.timestamps;
+  const matches = nearest(from, to);
+  const offsets = from.map((time, i) => (fromFirst ? matches[i]! - time : time - matches[i]!));
+  const skews = offsets.map(Math.abs);
+  return {
+    topics: [first.topic, second.topic],
+    offsetHistogram: createHistogram(offsets),
+    meanOffset: summarize(offsets).mean,
+    skew: summarizeDistribution(skews),
+    matchedFraction:
+      skews.length > 0 ? skews.filter((skew) => skew <= slop).length / skews.length : 0,
+  };
+}
+
+/**
+ * Nearest-neighbour offsets between every pair of `topics` and how many message sets would match
+ * within `slop` seconds. Only the span all topics have messages in is compared, because windows
+ * of different topics cover different stretches of time.
+ */
+export function analyzeSync(topics: readonly TopicTimestamps[], slop: number): SyncStats {
+  const sorted = topics.filter(({ timestamps }) => timestamps.length > 0);
+  const empty: SyncStats = {
+    topics: sorted.map(({ topic }) => topic),
+    slop,
+    pairs: [],
+    setCount: 0,
+    matchedFraction: 0,
+  };
+  if (sorted.length < 2) {
+    return empty;
+  }
+
+  const start = Math.max(...sorted.map(({ timestamps }) => timestamps[0]!));
+  const end = Math.min(...sorted.map(({ timestamps }) => timestamps[timestamps.length - 1]!));
+  if (start > end) {
+    return empty;
+  }
+  // Messages just outside the span can still be the nearest neighbour of one inside it.
+  const streams: SortedTopic[] = sorted.map(({ topic, timestamps }) => ({
+    topic,
+    timestamps,
+    overlapping: inSpan(timestamps, start, end),
+  }));
+
+  const pairs: TopicPairSync[] = [];
+  for (let i = 0; i < streams.length; i++) {
+    for (let j = i + 1; j < streams.length; j++) {
+      pairs.push(pairSync(streams[i]!, streams[j]!, slop));
+    }
+  }
+
+  let pivot = streams[0]!;
+  for (const candidate of streams) {
+    if (candidate.overlapping.length < pivot.overlapping.length) {
+      pivot = candidate;
+    }
+  }
+  const pivotTimes = pivot.overlapping;
+  const spanMin = [...pivotTimes];
+  const spanMax = [...pivotTimes];
+  for (const other of streams) {
+    if (other === pivot) {
+      continue;
+    }
+    nearest(pivotTimes, other.timestamps).forEach((time, i) => {
+      spanMin[i] = Math.min(spanMin[i]!, time);
+      spanMax[i] = Math.max(spanMax[i]!, time);
+    });
+  }
+  const matched = pivotTimes.filter((_, i) => spanMax[i]! - spanMin[i]! <= slop).length;
+
+  return {
+    ...empty,
+    overlap: { start, end },
+    pairs,
+    pivotTopic: pivot.topic,
+    setCount: pivotTimes.length,
+    matchedFraction: pivotTimes.length > 0 ? matched / pivotTimes.length : 0,
+  };
+}
@@ -0,0 +1,266 @@
+import { OutlierBounds, OutlierOptions } from "./outliers";
+
+/**
+ * Latencies measured per message: "publish" is receive time minus publish time and "header" is
+ * receive time minus the timestamp stored in the message.
+ */
+export const LATENCY_KINDS = ["publish", "header"] as const;
+
+export type LatencyKind = (typeof LATENCY_KINDS)[number];
+
+/** Distribution of one latency kind over the window, in seconds. */
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  median: number;
+  stdDeviation: number;
+  min: number;
+  max: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  samples: number[];
+}
+
+/** Distribution of the intervals between consecutive messages in the window, in seconds. */
+export interface PeriodStats {
+  count: number;
+  mean: number;
+  median: number;
+  stdDeviation: number;
+  min: number;
+  max: number;
+  p90: number;
+  p99: number;
+  p999: number;
+  /** Peak-to-peak jitter, `max - min`. */
+  jitter: number;
+  /** `stdDeviation / mean`; 0 for a perfectly regular topic. */
+  coefficientOfVariation: number;
+  samples: number[];
+}
+
+/**
+ * How messages arrive over time:
+ * - "steady": one dominant interval with little spread
+ * - "bursty": groups of closely spaced messages separated by longer pauses
+ * - "drifting": the rate rises or falls steadily across the window
+ * - "irregular": none of the above
+ */
+export type ArrivalPatternKind = "steady" | "bursty" | "drifting" | "irregular";
+
+export const ARRIVAL_PATTERN_KINDS: readonly ArrivalPatternKind[] = [
+  "steady",
+  "bursty",
+  "drifting",
+  "irregular",
+];
+
+/** A peak of the interval distribution on a logarithmic scale. */
+export interface IntervalMode {
+  /** Median interval of the peak in seconds. */
+  interval: number;
+  /** Fraction of all intervals belonging to the peak. */
+  fraction: number;
+}
+
+export interface BurstStats {
+  /** Bursts in the window. */
+  count: number;
+  /** Messages per burst. */
+  medianSize: number;
+  maxSize: number;
+  /** Rate of messages within a burst in Hz. */
+  intraBurstRate: number;
+  /** Bursts per second. */
+  burstRate: number;
+  /** Intervals longer than this many seconds separate bursts. */
+  threshold: number;
+}
+
+export interface ArrivalPattern {
+  kind: ArrivalPatternKind;
+  /** Peaks of the interval distribution, shortest interval first. */
+  modes: IntervalMode[];
+  /** Only set for bursty topics. */
+  bursts?: BurstStats;
+  /**
+   * Period in seconds at which arrivals repeat, from the autocorrelation of the arrival times.
+   * Undefined when no period stands out from random arrivals.
+   */
+  dominantPeriod?: number;
+  /** Autocorrelation at `dominantPeriod` relative to random arrivals, which score 1. */
+  periodStrength: number;
+  /** Median rate in the first and last quarter of the window, in Hz. */
+  startRate: number;
+  endRate: number;
+  /** Interquartile range of the intervals relative to their median. */
+  spread: number;
+}
+
+/** Message sizes over the window, in bytes, and the bandwidth they add up to. */
+export interface SizeStats {
+  count: number;
+  mean: number;
+  median: number;
+  stdDeviation: number;
+  min: number;
+  max: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  /** Bytes per second over the window. */
+  bandwidth: number;
+  /** Bytes received since the topic was last reset. */
+  totalBytes: number;
+  /** Bytes per second since the topic was last reset. */
+  averageBandwidth: number;
+}
+
+/** Everything the engine records about one message. */
+export interface MessageSample {
+  /** Arrival time in seconds used for frequency statistics. */
+  timestamp: number;
+  /** Label of the clock `timestamp` was taken from. */
+  source?: string;
+  /** Latencies in seconds; kinds that couldn't be measured for this message are omitted. */
+  latencies?: Partial<Record<LatencyKind, number>>;
+  sizeInBytes?: number;
+  /**
+   * When the message was received, in seconds. Lets clock jumps in `timestamp` be told apart from
+   * real silences; omit it when `timestamp` is the receive time.
+   */
+  receiveTime?: number;
+}
+
+/** A silence on a topic much longer than its usual period. Times are in seconds. */
+export interface Gap {
+  /** Timestamp of the last message before the gap. */
+  start: number;
+  /** Timestamp of the first message after the gap. */
+  end: number;
+  duration: number;
+  /** Messages that would have arrived during the gap at the reference period. */
+  missedMessages: number;
+  /** Receive time of the last message before the gap, the playback time to seek to. */
+  receiveTime: number;
+}
+
+/**
+ * Timestamp problems in receive order:
+ * - "duplicate": same timestamp as the previous message
+ * - "outOfOrder": earlier than the previous message's timestamp
+ * - "backwardJump" / "forwardJump": the offset between timestamp and receive time changed by more
+ *   than the clock jump threshold between consecutive messages, as with a sim-time reset or an
+ *   NTP step
+ */
+export type TimestampAnomalyKind = "duplicate" | "outOfOrder" | "backwardJump" | "forwardJump";
+
+export const TIMESTAMP_ANOMALY_KINDS: readonly TimestampAnomalyKind[] = [
+  "duplicate",
+  "outOfOrder",
+  "backwardJump",
+  "forwardJump",
+];
+
+export interface TimestampAnomaly {
+  kind: TimestampAnomalyKind;
+  /** Timestamp of the offending message in seconds. */
+  timestamp: number;
+  /** Receive time of the offending message, the playback time to seek to. */
+  receiveTime: number;
+  /**
+   * Seconds: how far an out-of-order timestamp went back, or how far the clock offset jumped.
+   * Zero for duplicates.
+   */
+  delta: number;
+}
+
+export interface TimestampAnomalies {
+  counts: Record<TimestampAnomalyKind, number>;
+  /** Most recent anomalies, oldest first. */
+  recent: TimestampAnomaly[];
+}
+
+/** Message rate within one timeline bucket. */
+export interface TimelinePoint {
+  /** Start of the bucket in seconds. */
+  time: number;
+  /**
+   * Playback time to seek to for the bucket: its start shifted by the receive-time offset of the
+   * first message counted in it, or in the next bucket for empty ones.
+   */
+  receiveTime: number;
+  /** Messages in the bucket divided by its width, in Hz. */
+  frequency: number;
+}
+
+/** Analysis parameters applied when taking a snapshot. */
+export interface SnapshotOptions {
+  /** How frequencies are classified as outliers. */
+  outliers: OutlierOptions;
+  /** Expected rate in Hz. Without one the median period of the window is the reference. */
+  expectedRate?: number;
+}
+
+/** How gaps are detected as messages arrive. */
+export interface GapOptions {
+  /** Intervals longer than this many reference periods are reported as gaps. */
+  gapFactor: number;
+  /** Expected rate in Hz. Without one the mean period of the window is the reference. */
+  expectedRate?: number;
+}
+
+export interface FrequencyStats {
+  topic: string;
+  messageCount: number;
+  frequencies: number[];
+  /** Frequencies in the window including outliers, which is `frequencies.length` where posted. */
+  sampleCount: number;
+  averageFrequency: number;
+  medianFrequency: number;
+  stdDeviation: number;
+  minFrequency: number;
+  maxFrequency: number;
+  /** `frequencies` without the outliers. */
+  filteredFrequencies: number[];
+  /** The frequencies classified as outliers, in arrival order. */
+  outlierFrequencies: number[];
+  outlierCount: number;
+  /** Range outside of which frequencies were outliers; undefined with too few samples to judge. */
+  outlierBounds?: OutlierBounds;
+  /** Messages received per timestamp source label since the topic was last reset. */
+  timestampSources: Record<string, number>;
+  /** Undefined until the window holds at least one interval. Outliers are not removed. */
+  period?: PeriodStats;
+  /** Undefined until the window holds enough intervals to tell. */
+  pattern?: ArrivalPattern;
+  /** Undefined when no message in the window reported a size. */
+  size?: SizeStats;
+  /** Only contains kinds with at least one measurement in the window. */
+  latency: Partial<Record<LatencyKind, LatencyStats>>;
+  /** Most recent gaps, oldest first, since the topic was last reset. */
+  gaps: Gap[];
+  /** Total gaps detected, including ones no longer kept in `gaps`. */
+  gapCount: number;
+  /** Counted since the topic was last reset; they never contribute frequencies. */
+  anomalies: TimestampAnomalies;
+  /** Period in seconds that gaps were measured against; 0 when unknown. */
+  referencePeriod: number;
+  /**
+   * Rate per completed bucket since the topic was last reset, oldest first. Independent of the
+   * statistics window so rate drops stay visible after they leave it.
+   */
+  timeline: TimelinePoint[];
+  /** Width of the timeline buckets in seconds. */
+  timelineResolution: number;
+}
+
+/**
+ * Which messages a topic's statistics are computed over: the most recent `size` messages, the
+ * messages received within the last `seconds` of the newest one, or every message recorded.
+ */
+export type StatsWindow =
+  | { mode: "count"; size: number }
+  | { mode: "time"; seconds: number }
+  | { mode: "all" };
@@ -0,0 +1,62 @@
+import { HistogramOptions, StreamHistograms } from "./histogram";
+import { OutlierOptions } from "./outliers";
+import { SyncStats } from "./sync";
+import { FrequencyStats, MessageSample, StatsWindow } from "./types";
+
+/**
+ * Shortest time between snapshots the statistics worker posts. The client asks for longer ones
+ * while applying them goes over its budget.
+ */
+export const SNAPSHOT_INTERVAL_MS = 100;
+
+/** What the panel shows, and so which snapshots the worker computes and posts. */
+export interface StatsSubscription {
+  /** Selected topics; each one's sub-streams are reported right after it. */
+  topics: string[];
+  /** Streams shown in detail, whose snapshots are posted with their lists and histograms. */
+  detailed: string[];
+  /** How the detailed streams are binned; undefined while histograms are hidden. */
+  histograms?: HistogramOptions;
+  outliers: OutlierOptions;
+  gapFactor: number;
+  /** Expected rate in Hz of the topics and sub-streams that have one. */
+  expectedRates: Record<string, number>;
+  /** Topics to compare in the sync view while it is open. */
+  sync?: { topics: string[]; slop: number };
+}
+
+/** A message fed to the worker, counted on its topic and on any sub-streams it belongs to. */
+export interface StreamSample {
+  streams: string[];
+  sample: MessageSample;
+}
+
+export type StatsRequest =
+  | { type: "add"; samples: StreamSample[] }
+  | { type: "reset" }
+  /** Forgets a topic and its sub-streams. */
+  | { type: "resetTopic"; topic: string }
+  | { type: "trimBefore"; cutoff: number }
+  | { type: "setWindow"; window: StatsWindow }
+  | { type: "setTimelineResolution"; seconds: number }
+  | { type: "setClockJumpThreshold"; seconds: number }
+  /** Time between snapshot posts, at least `SNAPSHOT_INTERVAL_MS`. */
+  | { type: "setSnapshotInterval"; milliseconds: number }
+  | { type: "subscribe"; subscription: StatsSubscription }
+  | { type: "timestamps"; id: number; topics: string[] }
+  /** Complete snapshots of `streams`, for exports. */
+  | { type: "snapshots"; id: number; streams: string[] };
+
+export type StatsResponse =
+  | {
+      type: "snapshot";
+      /** Subscribed topics and their sub-streams, in display order before sorting. */
+      streams: string[];
+      /** Snapshots of the streams that changed since the previous post, without samples. */
+      changed: FrequencyStats[];
+      /** Histograms of the detailed streams among `changed`, by stream. */
+      histograms: Record<string, StreamHistograms>;
+      sync?: SyncStats;
+    }
+  | { type: "timestamps"; id: number; timestamps: number[][] }
+  | { type: "snapshots"; id: number; stats: FrequencyStats[] };
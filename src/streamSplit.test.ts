@@ -0,0 +1,106 @@
+import { emptyStats } from "./stats/TopicStream";
+import { FrequencyStats } from "./stats/types";
+import {
+  MAX_SUB_STREAMS_PER_TOPIC,
+  MISSING_KEY,
+  OTHER_KEY,
+  StreamSplitter,
+  parseStreamName,
+  subStreamName,
+  systemSizeTotals,
+  withSubStreams,
+} from "./streamSplit";
+
+describe("parseStreamName", () => {
+  it("splits sub-stream names into topic and key", () => {
+    expect(parseStreamName("/tf [base_link]")).toEqual({ topic: "/tf", key: "base_link" });
+    expect(parseStreamName("/tf")).toEqual({ topic: "/tf" });
+  });
+
+  it("handles brackets in topics and keys", () => {
+    expect(parseStreamName("/array[0]")).toEqual({ topic: "/array[0]" });
+    expect(parseStreamName("/array[0] [a]")).toEqual({ topic: "/array[0]", key: "a" });
+    expect(parseStreamName(subStreamName("/tf", "odd [key]"))).toEqual({
+      topic: "/tf",
+      key: "odd [key]",
+    });
+    expect(parseStreamName("/tf [unterminated")).toEqual({ topic: "/tf [unterminated" });
+  });
+});
+
+describe("withSubStreams", () => {
+  it("lists each topic's sub-streams after it", () => {
+    expect(withSubStreams(["/a", "/tf"], ["/tf [z]", "/a", "/tf [b]", "/other [x]"])).toEqual([
+      "/a",
+      "/tf",
+      "/tf [b]",
+      "/tf [z]",
+    ]);
+  });
+});
+
+describe("StreamSplitter", () => {
+  it("assigns a message to a stream per distinct key", () => {
+    const splitter = new StreamSplitter();
+    const message = {
+      transforms: [{ child_frame_id: "a" }, { child_frame_id: "b" }, { child_frame_id: "a" }],
+    };
+    expect(splitter.streamsFor("/tf", message, "transforms[].child_frame_id")).toEqual([
+      "/tf [a]",
+      "/tf [b]",
+    ]);
+  });
+
+  it("uses the missing key for absent or structured values", () => {
+    const splitter = new StreamSplitter();
+    expect(splitter.streamsFor("/a", {}, "id")).toEqual([`/a [${MISSING_KEY}]`]);
+    expect(splitter.streamsFor("/a", { id: { nested: 1 } }, "id")).toEqual([`/a [${MISSING_KEY}]`]);
+    expect(splitter.streamsFor("/a", { id: 7 }, "id")).toEqual(["/a [7]"]);
+  });
+
+  it("caps the number of keys per topic", () => {
+    const splitter = new StreamSplitter();
+    for (let id = 0; id < MAX_SUB_STREAMS_PER_TOPIC; id++) {
+      expect(splitter.streamsFor("/a", { id }, "id")).toEqual([`/a [${id}]`]);
+    }
+    expect(splitter.streamsFor("/a", { id: 1000 }, "id")).toEqual([`/a [${OTHER_KEY}]`]);
+    expect(splitter.streamsFor("/a", { id: 3 }, "id")).toEqual(["/a [3]"]);
+    expect(splitter.streamsFor("/b", { id: 1000 }, "id")).toEqual(["/b [1000]"]);
+
+    splitter.reset();
+    expect(splitter.streamsFor("/a", { id: 1000 }, "id")).toEqual(["/a [1000]"]);
+  });
+});
+
+describe("systemSizeTotals", () => {
+  function sized(topic: string, bandwidth: number, totalBytes: number): FrequencyStats {
+    return {
+      ...emptyStats(topic, 10),
+      size: {
+        count: 10,
+        mean: 0,
+        median: 0,
+        stdDeviation: 0,
+        min: 0,
+        max: 0,
+        p90: 0,
+        p95: 0,
+        p99: 0,
+        bandwidth,
+        totalBytes,
+        averageBandwidth: bandwidth,
+      },
+    };
+  }
+
+  it("counts split topics once", () => {
+    const totals = systemSizeTotals([
+      sized("/tf", 300, 3000),
+      sized("/tf [a]", 100, 1000),
+      sized("/tf [b]", 200, 2000),
+      sized("/scan", 50, 500),
+      emptyStats("/quiet", 0),
+    ]);
+    expect(totals).toEqual({ bandwidth: 350, totalBytes: 3500, topics: 2 });
+  });
+});
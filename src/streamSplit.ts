@@ -0,0 +1,115 @@
+import { readMessagePathValues } from "./messagePath";
+import { FrequencyStats } from "./stats/types";
+
+/**
+ * Multiplexed topics such as `/tf` are split into sub-streams by the value of a message path.
+ * Sub-streams are analyzed like topics under the name `<topic> [<key>]`; topic names can't
+ * contain spaces, so the name splits back into topic and key unambiguously.
+ */
+
+/** Keys tracked per topic; messages with further keys are counted under `OTHER_KEY`. */
+export const MAX_SUB_STREAMS_PER_TOPIC = 50;
+
+/** Sub-stream of messages whose split path is missing or not a plain value. */
+export const MISSING_KEY = "(none)";
+
+/** Sub-stream collecting the keys beyond `MAX_SUB_STREAMS_PER_TOPIC`. */
+export const OTHER_KEY = "(other)";
+
+export function subStreamName(topic: string, key: string): string {
+  return `${topic} [${key}]`;
+}
+
+/** The topic a stream belongs to, and its key when it is a sub-stream. */
+export function parseStreamName(name: string): { topic: string; key?: string } {
+  const separator = name.indexOf(" [");
+  if (separator < 0 || !name.endsWith("]")) {
+    return { topic: name };
+  }
+  return { topic: name.slice(0, separator), key: name.slice(separator + 2, -1) };
+}
+
+/** `topics`, each followed by its sub-streams among `streams` in name order. */
+export function withSubStreams(topics: readonly string[], streams: readonly string[]): string[] {
+  const subStreams = new Map<string, string[]>();
+  for (const stream of streams) {
+    const { topic, key } = parseStreamName(stream);
+    if (key != undefined) {
+      const named = subStreams.get(topic) ?? [];
+      named.push(stream);
+      subStreams.set(topic, named);
+    }
+  }
+  return topics.flatMap((topic) => [topic, ...(subStreams.get(topic) ?? []).sort()]);
+}
+
+/**
+ * Bandwidth and bytes received summed over the topics that report sizes. Sub-streams are left out
+ * because their messages are already counted on their topic.
+ */
+export function systemSizeTotals(allStats: readonly FrequencyStats[]): {
+  bandwidth: number;
+  totalBytes: number;
+  topics: number;
+} {
+  const totals = { bandwidth: 0, totalBytes: 0, topics: 0 };
+  for (const stats of allStats) {
+    if (stats.size && parseStreamName(stats.topic).key == undefined) {
+      totals.bandwidth += stats.size.bandwidth;
+      totals.totalBytes += stats.size.totalBytes;
+      totals.topics++;
+    }
+  }
+  return totals;
+}
+
+function keyOf(value: unknown): string {
+  switch (typeof value) {
+    case "string":
+      return value === "" ? MISSING_KEY : value;
+    case "number":
+    case "bigint":
+    case "boolean":
+      return String(value);
+    case "object":
+    case "function":
+    case "symbol":
+    case "undefined":
+      return MISSING_KEY;
+  }
+}
+
+/**
+ * Assigns messages to sub-streams. Remembers the keys seen on each topic so a field with
+ * unbounded values, such as a sequence number, can't create more than
+ * `MAX_SUB_STREAMS_PER_TOPIC` streams.
+ */
+export class StreamSplitter {
+  #keys = new Map<string, Set<string>>();
+
+  /**
+   * Names of the sub-streams a message on `topic` belongs to: one per distinct value at `path`,
+   * so a `/tf` message with several transforms counts once for each child frame.
+   */
+  public streamsFor(topic: string, message: unknown, path: string): string[] {
+    let known = this.#keys.get(topic);
+    if (!known) {
+      known = new Set();
+      this.#keys.set(topic, known);
+    }
+    const values = readMessagePathValues(message, path);
+    const keys = new Set(values.length > 0 ? values.map(keyOf) : [MISSING_KEY]);
+    const names = new Set<string>();
+    for (const key of keys) {
+      if (!known.has(key) && known.size < MAX_SUB_STREAMS_PER_TOPIC) {
+        known.add(key);
+      }
+      names.add(subStreamName(topic, known.has(key) ? key : OTHER_KEY));
+    }
+    return [...names];
+  }
+
+  public reset(): void {
+    this.#keys.clear();
+  }
+}
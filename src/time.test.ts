@@ -0,0 +1,33 @@
+import { fromSeconds, timeValueToSeconds, toSeconds } from "./time";
+
+describe("toSeconds", () => {
+  it("combines seconds and nanoseconds", () => {
+    expect(toSeconds({ sec: 12, nsec: 500_000_000 })).toBeCloseTo(12.5);
+  });
+});
+
+describe("timeValueToSeconds", () => {
+  it("reads ROS 1 and ROS 2 stamps", () => {
+    expect(timeValueToSeconds({ sec: 1, nsec: 500_000_000 })).toBeCloseTo(1.5);
+    expect(timeValueToSeconds({ secs: 1, nsecs: 250_000_000 })).toBeCloseTo(1.25);
+    expect(timeValueToSeconds({ sec: 1, nanosec: 750_000_000 })).toBeCloseTo(1.75);
+    expect(timeValueToSeconds(3.5)).toBe(3.5);
+  });
+
+  it("treats zero and malformed values as unset", () => {
+    expect(timeValueToSeconds({ sec: 0, nsec: 0 })).toBeUndefined();
+    expect(timeValueToSeconds(0)).toBeUndefined();
+    expect(timeValueToSeconds({ sec: "1" })).toBeUndefined();
+    expect(timeValueToSeconds(undefined)).toBeUndefined();
+  });
+});
+
+describe("fromSeconds", () => {
+  it("splits seconds into a time", () => {
+    expect(fromSeconds(12.25)).toEqual({ sec: 12, nsec: 250_000_000 });
+  });
+
+  it("keeps nanoseconds below one second", () => {
+    expect(fromSeconds(1.9999999999)).toEqual({ sec: 1, nsec: 999_999_999 });
+  });
+});
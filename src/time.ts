@@ -0,0 +1,33 @@
+import { Time } from "@foxglove/extension";
+
+export function toSeconds(time: Time): number {
+  return time.sec + time.nsec * 1e-9;
+}
+
+export function fromSeconds(seconds: number): Time {
+  const sec = Math.floor(seconds);
+  return { sec, nsec: Math.min(999_999_999, Math.round((seconds - sec) * 1e9)) };
+}
+
+/**
+ * Converts a timestamp found inside a message to seconds. Accepts ROS 1 (`sec`/`nsec` or
+ * `secs`/`nsecs`) and ROS 2 (`sec`/`nanosec`) time objects as well as plain numbers of seconds.
+ * Zero stamps are treated as unset and return undefined.
+ */
+export function timeValueToSeconds(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value !== 0 ? value : undefined;
+  }
+  if (typeof value !== "object" || value == undefined) {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const sec = record.sec ?? record.secs;
+  const nsec = record.nsec ?? record.nanosec ?? record.nsecs ?? 0;
+  if (typeof sec !== "number" || typeof nsec !== "number") {
+    return undefined;
+  }
+  const seconds = sec + nsec * 1e-9;
+  return seconds !== 0 ? seconds : undefined;
+}
@@ -0,0 +1,73 @@
+import { MessageEvent } from "@foxglove/extension";
+
+import {
+  DEFAULT_TIMESTAMP_FIELD,
+  TimestampSelection,
+  describeFallback,
+  measureLatencies,
+  resolveTimestamp,
+} from "./timestamps";
+
+function event(message: unknown, publishSeconds?: number): MessageEvent {
+  return {
+    topic: "/a",
+    schemaName: "",
+    receiveTime: { sec: 10, nsec: 0 },
+    publishTime: publishSeconds != undefined ? { sec: publishSeconds, nsec: 0 } : undefined,
+    message,
+    sizeInBytes: 0,
+  };
+}
+
+const FIELD: TimestampSelection = { source: "messageField", field: DEFAULT_TIMESTAMP_FIELD };
+
+describe("resolveTimestamp", () => {
+  it("uses the requested source when it is present", () => {
+    const stamped = event({ header: { stamp: { sec: 7, nsec: 500_000_000 } } }, 9);
+    expect(resolveTimestamp(stamped, FIELD)).toEqual({ seconds: 7.5, source: "messageField" });
+    expect(resolveTimestamp(stamped, { ...FIELD, source: "publishTime" })).toEqual({
+      seconds: 9,
+      source: "publishTime",
+    });
+    expect(resolveTimestamp(stamped, { ...FIELD, source: "receiveTime" })).toEqual({
+      seconds: 10,
+      source: "receiveTime",
+    });
+  });
+
+  it("falls back to the publish time and then the receive time", () => {
+    expect(resolveTimestamp(event({}, 9), FIELD)).toEqual({ seconds: 9, source: "publishTime" });
+    expect(resolveTimestamp(event({}), FIELD)).toEqual({ seconds: 10, source: "receiveTime" });
+  });
+
+  it("treats a zero stamp as missing", () => {
+    const unstamped = event({ header: { stamp: { sec: 0, nsec: 0 } } });
+    expect(resolveTimestamp(unstamped, FIELD).source).toBe("receiveTime");
+  });
+});
+
+describe("describeFallback", () => {
+  it("is undefined when every message used the requested source", () => {
+    expect(describeFallback({ messageField: 5, receiveTime: 0 }, FIELD)).toBeUndefined();
+  });
+
+  it("lists the sources that were used instead", () => {
+    expect(describeFallback({ messageField: 5, publishTime: 2, receiveTime: 1 }, FIELD)).toBe(
+      "header.stamp missing, used publish time for 2 msgs and receive time for 1 msgs",
+    );
+  });
+});
+
+describe("measureLatencies", () => {
+  it("measures against the publish time and the message stamp", () => {
+    const latencies = measureLatencies(
+      event({ header: { stamp: { sec: 8, nsec: 0 } } }, 9),
+      DEFAULT_TIMESTAMP_FIELD,
+    );
+    expect(latencies).toEqual({ publish: 1, header: 2 });
+  });
+
+  it("leaves out latencies it can't measure", () => {
+    expect(measureLatencies(event({}), DEFAULT_TIMESTAMP_FIELD)).toEqual({});
+  });
+});
@@ -0,0 +1,102 @@
+import { MessageEvent } from "@foxglove/extension";
+
+import { readMessagePath } from "./messagePath";
+import { LatencyKind } from "./stats/types";
+import { timeValueToSeconds, toSeconds } from "./time";
+
+/** Where a message's arrival time is taken from when computing frequencies. */
+export type TimestampSource = "receiveTime" | "publishTime" | "messageField";
+
+export const TIMESTAMP_SOURCES: readonly TimestampSource[] = [
+  "receiveTime",
+  "publishTime",
+  "messageField",
+];
+
+export const TIMESTAMP_SOURCE_LABELS: Record<TimestampSource, string> = {
+  receiveTime: "Receive time",
+  publishTime: "Publish time",
+  messageField: "Message field",
+};
+
+export const DEFAULT_TIMESTAMP_FIELD = "header.stamp";
+
+export interface TimestampSelection {
+  source: TimestampSource;
+  /** Field path used when `source` is "messageField". */
+  field: string;
+}
+
+export interface ResolvedTimestamp {
+  seconds: number;
+  /** The source actually used, which differs from the requested one after a fallback. */
+  source: TimestampSource;
+}
+
+/**
+ * Picks the timestamp of `event` according to `selection`. A missing message field falls back to
+ * the publish time, and a missing publish time falls back to the receive time, which is always
+ * present.
+ */
+export function resolveTimestamp(
+  event: MessageEvent,
+  selection: TimestampSelection,
+): ResolvedTimestamp {
+  if (selection.source === "messageField") {
+    const seconds = timeValueToSeconds(readMessagePath(event.message, selection.field));
+    if (seconds != undefined) {
+      return { seconds, source: "messageField" };
+    }
+  }
+  if (selection.source !== "receiveTime" && event.publishTime != undefined) {
+    return { seconds: toSeconds(event.publishTime), source: "publishTime" };
+  }
+  return { seconds: toSeconds(event.receiveTime), source: "receiveTime" };
+}
+
+/**
+ * Receive-time latencies of `event` in seconds: against the publish time when the data source
+ * provides one, and against the timestamp at `stampField` when the message has one.
+ */
+export function measureLatencies(
+  event: MessageEvent,
+  stampField: string,
+): Partial<Record<LatencyKind, number>> {
+  const receiveTime = toSeconds(event.receiveTime);
+  const latencies: Partial<Record<LatencyKind, number>> = {};
+  if (event.publishTime != undefined) {
+    latencies.publish = receiveTime - toSeconds(event.publishTime);
+  }
+  const stamp = timeValueToSeconds(readMessagePath(event.message, stampField));
+  if (stamp != undefined) {
+    latencies.header = receiveTime - stamp;
+  }
+  return latencies;
+}
+
+/** Human readable name of the timestamp `selection`, e.g. "header.stamp" or "Publish time". */
+export function describeTimestampSelection(selection: TimestampSelection): string {
+  return selection.source === "messageField"
+    ? selection.field
+    : TIMESTAMP_SOURCE_LABELS[selection.source];
+}
+
+/**
+ * Summarizes messages whose timestamp came from a different source than requested, given the
+ * per-source counts reported by the stats engine. Returns undefined when no fallback happened.
+ */
+export function describeFallback(
+  sourceCounts: Record<string, number>,
+  selection: TimestampSelection,
+): string | undefined {
+  const fallbacks = Object.entries(sourceCounts)
+    .filter(([source, count]) => source !== selection.source && count > 0)
+    .map(([source, count]) => {
+      const label = TIMESTAMP_SOURCE_LABELS[source as TimestampSource];
+      return `${label.toLowerCase()} for ${count} msgs`;
+    });
+  if (fallbacks.length === 0) {
+    return undefined;
+  }
+  return `${describeTimestampSelection(selection)} missing, used ${fallbacks.join(" and ")}`;
+}
@@ -0,0 +1,85 @@
+import {
+  buildNamespaceTree,
+  matchesTopicPatterns,
+  matchesTopicSearch,
+  namespaceTopics,
+  topicPatternError,
+} from "./topicFilter";
+
+function matches(patterns: string[], name: string, schemaName?: string): boolean {
+  return matchesTopicPatterns(patterns, { name, schemaName });
+}
+
+describe("matchesTopicPatterns", () => {
+  it("matches globs within and across namespace levels", () => {
+    expect(matches(["/camera/*"], "/camera/info")).toBe(true);
+    expect(matches(["/camera/*"], "/camera/image/raw")).toBe(false);
+    expect(matches(["/camera/**"], "/camera/image/raw")).toBe(true);
+    expect(matches(["/a/**/b"], "/a/b")).toBe(true);
+    expect(matches(["/a/**/b"], "/a/x/y/b")).toBe(true);
+    expect(matches(["/imu?"], "/imu2")).toBe(true);
+    expect(matches(["/imu?"], "/imu")).toBe(false);
+  });
+
+  it("matches relative globs against trailing levels", () => {
+    expect(matches(["image/compressed"], "/camera/image/compressed")).toBe(true);
+    expect(matches(["image/compressed"], "/camera/myimage/compressed")).toBe(false);
+    expect(matches(["/image/compressed"], "/camera/image/compressed")).toBe(false);
+  });
+
+  it("treats regex metacharacters in globs literally", () => {
+    expect(matches(["/a.b"], "/a.b")).toBe(true);
+    expect(matches(["/a.b"], "/axb")).toBe(false);
+  });
+
+  it("supports regular expressions and schema globs", () => {
+    expect(matches(["re:^/tf"], "/tf_static")).toBe(true);
+    expect(matches(["schema:sensor_msgs/*Image"], "/cam", "sensor_msgs/CompressedImage")).toBe(
+      true,
+    );
+    expect(matches(["schema:sensor_msgs/*Image"], "/cam")).toBe(false);
+  });
+
+  it("needs an inclusion and no exclusion", () => {
+    expect(matches(["**", "!/tf"], "/tf")).toBe(false);
+    expect(matches(["**", "!/tf"], "/odom")).toBe(true);
+    expect(matches(["!/tf"], "/odom")).toBe(false);
+    expect(matches([], "/odom")).toBe(false);
+  });
+
+  it("ignores invalid patterns", () => {
+    expect(matches(["re:(", "/odom"], "/odom")).toBe(true);
+    expect(matches(["re:("], "/odom")).toBe(false);
+  });
+});
+
+describe("topicPatternError", () => {
+  it("reports empty and unparsable patterns", () => {
+    expect(topicPatternError("/a/*")).toBeUndefined();
+    expect(topicPatternError("!")).toBe("Pattern is empty");
+    expect(topicPatternError("re:(")).toMatch(/Invalid regular expression/);
+  });
+});
+
+describe("matchesTopicSearch", () => {
+  it("searches topic and schema names case-insensitively", () => {
+    const target = { name: "/camera/Image", schemaName: "sensor_msgs/CompressedImage" };
+    expect(matchesTopicSearch("image", target)).toBe(true);
+    expect(matchesTopicSearch(" compressed ", target)).toBe(true);
+    expect(matchesTopicSearch("lidar", target)).toBe(false);
+    expect(matchesTopicSearch("", target)).toBe(true);
+  });
+});
+
+describe("buildNamespaceTree", () => {
+  it("groups topics by namespace in name order", () => {
+    const tree = buildNamespaceTree(["/tf", "/sensors/lidar/points", "/sensors/imu", "/odom"]);
+    expect(tree.topics).toEqual(["/odom", "/tf"]);
+    expect(tree.children.map((child) => child.path)).toEqual(["/sensors"]);
+    const sensors = tree.children[0]!;
+    expect(sensors.topics).toEqual(["/sensors/imu"]);
+    expect(sensors.children[0]).toMatchObject({ path: "/sensors/lidar", name: "lidar" });
+    expect(namespaceTopics(sensors)).toEqual(["/sensors/imu", "/sensors/lidar/points"]);
+    expect(namespaceTopics(tree)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Topic patterns select topics by name or schema, including topics that are advertised later:
+ * - a glob on the topic name: `*` matches within one namespace level, `**` across levels and `?`
+ *   one character. Globs starting with `/` match the whole name; others match its trailing
+ *   levels, so `image/compressed` matches `/camera/image/compressed`.
+ * - `re:<regex>` tests a regular expression against the topic name
+ * - `schema:<glob>` matches the schema name instead, e.g. `schema:sensor_msgs/*Image`
+ *
+ * A leading `!` turns any pattern into an exclusion. A topic is selected by a pattern list when
+ * it matches at least one inclusion and no exclusion.
+ */
+
+/** The parts of a topic that patterns look at. */
+export interface TopicPatternTarget {
+  name: string;
+  schemaName?: string;
+}
+
+interface CompiledPattern {
+  exclude: boolean;
+  field: "name" | "schema";
+  regex: RegExp;
+}
+
+function globToRegExp(glob: string, anchored: boolean): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      // "/**/" also matches a single "/" so `/a/**/b` covers `/a/b`.
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`${anchored ? "^" : "(?:^|/)"}${source}$`);
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+  const exclude = pattern.startsWith("!");
+  const body = exclude ? pattern.slice(1) : pattern;
+  if (body.startsWith("re:")) {
+    return { exclude, field: "name", regex: new RegExp(body.slice(3)) };
+  }
+  if (body.startsWith("schema:")) {
+    return { exclude, field: "schema", regex: globToRegExp(body.slice(7), true) };
+  }
+  return { exclude, field: "name", regex: globToRegExp(body, body.startsWith("/")) };
+}
+
+/** Describes why `pattern` can't be used, or returns undefined when it is valid. */
+export function topicPatternError(pattern: string): string | undefined {
+  const body = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+  if (body.trim() === "") {
+    return "Pattern is empty";
+  }
+  try {
+    compilePattern(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const compiledCache = new Map<string, CompiledPattern | undefined>();
+
+function compiled(pattern: string): CompiledPattern | undefined {
+  if (!compiledCache.has(pattern)) {
+    compiledCache.set(
+      pattern,
+      topicPatternError(pattern) == undefined ? compilePattern(pattern) : undefined,
+    );
+  }
+  return compiledCache.get(pattern);
+}
+
+function patternMatches(pattern: CompiledPattern, target: TopicPatternTarget): boolean {
+  if (pattern.field === "schema") {
+    return target.schemaName != undefined && pattern.regex.test(target.schemaName);
+  }
+  return pattern.regex.test(target.name);
+}
+
+/** Whether `patterns` select `target`. Invalid patterns are ignored. */
+export function matchesTopicPatterns(
+  patterns: readonly string[],
+  target: TopicPatternTarget,
+): boolean {
+  let included = false;
+  for (const pattern of patterns) {
+    const compiledPattern = compiled(pattern);
+    if (!compiledPattern || !patternMatches(compiledPattern, target)) {
+      continue;
+    }
+    if (compiledPattern.exclude) {
+      return false;
+    }
+    included = true;
+  }
+  return included;
+}
+
+/** Case-insensitive substring search over topic and schema names. */
+export function matchesTopicSearch(search: string, target: TopicPatternTarget): boolean {
+  const needle = search.trim().toLowerCase();
+  return (
+    needle === "" ||
+    target.name.toLowerCase().includes(needle) ||
+    (target.schemaName?.toLowerCase().includes(needle) ?? false)
+  );
+}
+
+/** One ROS namespace with the topics directly inside it and its sub-namespaces. */
+export interface NamespaceNode {
+  /** Full namespace, e.g. "/sensors/lidar"; "/" for the root. */
+  path: string;
+  /** Last level of the namespace, e.g. "lidar". */
+  name: string;
+  children: NamespaceNode[];
+  topics: string[];
+}
+
+/** Groups topic names by namespace. Children and topics are sorted by name. */
+export function buildNamespaceTree(topics: readonly string[]): NamespaceNode {
+  const root: NamespaceNode = { path: "/", name: "/", children: [], topics: [] };
+  const nodes = new Map<string, NamespaceNode>([["/", root]]);
+
+  for (const topic of topics) {
+    const levels = topic.split("/").filter((level) => level !== "");
+    let node = root;
+    for (let depth = 0; depth < levels.length - 1; depth++) {
+      const path = `/${levels.slice(0, depth + 1).join("/")}`;
+      let child = nodes.get(path);
+      if (!child) {
+        child = { path, name: levels[depth]!, children: [], topics: [] };
+        nodes.set(path, child);
+        node.children.push(child);
+      }
+      node = child;
+    }
+    node.topics.push(topic);
+  }
+
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.topics.sort((a, b) => a.localeCompare(b));
+  }
+  return root;
+}
+
+/** Every topic in `node` and its sub-namespaces. */
+export function namespaceTopics(node: NamespaceNode): string[] {
+  return [...node.topics, ...node.children.flatMap(namespaceTopics)];
+}
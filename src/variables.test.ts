@@ -0,0 +1,39 @@
+import { emptyStats } from "./stats/TopicStream";
+import { DEFAULT_VARIABLE_TEMPLATE, buildVariables, variableName } from "./variables";
+
+describe("variableName", () => {
+  it("fills in the topic slug and metric", () => {
+    expect(variableName(DEFAULT_VARIABLE_TEMPLATE, "/robot/scan", "hz")).toBe("rate_robot_scan_hz");
+    expect(variableName("{metric}-{topic}-{metric}", "/a b", "gaps")).toBe("gaps-a_b-gaps");
+  });
+});
+
+describe("buildVariables", () => {
+  it("writes each metric of each topic", () => {
+    const variables = buildVariables(
+      [{ ...emptyStats("/a", 10), averageFrequency: 5, gapCount: 2 }],
+      new Map([["/a", "warn"]]),
+      DEFAULT_VARIABLE_TEMPLATE,
+      ["hz", "gaps", "health", "ok"],
+    );
+    expect(Object.fromEntries(variables)).toEqual({
+      rate_a_hz: 5,
+      rate_a_gaps: 2,
+      rate_a_health: "warn",
+      rate_a_ok: false,
+    });
+  });
+
+  it("clears metrics that have no value", () => {
+    const variables = buildVariables([emptyStats("/a", 1)], new Map(), DEFAULT_VARIABLE_TEMPLATE, [
+      "hz",
+      "bandwidth",
+      "ok",
+    ]);
+    expect([...variables]).toEqual([
+      ["rate_a_hz", undefined],
+      ["rate_a_bandwidth", undefined],
+      ["rate_a_ok", undefined],
+    ]);
+  });
+});
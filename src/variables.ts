@@ -0,0 +1,93 @@
+import { VariableValue } from "@foxglove/extension";
+
+import { HealthStatus } from "./contracts";
+import { FrequencyStats } from "./stats/types";
+
+/** Per-topic values that can be written to global variables. */
+export type VariableMetric =
+  | "hz"
+  | "median_hz"
+  | "min_hz"
+  | "max_hz"
+  | "outliers"
+  | "gaps"
+  | "bandwidth"
+  | "health"
+  | "ok";
+
+export const VARIABLE_METRICS: readonly VariableMetric[] = [
+  "hz",
+  "median_hz",
+  "min_hz",
+  "max_hz",
+  "outliers",
+  "gaps",
+  "bandwidth",
+  "health",
+  "ok",
+];
+
+export const DEFAULT_VARIABLE_TEMPLATE = "rate_{topic}_{metric}";
+
+/** Topic names as they appear in variable names: "/robot/scan" becomes "robot_scan". */
+function topicSlug(topic: string): string {
+  return topic.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Variable name for a topic and metric. `{topic}` and `{metric}` in the template are replaced, so
+ * the default template names the average rate of `/scan` "rate_scan_hz".
+ */
+export function variableName(template: string, topic: string, metric: VariableMetric): string {
+  return template.replace(/\{topic\}/g, topicSlug(topic)).replace(/\{metric\}/g, metric);
+}
+
+function metricValue(
+  stats: FrequencyStats,
+  metric: VariableMetric,
+  health: HealthStatus | undefined,
+): VariableValue {
+  const hasRate = stats.messageCount >= 2;
+  switch (metric) {
+    case "hz":
+      return hasRate ? stats.averageFrequency : undefined;
+    case "median_hz":
+      return hasRate ? stats.medianFrequency : undefined;
+    case "min_hz":
+      return hasRate ? stats.minFrequency : undefined;
+    case "max_hz":
+      return hasRate ? stats.maxFrequency : undefined;
+    case "outliers":
+      return stats.outlierCount;
+    case "gaps":
+      return stats.gapCount;
+    case "bandwidth":
+      return stats.size?.bandwidth;
+    case "health":
+      return health;
+    case "ok":
+      return health != undefined ? health === "ok" : undefined;
+  }
+}
+
+/**
+ * Variables for the given metrics of every topic. Metrics without a value, such as health on a
+ * topic without a contract, are included as undefined so stale values get cleared.
+ */
+export function buildVariables(
+  allStats: readonly FrequencyStats[],
+  health: ReadonlyMap<string, HealthStatus>,
+  template: string,
+  metrics: readonly VariableMetric[],
+): Map<string, VariableValue> {
+  const variables = new Map<string, VariableValue>();
+  for (const stats of allStats) {
+    for (const metric of metrics) {
+      variables.set(
+        variableName(template, stats.topic, metric),
+        metricValue(stats, metric, health.get(stats.topic)),
+      );
+    }
+  }
+  return variables;
+}
@@ -0,0 +1,6 @@
+// worker-loader bundles the module after the `!` into a separate script and, inlined, returns a
+// constructor that starts it from a Blob URL.
+declare module "worker-loader?inline=no-fallback!*" {
+  const WorkerFactory: new () => Worker;
+  export default WorkerFactory;
+}